@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rag_data_sources" ADD COLUMN     "config" JSONB;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "rag_indexed_files" (
+    "id" TEXT NOT NULL,
+    "dataSourceId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "chunkCount" INTEGER NOT NULL DEFAULT 0,
+    "indexedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rag_indexed_files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rag_indexed_files_dataSourceId_idx" ON "rag_indexed_files"("dataSourceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rag_indexed_files_dataSourceId_path_key" ON "rag_indexed_files"("dataSourceId", "path");
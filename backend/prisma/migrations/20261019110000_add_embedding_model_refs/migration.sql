@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "rag_data_sources" ADD COLUMN     "embeddingModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "rag_vector_stores" ADD COLUMN     "embeddingModel" TEXT;
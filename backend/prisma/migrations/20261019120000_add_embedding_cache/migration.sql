@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "rag_embedding_cache" (
+    "key" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rag_embedding_cache_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "rag_embedding_cache_model_idx" ON "rag_embedding_cache"("model");
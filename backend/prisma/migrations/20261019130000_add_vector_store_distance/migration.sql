@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rag_vector_stores" ADD COLUMN     "distance" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ai_agents" ADD COLUMN     "retrievalSettings" JSONB;
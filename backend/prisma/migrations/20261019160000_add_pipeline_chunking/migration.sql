@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "rag_pipelines" ADD COLUMN     "chunking" JSONB,
+ALTER COLUMN "embeddingModel" DROP NOT NULL;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "rag_jobs" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "options" JSONB,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "progress" JSONB,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rag_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rag_jobs_status_idx" ON "rag_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "rag_jobs_targetId_idx" ON "rag_jobs"("targetId");
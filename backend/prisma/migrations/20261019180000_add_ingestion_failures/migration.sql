@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "rag_ingestion_failures" (
+    "id" TEXT NOT NULL,
+    "dataSourceId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "path" TEXT,
+    "chunkId" TEXT,
+    "content" TEXT,
+    "metadata" JSONB,
+    "indexHash" TEXT,
+    "error" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rag_ingestion_failures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rag_ingestion_failures_dataSourceId_idx" ON "rag_ingestion_failures"("dataSourceId");
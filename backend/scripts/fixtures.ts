@@ -0,0 +1,321 @@
+// Runs the web crawler, the paginated API loader and the Qdrant adapter against local fixture
+// servers, so they can be checked without network access or a running Qdrant.
+//   npm test
+import http from 'http'
+import { AddressInfo } from 'net'
+import assert from 'assert/strict'
+import { WebCrawler } from '../src/services/loaders/urlLoader'
+import { ApiLoader } from '../src/services/loaders/apiLoader'
+import { QdrantStore } from '../src/services/vectorStores/qdrantStore'
+
+type Handler = (req: http.IncomingMessage, body: string, res: http.ServerResponse) => void
+
+function serve(handler: Handler): Promise<{ url: string; close: () => Promise<void> }> {
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => handler(req, body, res))
+  })
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise(done => server.close(() => done())),
+      })
+    })
+  })
+}
+
+function sendJson(res: http.ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(data))
+}
+
+// A small site: two linked pages, one reachable only from the sitemap and one blocked by robots.txt
+const SITE_PAGES: Record<string, string> = {
+  '/': '<html><head><title>Home</title></head><body><main><h1>Home</h1><p>Welcome to the fixture site.</p><a href="/about">About</a> <a href="/private/admin">Admin</a> <a href="/report.pdf">Report</a></main></body></html>',
+  '/about': '<html><head><title>About</title></head><body><main><h1>About</h1><p>About the fixture site.</p><a href="/">Home</a></main></body></html>',
+  '/from-sitemap': '<html><head><title>Sitemap only</title></head><body><main><p>Only listed in the sitemap.</p></main></body></html>',
+  '/private/admin': '<html><head><title>Admin</title></head><body><p>Never crawled.</p></body></html>',
+}
+
+const siteHandler: Handler = (req, _body, res) => {
+  const path = new URL(req.url || '/', 'http://fixture').pathname
+  const origin = `http://${req.headers.host}`
+  if (path === '/robots.txt') {
+    res.writeHead(200, { 'Content-Type': 'text/plain' })
+    res.end(`User-agent: *\nDisallow: /private/\nSitemap: ${origin}/sitemap.xml\n`)
+  } else if (path === '/sitemap.xml') {
+    res.writeHead(200, { 'Content-Type': 'application/xml' })
+    res.end(`<?xml version="1.0"?><urlset><url><loc>${origin}/from-sitemap</loc></url></urlset>`)
+  } else if (SITE_PAGES[path]) {
+    res.writeHead(200, { 'Content-Type': 'text/html' })
+    res.end(SITE_PAGES[path])
+  } else {
+    res.writeHead(404)
+    res.end()
+  }
+}
+
+// 25 records served with offset, page, cursor and Link-header pagination. The first request to
+// /flaky is rate limited so the loader has to retry.
+const API_RECORDS = Array.from({ length: 25 }, (_, i) => ({ id: i + 1, title: `Record ${i + 1}` }))
+
+function apiHandler(): Handler {
+  let flakyHits = 0
+  return (req, _body, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`)
+    const limit = Number(url.searchParams.get('limit') || 10)
+
+    if (url.pathname === '/offset') {
+      const offset = Number(url.searchParams.get('offset') || 0)
+      return sendJson(res, 200, { data: API_RECORDS.slice(offset, offset + limit) })
+    }
+    if (url.pathname === '/page') {
+      const page = Number(url.searchParams.get('page') || 1)
+      return sendJson(res, 200, API_RECORDS.slice((page - 1) * limit, page * limit))
+    }
+    if (url.pathname === '/cursor') {
+      const start = Number(url.searchParams.get('cursor') || 0)
+      const next = start + limit < API_RECORDS.length ? String(start + limit) : null
+      return sendJson(res, 200, { items: API_RECORDS.slice(start, start + limit), meta: { next } })
+    }
+    if (url.pathname === '/link') {
+      const start = Number(url.searchParams.get('from') || 0)
+      const headers: Record<string, string> = {}
+      if (start + limit < API_RECORDS.length) {
+        headers.Link = `</link?from=${start + limit}&limit=${limit}>; rel="next"`
+      }
+      return sendJson(res, 200, API_RECORDS.slice(start, start + limit), headers)
+    }
+    if (url.pathname === '/flaky') {
+      flakyHits++
+      if (flakyHits === 1) return sendJson(res, 429, { error: 'slow down' }, { 'Retry-After': '0' })
+      if (req.headers.authorization !== 'Bearer fixture-key') return sendJson(res, 401, { error: 'unauthorized' })
+      return sendJson(res, 200, API_RECORDS.slice(0, 3))
+    }
+    sendJson(res, 404, { error: 'not found' })
+  }
+}
+
+// In-memory stand-in for the subset of Qdrant's REST API that QdrantStore uses
+interface FixturePoint {
+  id: string
+  vector: number[]
+  payload: Record<string, unknown>
+}
+
+interface FixtureCondition {
+  key: string
+  match: { value?: unknown; any?: unknown[] }
+}
+
+interface FixtureFilter {
+  must?: FixtureCondition[]
+  must_not?: FixtureCondition[]
+}
+
+const QDRANT_API_KEY = 'fixture-key'
+
+function qdrantHandler(): Handler {
+  const collections = new Map<string, { size: number; points: Map<string, FixturePoint> }>()
+
+  const field = (point: FixturePoint, key: string): unknown =>
+    key.split('.').reduce<unknown>((value, part) => (value as Record<string, unknown> | undefined)?.[part], point.payload)
+  const holds = (point: FixturePoint, condition: FixtureCondition) =>
+    condition.match.any ? condition.match.any.includes(field(point, condition.key)) : field(point, condition.key) === condition.match.value
+  const matches = (point: FixturePoint, filter?: FixtureFilter) =>
+    !filter || ((filter.must || []).every(c => holds(point, c)) && !(filter.must_not || []).some(c => holds(point, c)))
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, normA = 0, normB = 0
+    a.forEach((value, i) => { dot += value * b[i]; normA += value * value; normB += b[i] * b[i] })
+    return dot / Math.sqrt(normA * normB)
+  }
+
+  return (req, body, res) => {
+    const reply = (status: number, result: unknown) => sendJson(res, status, { result, status: status === 200 ? 'ok' : 'error' })
+    if (req.headers['api-key'] !== QDRANT_API_KEY) return reply(403, null)
+
+    const match = (req.url || '').match(/^\/collections\/([^/?]+)(\/[^?]*)?/)
+    if (!match) return reply(404, null)
+    const name = decodeURIComponent(match[1])
+    const path = match[2] || ''
+    const input = body ? JSON.parse(body) : {}
+    const collection = collections.get(name)
+
+    if (path === '' && req.method === 'PUT') {
+      collections.set(name, { size: input.vectors.size, points: new Map() })
+      return reply(200, true)
+    }
+    if (!collection) return reply(404, null)
+
+    if (path === '' && req.method === 'GET') return reply(200, { status: 'green' })
+    if (path === '' && req.method === 'DELETE') {
+      collections.delete(name)
+      return reply(200, true)
+    }
+    if (path === '/points' && req.method === 'PUT') {
+      for (const point of input.points as FixturePoint[]) {
+        if (point.vector.length !== collection.size) return reply(400, `Vector must have ${collection.size} dimensions`)
+        collection.points.set(point.id, point)
+      }
+      return reply(200, {})
+    }
+    if (path === '/points') {
+      return reply(200, (input.ids as string[]).map(id => collection.points.get(id)).filter(Boolean))
+    }
+    if (path === '/points/count') return reply(200, { count: collection.points.size })
+
+    const points = [...collection.points.values()].filter(point => matches(point, input.filter))
+    if (path === '/points/search') {
+      const scored = points
+        .map(point => ({ id: point.id, score: cosine(point.vector, input.vector), payload: point.payload }))
+        .sort((a, b) => b.score - a.score)
+      return reply(200, scored.slice(0, input.limit))
+    }
+    if (path === '/points/scroll') {
+      const start = Number(input.offset || 0)
+      const next = start + input.limit < points.length ? start + input.limit : null
+      return reply(200, {
+        points: points.slice(start, start + input.limit).map(point => ({ id: point.id, payload: point.payload })),
+        next_page_offset: next,
+      })
+    }
+    if (path === '/points/delete') {
+      const ids = new Set<string>(input.points || [])
+      for (const point of input.points ? [...collection.points.values()] : points) {
+        if (!input.points || ids.has(point.id)) collection.points.delete(point.id)
+      }
+      return reply(200, {})
+    }
+    reply(400, null)
+  }
+}
+
+async function checkCrawler(baseUrl: string) {
+  const pages = await new WebCrawler({ maxDepth: 2, requestTimeoutMs: 5000 }).crawl(`${baseUrl}/`)
+  const paths = pages.map(page => new URL(page.url).pathname).sort()
+
+  assert.deepEqual(paths, ['/', '/about', '/from-sitemap'])
+  assert.equal(pages.find(page => page.url === `${baseUrl}/`)?.title, 'Home')
+  assert.ok(pages.every(page => page.content.length > 0), 'every page has text content')
+
+  const startOnly = await new WebCrawler({ maxDepth: 0 }).crawl(`${baseUrl}/`)
+  assert.equal(startOnly.length, 1)
+}
+
+async function checkApiLoader(baseUrl: string) {
+  const expectedIds = API_RECORDS.map(record => String(record.id))
+
+  const offset = await new ApiLoader(`${baseUrl}/offset`, {
+    recordsPath: '$.data[*]',
+    idField: 'id',
+    pagination: { type: 'offset', pageSize: 10 },
+  }).load()
+  assert.deepEqual(offset.map(record => record.id), expectedIds)
+  assert.equal(offset[24].page, 2)
+
+  const page = await new ApiLoader(`${baseUrl}/page`, {
+    idField: 'id',
+    pagination: { type: 'page', pageSize: 10 },
+  }).load()
+  assert.deepEqual(page.map(record => record.id), expectedIds)
+
+  const cursor = await new ApiLoader(`${baseUrl}/cursor`, {
+    recordsPath: '$.items[*]',
+    idField: 'id',
+    pagination: { type: 'cursor', cursorPath: '$.meta.next', limitParam: 'limit', pageSize: 10 },
+  }).load()
+  assert.deepEqual(cursor.map(record => record.id), expectedIds)
+
+  const link = await new ApiLoader(`${baseUrl}/link?limit=10`, {
+    idField: 'id',
+    pagination: { type: 'link' },
+  }).load()
+  assert.deepEqual(link.map(record => record.id), expectedIds)
+
+  const capped = await new ApiLoader(`${baseUrl}/offset`, {
+    recordsPath: '$.data[*]',
+    pagination: { type: 'offset', pageSize: 10, maxPages: 2 },
+  }).load()
+  assert.equal(capped.length, 20)
+
+  const retried = await new ApiLoader(`${baseUrl}/flaky`, { maxRetries: 2 }, {}, 'fixture-key').load()
+  assert.equal(retried.length, 3)
+}
+
+async function checkQdrantStore(baseUrl: string) {
+  const unauthorized = new QdrantStore({ provider: 'qdrant', host: baseUrl }, 'fixtures')
+  await assert.rejects(unauthorized.add([{ id: 'a', embedding: [1, 0, 0], content: 'a', metadata: {} }]), /403/)
+
+  const store = new QdrantStore({ provider: 'qdrant', host: baseUrl, apiKey: QDRANT_API_KEY }, 'fixtures')
+  assert.equal(await store.count(), 0, 'a missing collection counts as empty')
+  assert.deepEqual(await store.query([1, 0, 0], 5), [], 'a missing collection has no matches')
+
+  await store.add([
+    { id: 'doc-1', embedding: [1, 0, 0], content: 'Alpha', metadata: { source: 'a.txt', page: 1 } },
+    { id: 'doc-2', embedding: [0, 1, 0], content: 'Beta', metadata: { source: 'b.txt', page: 2 } },
+    { id: 'doc-3', embedding: [0.9, 0.1, 0], content: 'Gamma', metadata: { source: 'a.txt', page: 3 } },
+  ])
+  assert.equal(await store.count(), 3)
+
+  const matches = await store.query([1, 0, 0], 2)
+  assert.deepEqual(matches.map(match => match.id), ['doc-1', 'doc-3'])
+  assert.ok(matches[0].distance < matches[1].distance, 'closer matches have a lower distance')
+
+  const filtered = await store.query([1, 0, 0], 5, { source: { $ne: 'a.txt' } })
+  assert.deepEqual(filtered.map(match => match.id), ['doc-2'])
+
+  const byIds = await store.get({ ids: ['doc-2', 'missing'] })
+  assert.deepEqual(byIds.map(record => record.content), ['Beta'])
+
+  const bySource = await store.get({ where: { source: { $in: ['a.txt'] } } })
+  assert.deepEqual(bySource.map(record => record.id).sort(), ['doc-1', 'doc-3'])
+
+  // Re-adding an ID replaces the point instead of duplicating it
+  await store.add([{ id: 'doc-1', embedding: [1, 0, 0], content: 'Alpha v2', metadata: { source: 'a.txt', page: 1 } }])
+  assert.equal(await store.count(), 3)
+  assert.equal((await store.get({ ids: ['doc-1'] }))[0].content, 'Alpha v2')
+
+  await store.delete({ ids: ['doc-2'] })
+  await store.delete({ where: { source: 'a.txt', page: 3 } })
+  assert.deepEqual((await store.get()).map(record => record.id), ['doc-1'])
+
+  await store.drop()
+  assert.equal(await store.count(), 0)
+}
+
+async function main() {
+  const site = await serve(siteHandler)
+  const api = await serve(apiHandler())
+  const qdrant = await serve(qdrantHandler())
+
+  const checks: Array<[string, () => Promise<void>]> = [
+    ['Web crawler', () => checkCrawler(site.url)],
+    ['Paginated API loader', () => checkApiLoader(api.url)],
+    ['Qdrant adapter', () => checkQdrantStore(qdrant.url)],
+  ]
+
+  let failed = 0
+  for (const [name, check] of checks) {
+    console.log(`\n🧪 ${name}`)
+    try {
+      await check()
+      console.log(`✅ ${name} passed`)
+    } catch (error) {
+      failed++
+      console.error(`❌ ${name} failed:`, error)
+    }
+  }
+
+  await Promise.all([site.close(), api.close(), qdrant.close()])
+
+  console.log(failed === 0 ? '\n✅ All fixture checks passed' : `\n❌ ${failed} of ${checks.length} fixture checks failed`)
+  process.exitCode = failed === 0 ? 0 : 1
+}
+
+main().catch(error => {
+  console.error('❌ Fixture run failed:', error)
+  process.exit(1)
+})
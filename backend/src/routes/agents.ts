@@ -1,5 +1,5 @@
 import { Router } from 'express'
-import { AgentService } from '../services/agentService'
+import { AgentService, ChatTurnTrace } from '../services/agentService'
 import { RagService } from '../services/ragService'
 import multer from 'multer'
 
@@ -25,7 +25,7 @@ router.post('/', async (req, res) => {
     res.status(201).json(agent)
   } catch (error) {
     console.error('Error creating AI agent:', error)
-    res.status(500).json({ error: 'Failed to create AI agent' })
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create AI agent' })
   }
 })
 
@@ -81,7 +81,7 @@ router.put('/:id', async (req, res) => {
     res.json(agent)
   } catch (error) {
     console.error('Error updating AI agent:', error)
-    res.status(500).json({ error: 'Failed to update AI agent' })
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update AI agent' })
   }
 })
 
@@ -155,11 +155,12 @@ router.post('/:id/chat', async (req, res) => {
       return res.status(400).json({ error: 'Invalid request: missing message or messages' })
     }
 
-    const response = await agentService.generateChatResponse(req.params.id, messages)
+    const trace: ChatTurnTrace = {}
+    const response = await agentService.generateChatResponse(req.params.id, messages, trace)
     if (response === null) {
       return res.status(400).json({ error: 'Agent not configured for chat or not found' })
     }
-    res.json({ response })
+    res.json({ response, trace })
   } catch (error) {
     console.error('Error generating chat response:', error)
     res.status(500).json({ error: 'Failed to generate chat response' })
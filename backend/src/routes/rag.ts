@@ -1,6 +1,10 @@
-import { Router } from 'express'
+import express, { Router } from 'express'
 import { RagService } from '../services/ragService'
 import { DatabaseService } from '../services/databaseService'
+import { SUPPORTED_FILE_EXTENSIONS } from '../services/loaders/fileLoader'
+import { JobStatus, JobType } from '../services/jobQueue'
+import { UploadService, UploadError, UPLOAD_CHUNK_SIZE, ReceivedFile } from '../services/uploadService'
+import { isArchive } from '../services/archives'
 import multer from 'multer'
 import path from 'path'
 import fs from 'fs'
@@ -9,10 +13,12 @@ const router = Router()
 const dbService = new DatabaseService()
 const ragService = RagService.getInstance(dbService)
 
-// Configure multer for file uploads
+const uploadDir = path.join(process.cwd(), 'uploads')
+const uploadService = new UploadService(uploadDir)
+
+// Configure multer for file uploads; larger files go through resumable uploads (/uploads)
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
-    const uploadDir = path.join(process.cwd(), 'uploads')
     if (!fs.existsSync(uploadDir)) {
       fs.mkdirSync(uploadDir, { recursive: true })
     }
@@ -26,12 +32,11 @@ const storage = multer.diskStorage({
 const upload = multer({
   storage,
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['.txt', '.pdf', '.docx', '.csv', '.json', '.md']
-    const ext = path.extname(file.originalname).toLowerCase()
-    if (allowedTypes.includes(ext)) {
+    try {
+      uploadService.checkFileType(file.originalname)
       cb(null, true)
-    } else {
-      cb(new Error(`File type ${ext} not supported`))
+    } catch (error) {
+      cb(error as Error)
     }
   },
   limits: {
@@ -39,6 +44,9 @@ const upload = multer({
   }
 })
 
+// `file` is the original single-file field; `files` takes several, with their relative paths in `paths`
+const receiveFiles = upload.fields([{ name: 'file', maxCount: 1 }, { name: 'files' }])
+
 // Data Sources
 router.get('/datasources', async (req, res) => {
   try {
@@ -68,7 +76,7 @@ router.post('/datasources', async (req, res) => {
     res.status(201).json(dataSource)
   } catch (error) {
     console.error('Error creating data source:', error)
-    res.status(500).json({ error: 'Failed to create data source' })
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create data source' })
   }
 })
 
@@ -94,7 +102,7 @@ router.put('/datasources/:id', async (req, res) => {
     res.json(dataSource)
   } catch (error) {
     console.error('Error updating data source:', error)
-    res.status(500).json({ error: 'Failed to update data source' })
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update data source' })
   }
 })
 
@@ -108,7 +116,7 @@ router.put('/datasources/:id', async (req, res) => {
     res.json(dataSource)
   } catch (error) {
     console.error('Error updating data source:', error)
-    res.status(500).json({ error: 'Failed to update data source' })
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update data source' })
   }
 })
 
@@ -125,20 +133,79 @@ router.delete('/datasources/:id', async (req, res) => {
   }
 })
 
-// POST /api/rag/datasources/:id/retry - Retry processing a data source
+// POST /api/rag/datasources/:id/retry - Re-index a data source (?full=true re-embeds everything)
 router.post('/datasources/:id/retry', async (req, res) => {
   try {
-    const success = await ragService.retryDataSourceProcessing(req.params.id)
-    if (!success) {
+    const job = await ragService.retryDataSourceProcessing(req.params.id, req.query.full === 'true')
+    if (!job) {
       return res.status(404).json({ error: 'Data source not found' })
     }
-    res.json({ message: 'Data source processing retried' })
+    res.json({ message: 'Data source processing queued', job })
   } catch (error) {
     console.error('Failed to retry data source processing:', error)
     res.status(500).json({ error: 'Failed to retry data source processing' })
   }
 })
 
+// GET /api/rag/datasources/:id/failures - Files and chunks missing from the data source's index
+router.get('/datasources/:id/failures', async (req, res) => {
+  try {
+    const failures = await ragService.getIngestionFailures(req.params.id)
+    if (!failures) {
+      return res.status(404).json({ error: 'Data source not found' })
+    }
+    res.json({
+      files: failures.filter(failure => failure.kind === 'file'),
+      chunks: failures.filter(failure => failure.kind === 'chunk'),
+    })
+  } catch (error) {
+    console.error('Failed to fetch ingestion failures:', error)
+    res.status(500).json({ error: 'Failed to fetch ingestion failures' })
+  }
+})
+
+// POST /api/rag/datasources/:id/reembed - Embed only the chunks whose embedding failed
+router.post('/datasources/:id/reembed', async (req, res) => {
+  try {
+    const job = await ragService.reembedFailedChunks(req.params.id)
+    if (!job) {
+      return res.status(404).json({ error: 'Data source not found' })
+    }
+    res.status(202).json({ message: 'Re-embedding of failed chunks queued', job })
+  } catch (error) {
+    console.error('Failed to queue re-embedding:', error)
+    res.status(409).json({ error: error instanceof Error ? error.message : 'Failed to queue re-embedding' })
+  }
+})
+
+// POST /api/rag/datasources/:id/watch - Turn the filesystem watcher for a directory source on or off
+router.post('/datasources/:id/watch', async (req, res) => {
+  try {
+    const dataSource = await ragService.setDataSourceWatch(req.params.id, req.body.enabled !== false)
+    if (!dataSource) {
+      return res.status(404).json({ error: 'Data source not found' })
+    }
+    res.json(dataSource)
+  } catch (error) {
+    console.error('Failed to update data source watcher:', error)
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update data source watcher' })
+  }
+})
+
+// PUT /api/rag/datasources/:id/aliases - Replace the names and terms users say differently from the source
+router.put('/datasources/:id/aliases', async (req, res) => {
+  try {
+    const dataSource = await ragService.setDataSourceAliases(req.params.id, req.body.aliases)
+    if (!dataSource) {
+      return res.status(404).json({ error: 'Data source not found' })
+    }
+    res.json(dataSource)
+  } catch (error) {
+    console.error('Failed to update data source aliases:', error)
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update data source aliases' })
+  }
+})
+
 // GET /api/rag/vectorstores/:id/stats - Get vector store statistics
 router.get('/vectorstores/:id/stats', async (req, res) => {
   try {
@@ -147,15 +214,11 @@ router.get('/vectorstores/:id/stats', async (req, res) => {
       return res.status(404).json({ error: 'Vector store not found' })
     }
 
-    // Try to get actual count from ChromaDB
+    // Try to get actual count from the store itself
     try {
-      const collection = await ragService.getChromaClient().getCollection({
-        name: `rag_${req.params.id}`
-      })
-      const count = await collection.count()
-      vectorStore.vectorCount = count
+      await ragService.getVectorCount(req.params.id)
     } catch (error) {
-      console.warn('Could not get vector count from ChromaDB:', error)
+      console.warn(`Could not get vector count from ${vectorStore.provider}:`, error)
     }
 
     res.json({
@@ -190,7 +253,7 @@ router.post('/vectorstores', async (req, res) => {
     res.status(201).json(store)
   } catch (error) {
     console.error('Error creating vector store:', error)
-    res.status(500).json({ error: 'Failed to create vector store' })
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create vector store' })
   }
 })
 
@@ -216,7 +279,7 @@ router.put('/vectorstores/:id', async (req, res) => {
     res.json(store)
   } catch (error) {
     console.error('Error updating vector store:', error)
-    res.status(500).json({ error: 'Failed to update vector store' })
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update vector store' })
   }
 })
 
@@ -229,46 +292,359 @@ router.delete('/vectorstores/:id', async (req, res) => {
     res.status(204).send()
   } catch (error) {
     console.error('Error deleting vector store:', error)
-    res.status(500).json({ error: 'Failed to delete vector store' })
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to delete vector store' })
+  }
+})
+
+// Pipelines
+router.get('/pipelines', async (req, res) => {
+  try {
+    const pipelines = await ragService.getPipelines()
+    res.json(pipelines)
+  } catch (error) {
+    console.error('Error fetching pipelines:', error)
+    res.status(500).json({ error: 'Failed to fetch pipelines' })
+  }
+})
+
+// POST /api/rag/pipelines - Create a pipeline { name, dataSources, description?, vectorStore?, embeddingModel?, chunking? }
+router.post('/pipelines', async (req, res) => {
+  try {
+    const pipeline = await ragService.createPipeline(req.body)
+    res.status(201).json(pipeline)
+  } catch (error) {
+    console.error('Error creating pipeline:', error)
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to create pipeline' })
+  }
+})
+
+router.get('/pipelines/:id', async (req, res) => {
+  try {
+    const pipeline = ragService.getPipeline(req.params.id)
+    if (!pipeline) {
+      return res.status(404).json({ error: 'Pipeline not found' })
+    }
+    res.json(pipeline)
+  } catch (error) {
+    console.error('Error fetching pipeline:', error)
+    res.status(500).json({ error: 'Failed to fetch pipeline' })
   }
 })
 
+router.put('/pipelines/:id', async (req, res) => {
+  try {
+    const pipeline = await ragService.updatePipeline(req.params.id, req.body)
+    if (!pipeline) {
+      return res.status(404).json({ error: 'Pipeline not found' })
+    }
+    res.json(pipeline)
+  } catch (error) {
+    console.error('Error updating pipeline:', error)
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update pipeline' })
+  }
+})
+
+router.delete('/pipelines/:id', async (req, res) => {
+  try {
+    const success = await ragService.deletePipeline(req.params.id)
+    if (!success) {
+      return res.status(404).json({ error: 'Pipeline not found' })
+    }
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting pipeline:', error)
+    res.status(500).json({ error: 'Failed to delete pipeline' })
+  }
+})
+
+// POST /api/rag/pipelines/:id/run - Index every data source of the pipeline into its vector store
+router.post('/pipelines/:id/run', async (req, res) => {
+  try {
+    const job = await ragService.runPipeline(req.params.id)
+    if (!job) {
+      return res.status(404).json({ error: 'Pipeline not found' })
+    }
+    res.status(202).json(job)
+  } catch (error) {
+    console.error('Error running pipeline:', error)
+    res.status(409).json({ error: error instanceof Error ? error.message : 'Failed to run pipeline' })
+  }
+})
+
+// GET /api/rag/jobs - List ingestion jobs, newest first (?status=, ?type=datasource|pipeline, ?targetId=)
+router.get('/jobs', async (req, res) => {
+  try {
+    const { status, type, targetId } = req.query
+    const jobs = await ragService.getJobs({
+      status: typeof status === 'string' ? status as JobStatus : undefined,
+      type: typeof type === 'string' ? type as JobType : undefined,
+      targetId: typeof targetId === 'string' ? targetId : undefined,
+    })
+    res.json({ concurrency: ragService.getJobConcurrency(), jobs })
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    res.status(500).json({ error: 'Failed to fetch jobs' })
+  }
+})
+
+// PUT /api/rag/jobs/settings - Set how many jobs run at once { concurrency }
+router.put('/jobs/settings', async (req, res) => {
+  try {
+    await ragService.setJobConcurrency(req.body.concurrency)
+    res.json({ concurrency: ragService.getJobConcurrency() })
+  } catch (error) {
+    console.error('Error updating job settings:', error)
+    res.status(400).json({ error: error instanceof Error ? error.message : 'Failed to update job settings' })
+  }
+})
+
+// GET /api/rag/jobs/:id - Get a job with its per-stage progress
+router.get('/jobs/:id', async (req, res) => {
+  try {
+    const job = await ragService.getJob(req.params.id)
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' })
+    }
+    res.json(job)
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    res.status(500).json({ error: 'Failed to fetch job' })
+  }
+})
+
+// POST /api/rag/jobs/:id/cancel - Cancel a queued job, or stop a running one at its next file or batch
+router.post('/jobs/:id/cancel', async (req, res) => {
+  try {
+    const job = await ragService.cancelJob(req.params.id)
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' })
+    }
+    res.status(202).json(job)
+  } catch (error) {
+    console.error('Error cancelling job:', error)
+    res.status(409).json({ error: error instanceof Error ? error.message : 'Failed to cancel job' })
+  }
+})
+
+// POST /api/rag/query - Retrieve chunks from vector stores, optionally narrowed by a metadata filter
+router.post('/query', async (req, res) => {
+  try {
+    const { query, vectorStoreIds, ...settings } = req.body
+    if (typeof query !== 'string' || !query.trim()) {
+      return res.status(400).json({ error: 'query is required' })
+    }
+    if (!Array.isArray(vectorStoreIds) || vectorStoreIds.length === 0) {
+      return res.status(400).json({ error: 'vectorStoreIds must list at least one vector store' })
+    }
+    const missing = vectorStoreIds.filter((id: string) => !ragService.getVectorStore(id))
+    if (missing.length > 0) {
+      return res.status(404).json({ error: `Vector store not found: ${missing.join(', ')}` })
+    }
+    try {
+      ragService.validateRetrievalSettings(settings)
+    } catch (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid retrieval settings' })
+    }
+
+    const results = await ragService.retrieveFromStores(query, vectorStoreIds, settings)
+    res.json({ query, results })
+  } catch (error) {
+    console.error('Error querying vector stores:', error)
+    res.status(500).json({ error: 'Failed to query vector stores' })
+  }
+})
+
+// Embedding Models
+router.get('/embeddingmodels', async (req, res) => {
+  try {
+    const models = await ragService.getEmbeddingModels()
+    res.json(models)
+  } catch (error) {
+    console.error('Error fetching embedding models:', error)
+    res.status(500).json({ error: 'Failed to fetch embedding models' })
+  }
+})
+
+router.post('/embeddingmodels', async (req, res) => {
+  try {
+    const { name, provider, modelName } = req.body
+    if (!name || !provider || !modelName) {
+      return res.status(400).json({ error: 'name, provider and modelName are required' })
+    }
+    const model = await ragService.createEmbeddingModel(req.body)
+    res.status(201).json(model)
+  } catch (error) {
+    console.error('Error creating embedding model:', error)
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to create embedding model' })
+  }
+})
+
+router.get('/embeddingmodels/:id', async (req, res) => {
+  try {
+    const model = await ragService.getEmbeddingModel(req.params.id)
+    if (!model) {
+      return res.status(404).json({ error: 'Embedding model not found' })
+    }
+    res.json(model)
+  } catch (error) {
+    console.error('Error fetching embedding model:', error)
+    res.status(500).json({ error: 'Failed to fetch embedding model' })
+  }
+})
+
+router.put('/embeddingmodels/:id', async (req, res) => {
+  try {
+    const model = await ragService.updateEmbeddingModel(req.params.id, req.body)
+    if (!model) {
+      return res.status(404).json({ error: 'Embedding model not found' })
+    }
+    res.json(model)
+  } catch (error) {
+    console.error('Error updating embedding model:', error)
+    res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to update embedding model' })
+  }
+})
+
+router.delete('/embeddingmodels/:id', async (req, res) => {
+  try {
+    const success = await ragService.deleteEmbeddingModel(req.params.id)
+    if (!success) {
+      return res.status(404).json({ error: 'Embedding model not found' })
+    }
+    res.status(204).send()
+  } catch (error) {
+    console.error('Error deleting embedding model:', error)
+    // Models still referenced by a data source or vector store cannot be removed
+    res.status(409).json({ error: error instanceof Error ? error.message : 'Failed to delete embedding model' })
+  }
+})
+
+// POST /api/rag/embeddingmodels/:id/test - Embed a probe text and record the model's dimensions
+router.post('/embeddingmodels/:id/test', async (req, res) => {
+  try {
+    if (!await ragService.getEmbeddingModel(req.params.id)) {
+      return res.status(404).json({ error: 'Embedding model not found' })
+    }
+    const model = await ragService.testEmbeddingModel(req.params.id)
+    res.json(model)
+  } catch (error) {
+    console.error('Error testing embedding model:', error)
+    res.status(502).json({ error: error instanceof Error ? error.message : 'Embedding model test failed' })
+  }
+})
+
+
+// Resumable uploads
+// POST /api/rag/uploads - Start an upload of { fileName, size, relativePath? }
+router.post('/uploads', async (req, res) => {
+  try {
+    const session = uploadService.createSession(req.body)
+    res.status(201).json({ ...session, chunkSize: UPLOAD_CHUNK_SIZE })
+  } catch (error) {
+    res.status(error instanceof UploadError ? error.status : 500).json({ error: error instanceof Error ? error.message : 'Failed to start upload' })
+  }
+})
+
+// GET /api/rag/uploads/:id - Bytes received so far, to resume from
+router.get('/uploads/:id', async (req, res) => {
+  const session = uploadService.getSession(req.params.id)
+  if (!session) {
+    return res.status(404).json({ error: 'Upload not found' })
+  }
+  res.json({ ...session, chunkSize: UPLOAD_CHUNK_SIZE })
+})
+
+// PUT /api/rag/uploads/:id?offset=N - Append a chunk (application/octet-stream) at byte offset N
+router.put('/uploads/:id', express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_SIZE + 1024 }), async (req, res) => {
+  try {
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: 'Chunks must be sent as application/octet-stream' })
+    }
+    const session = await uploadService.appendChunk(req.params.id, Number(req.query.offset), req.body)
+    res.json(session)
+  } catch (error) {
+    if (error instanceof UploadError) {
+      return res.status(error.status).json({ error: error.message, received: error.received })
+    }
+    console.error('Failed to store upload chunk:', error)
+    res.status(500).json({ error: 'Failed to store upload chunk' })
+  }
+})
+
+// DELETE /api/rag/uploads/:id - Abandon an upload
+router.delete('/uploads/:id', async (req, res) => {
+  if (!uploadService.cancelSession(req.params.id)) {
+    return res.status(404).json({ error: 'Upload not found' })
+  }
+  res.status(204).send()
+})
 
 // File Upload
-router.post('/upload', upload.single('file'), async (req, res) => {
+// POST /api/rag/upload - Create a data source from uploaded files (multipart `file`/`files`) and
+// finished resumable uploads (`uploads`, a JSON list of IDs). A single plain file becomes a file
+// source; several files or an archive become one directory source.
+router.post('/upload', (req, res, next) => {
+  receiveFiles(req, res, (error: unknown) => {
+    if (!error) return next()
+    const tooLarge = error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE'
+    res.status(tooLarge ? 413 : 400).json({
+      error: tooLarge ? 'Files over 10MB must be sent as resumable uploads' : error instanceof Error ? error.message : 'Invalid upload',
+    })
+  })
+}, async (req, res) => {
+  const uploaded = (req.files || {}) as Record<string, Express.Multer.File[]>
+  const parts = [...(uploaded.file || []), ...(uploaded.files || [])]
+  let received: ReceivedFile[] = []
+  let directory: string | undefined
+
   try {
-    if (!req.file) {
+    const { name, type, embeddingModel } = req.body
+    const config = req.body.config ? JSON.parse(req.body.config) : undefined
+    const relativePaths: string[] = req.body.paths ? JSON.parse(req.body.paths) : []
+    const uploadIds: string[] = req.body.uploads ? JSON.parse(req.body.uploads) : []
+
+    received = [
+      ...(uploaded.file || []).map(file => ({ path: file.path, relativePath: file.originalname, size: file.size })),
+      ...(uploaded.files || []).map((file, i) => ({ path: file.path, relativePath: relativePaths[i] || file.originalname, size: file.size })),
+      ...uploadService.takeSessions(uploadIds),
+    ]
+    if (received.length === 0) {
       return res.status(400).json({ error: 'No file uploaded' })
     }
 
-    const { name, type } = req.body
-    const filePath = req.file.path
+    console.log('Files uploaded:', received.map(file => ({ relativePath: file.relativePath, size: file.size })))
 
-    console.log('File uploaded:', {
-      originalName: req.file.originalname,
-      path: filePath,
-      size: req.file.size
-    })
+    const single = received.length === 1 && type !== 'directory' && !isArchive(received[0].relativePath)
+    // Unnamed sources take the file's name, or the top folder or archive of a directory upload
+    const topLevel = received[0].relativePath.split('/')[0]
+    const sourceName = name || (single ? path.basename(topLevel, path.extname(topLevel)) : topLevel.replace(/\.(zip|tar|tar\.gz|tgz)$/i, ''))
+    if (!single) directory = await uploadService.createDirectory(sourceName, received)
 
-    // Create data source from uploaded file
+    // Create data source from the uploaded files
     const dataSource = await ragService.createDataSource({
-      name: name || path.basename(req.file.originalname, path.extname(req.file.originalname)),
-      type: type || 'file',
-      path: filePath
+      name: sourceName,
+      type: single ? 'file' : 'directory',
+      path: directory || received[0].path,
+      config,
+      embeddingModel: embeddingModel || undefined
     })
 
     console.log('Data source created:', dataSource)
 
     res.status(201).json({
-      message: 'File uploaded and data source created',
+      message: single ? 'File uploaded and data source created' : 'Files uploaded and directory data source created',
       dataSource,
-      file: {
-        originalName: req.file.originalname,
-        size: req.file.size,
-        path: filePath
-      }
+      files: received.map(file => ({ relativePath: file.relativePath, size: file.size })),
     })
   } catch (error) {
+    // Received files are only kept once they belong to a data source
+    for (const file of received.length > 0 ? received : parts) {
+      fs.rmSync(file.path, { force: true })
+    }
+    if (directory) fs.rmSync(directory, { recursive: true, force: true })
+    if (error instanceof UploadError || error instanceof SyntaxError) {
+      return res.status(400).json({ error: error.message })
+    }
     console.error('File upload error:', error)
     res.status(500).json({ error: 'Failed to upload file' })
   }
@@ -10,6 +10,7 @@ import { DatabaseService } from './services/databaseService'
 import { McpServerService } from './services/mcpServerService'
 import { RagService } from './services/ragService'
 import { AgentService } from './services/agentService'
+import { attachLiveUpdates } from './services/liveUpdates'
 
 import { createMcpRoutes } from './routes/mcp'
 import { ragRoutes } from './routes/rag'  
@@ -46,18 +47,8 @@ app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
-// WebSocket handling for real-time updates
-wss.on('connection', (ws: WebSocket) => {
-  console.log('Client connected to WebSocket')
-
-  ws.on('message', (message: WebSocket.RawData) => {
-    console.log('Received:', message.toString())
-  })
-
-  ws.on('close', () => {
-    console.log('Client disconnected from WebSocket')
-  })
-})
+// WebSocket pushes data source, pipeline, job, MCP server and agent status to subscribed clients
+attachLiveUpdates(wss)
 
 const PORT = process.env.PORT || 3001
 
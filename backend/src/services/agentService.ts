@@ -1,8 +1,10 @@
 import { v4 as uuidv4 } from 'uuid'
 import OpenAI from 'openai'
 import { McpServerService } from './mcpServerService'
-import { RagService } from './ragService'
+import { RagService, RetrievalSettings, RetrievalQuery } from './ragService'
+import { QueryTransformer } from './queryTransformer'
 import { DatabaseService } from './databaseService'
+import { eventBus } from './eventBus'
 
 export interface VoiceSettings {
   voice: 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer'
@@ -29,17 +31,28 @@ export interface AiAgent {
   vectorStores: string[] // IDs of vector stores this agent can access
   voiceSettings?: VoiceSettings
   chatSettings?: ChatSettings
+  retrievalSettings?: RetrievalSettings // How the agent searches its vector stores
   status: 'configured' | 'ready' | 'running' | 'error'
   createdAt: Date
   updatedAt: Date
 }
 
+// How a chat turn's retrieval went, returned alongside the response
+export interface ChatTurnTrace {
+  query?: string
+  rewrittenQuery?: string // Standalone form of a follow-up, when condensing is on
+  expandedQueries?: string[]
+  hypotheticalDocument?: string
+  retrievedChunks?: Array<{ source: string; dataSourceId: string; rerankScore?: number }>
+}
+
 export class AgentService {
   private agents: Map<string, AiAgent> = new Map()
   private openai: OpenAI | null = null
   private mcpService: McpServerService
   private ragService: RagService
   private dbService: DatabaseService
+  private queryTransformer = new QueryTransformer()
 
   constructor(mcpService: McpServerService, ragService: RagService, dbService: DatabaseService) {
     this.mcpService = mcpService
@@ -59,6 +72,7 @@ export class AgentService {
           status: agent.status as 'configured' | 'ready' | 'running' | 'error',
           voiceSettings: agent.voiceSettings ? agent.voiceSettings as unknown as VoiceSettings : undefined,
           chatSettings: agent.chatSettings as unknown as ChatSettings,
+          retrievalSettings: agent.retrievalSettings ? agent.retrievalSettings as unknown as RetrievalSettings : undefined,
           vectorStores: agent.vectorStores && agent.vectorStores.length > 0 ? agent.vectorStores : ['default-chromadb'],
         }
         this.agents.set(agent.id, typedAgent)
@@ -103,6 +117,7 @@ export class AgentService {
   }
 
   async createAgent(data: Omit<AiAgent, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<AiAgent> {
+    this.ragService.validateRetrievalSettings(data.retrievalSettings)
     const id = uuidv4()
     const agent: AiAgent = {
       id,
@@ -131,6 +146,7 @@ export class AgentService {
   async updateAgent(id: string, updates: Partial<AiAgent>): Promise<AiAgent | null> {
     const agent = this.agents.get(id)
     if (!agent) return null
+    this.ragService.validateRetrievalSettings(updates.retrievalSettings)
 
     const updated = { ...agent, ...updates, updatedAt: new Date() }
 
@@ -157,12 +173,10 @@ export class AgentService {
     if (agent.status === 'running') return true
 
     try {
-      agent.status = 'running'
-      agent.updatedAt = new Date()
+      this.setStatus(agent, 'running')
       return true
     } catch (error) {
-      agent.status = 'error'
-      agent.updatedAt = new Date()
+      this.setStatus(agent, 'error')
       console.error('Failed to start agent:', error)
       return false
     }
@@ -175,17 +189,21 @@ export class AgentService {
     if (agent.status !== 'running') return true
 
     try {
-      agent.status = 'ready'
-      agent.updatedAt = new Date()
+      this.setStatus(agent, 'ready')
       return true
     } catch (error) {
-      agent.status = 'error'
-      agent.updatedAt = new Date()
+      this.setStatus(agent, 'error')
       console.error('Failed to stop agent:', error)
       return false
     }
   }
 
+  private setStatus(agent: AiAgent, status: AiAgent['status']) {
+    agent.status = status
+    agent.updatedAt = new Date()
+    eventBus.publish('agent.status', { id: agent.id, name: agent.name, status })
+  }
+
   async getAgentStatus(id: string): Promise<{ status: string } | null> {
     const agent = this.agents.get(id)
     if (!agent) return null
@@ -222,7 +240,7 @@ export class AgentService {
   }
 
   // Chat completion methods
-  async generateChatResponse(agentId: string, messages: Array<{ role: 'user' | 'assistant' | 'system', content: string }>): Promise<string | null> {
+  async generateChatResponse(agentId: string, messages: Array<{ role: 'user' | 'assistant' | 'system', content: string }>, trace: ChatTurnTrace = {}): Promise<string | null> {
     const agent = this.agents.get(agentId)
     if (!agent || !agent.chatSettings) {
       console.log(`❌ Agent ${agentId} not found or missing chat settings`)
@@ -254,35 +272,55 @@ export class AgentService {
       if (agent.vectorStores && agent.vectorStores.length > 0) {
         const lastMessage = messages[messages.length - 1]
         console.log(`🔍 Query: "${lastMessage.content}"`)
-        let allContextChunks: Array<{content: string, source: string, dataSourceId: string}> = []
-        for (const vectorStoreId of agent.vectorStores) {
+        trace.query = lastMessage.content
+
+        // Follow-ups like "what about her talk?" are rewritten with the conversation before searching
+        let queries: RetrievalQuery[] = [{ text: lastMessage.content }]
+        const transform = agent.retrievalSettings?.queryTransform
+        if (transform && (transform.condense || transform.multiQuery || transform.hyde)) {
+          const transformed = await this.queryTransformer.transform(messages, transform)
+          queries = [
+            { text: transformed.standalone, embedText: transformed.hypotheticalDocument },
+            ...transformed.expansions.map(text => ({ text })),
+          ]
+          if (transformed.standalone !== transformed.original) {
+            trace.rewrittenQuery = transformed.standalone
+            console.log(`📝 Rewrote query as: "${transformed.standalone}"`)
+          }
+          if (transformed.expansions.length > 0) {
+            trace.expandedQueries = transformed.expansions
+            console.log(`📝 Expanded into ${transformed.expansions.length} more queries:`, transformed.expansions)
+          }
+          if (transformed.hypotheticalDocument) {
+            trace.hypotheticalDocument = transformed.hypotheticalDocument
+            console.log(`📝 HyDE passage: "${transformed.hypotheticalDocument.substring(0, 100)}..."`)
+          }
+        }
+
+        const readyStores = agent.vectorStores.filter(vectorStoreId => {
           console.log(`📚 Searching vector store: ${vectorStoreId}`)
 
           // Check if vector store exists and is ready
           const vectorStore = this.ragService.getVectorStore(vectorStoreId)
           if (!vectorStore) {
             console.warn(`❌ Vector store ${vectorStoreId} not found`)
-            continue
+            return false
           }
           if (vectorStore.status !== 'ready') {
             console.warn(`⚠️ Vector store ${vectorStoreId} status: ${vectorStore.status}`)
-            continue
+            return false
           }
+          return true
+        })
 
-          try {
-            console.log(`🔎 About to call retrieveContext for vector store ${vectorStoreId}`)
-            const contextChunks = await this.ragService.retrieveContext(lastMessage.content, vectorStoreId)
-            console.log(`📄 Retrieved ${contextChunks.length} chunks from ${vectorStoreId}`)
-            if (contextChunks.length > 0) {
-              console.log('Sample chunk:', contextChunks[0].content.substring(0, 100) + '...')
-            } else {
-              console.log(`⚠️ No chunks retrieved from ${vectorStoreId} - check debug logs above`)
-            }
-            allContextChunks.push(...contextChunks)
-          } catch (error) {
-            console.warn(`Failed to retrieve context from vector store ${vectorStoreId}:`, error)
-          }
+        const allContextChunks = await this.ragService.retrieveFromStores(queries, readyStores, agent.retrievalSettings)
+        trace.retrievedChunks = allContextChunks.map(({ source, dataSourceId, rerankScore }) => ({ source, dataSourceId, rerankScore }))
+        if (allContextChunks.length > 0) {
+          console.log('Sample chunk:', allContextChunks[0].content.substring(0, 100) + '...')
+        } else {
+          console.log(`⚠️ No chunks retrieved from ${readyStores.join(', ') || 'any vector store'} - check debug logs above`)
         }
+
         if (allContextChunks.length > 0) {
           // Group context by data source for better organization
           const contextBySource = new Map<string, Array<{content: string, source: string}>>()
@@ -0,0 +1,55 @@
+import { tokenize } from './vectorStores/bm25Index'
+
+// A name or term as the data spells it, and the other ways users say or type it,
+// such as { term: 'Siobhan', aliases: ['Shivon', 'Chevonne'] }
+export interface AliasEntry {
+  term: string
+  aliases: string[]
+}
+
+export function validateAliases(entries: unknown): asserts entries is AliasEntry[] {
+  if (!Array.isArray(entries)) {
+    throw new Error('Aliases must be a list of { term, aliases } entries')
+  }
+  for (const entry of entries) {
+    if (typeof entry?.term !== 'string' || !entry.term.trim()) {
+      throw new Error('Every alias entry needs a term')
+    }
+    if (!Array.isArray(entry.aliases) || !entry.aliases.every((alias: unknown) => typeof alias === 'string' && alias.trim())) {
+      throw new Error(`Aliases for "${entry.term}" must be a list of non-empty strings`)
+    }
+  }
+}
+
+// Replaces aliases in the text with their terms. An alias matches where its words appear in order,
+// ignoring case and accents. Matching by sound is left to the store's names: here it would turn
+// ordinary words such as "ten" into an alias like "Dan". Longer aliases win where several match.
+export function applyAliases(text: string, entries: AliasEntry[]): string {
+  if (entries.length === 0) return text
+
+  const words = [...text.matchAll(/[\p{L}\p{N}][\p{L}\p{N}\p{M}'’]*/gu)].map(match => ({
+    token: tokenize(match[0]).join(''),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+  const candidates = entries
+    .flatMap(entry => entry.aliases.map(alias => ({ term: entry.term, words: tokenize(alias) })))
+    .filter(candidate => candidate.words.length > 0)
+    .sort((a, b) => b.words.length - a.words.length)
+
+  let result = ''
+  let copied = 0
+  for (let i = 0; i < words.length; i++) {
+    const match = candidates.find(candidate =>
+      candidate.words.every((word, offset) => i + offset < words.length && words[i + offset].token === word)
+    )
+    if (!match) continue
+
+    const last = words[i + match.words.length - 1]
+    result += text.slice(copied, words[i].start) + match.term
+    copied = last.end
+    i += match.words.length - 1
+  }
+  return result + text.slice(copied)
+}
+
@@ -0,0 +1,301 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { Transform } from 'stream'
+import { createGunzip, createInflateRaw } from 'zlib'
+import { pipeline } from 'stream/promises'
+
+export const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz']
+
+export interface ExtractOptions {
+  include: (relativePath: string) => boolean // Entries it rejects are skipped
+  maxBytes: number // Total size of the extracted files
+  maxEntries: number
+}
+
+export function isArchive(fileName: string): boolean {
+  const name = fileName.toLowerCase()
+  return ARCHIVE_EXTENSIONS.some(ext => name.endsWith(ext))
+}
+
+// Entry names come from the archive's author, so anything absolute or climbing out of the
+// destination is rejected rather than trusted
+export function safeRelativePath(name: string): string {
+  const normalized = path.posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/)+/, '')
+  if (!normalized || normalized === '.' || normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)
+    || normalized.split('/').includes('..')) {
+    throw new Error(`Unsafe path in upload: ${name}`)
+  }
+  return normalized
+}
+
+// Expands a ZIP or (gzipped) TAR archive into `destination`, returning the relative paths written
+export async function extractArchive(archivePath: string, originalName: string, destination: string, options: ExtractOptions): Promise<string[]> {
+  const name = originalName.toLowerCase()
+  if (name.endsWith('.zip')) {
+    return extractZip(archivePath, destination, options)
+  }
+  if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+    const tarPath = `${archivePath}.tar`
+    try {
+      await pipeline(fs.createReadStream(archivePath), createGunzip(), fs.createWriteStream(tarPath))
+      return await extractTar(tarPath, destination, options)
+    } finally {
+      fs.rmSync(tarPath, { force: true })
+    }
+  }
+  if (name.endsWith('.tar')) {
+    return extractTar(archivePath, destination, options)
+  }
+  throw new Error(`${originalName} is not a supported archive`)
+}
+
+// Counts entries and bytes across one extraction so oversized archives stop early
+class ExtractionBudget {
+  private bytes = 0
+  private entries = 0
+
+  constructor(private options: ExtractOptions) {}
+
+  addEntry(size: number) {
+    this.entries++
+    this.bytes += size
+    if (this.entries > this.options.maxEntries) {
+      throw new Error(`Archive has more than ${this.options.maxEntries} files`)
+    }
+    if (this.bytes > this.options.maxBytes) {
+      throw new Error(`Archive expands to more than ${Math.round(this.options.maxBytes / (1024 * 1024))}MB`)
+    }
+  }
+}
+
+function outputPath(destination: string, relativePath: string): string {
+  const target = path.join(destination, relativePath)
+  fs.mkdirSync(path.dirname(target), { recursive: true })
+  return target
+}
+
+const ZIP_END_SIGNATURE = 0x06054b50
+const ZIP64_END_LOCATOR_SIGNATURE = 0x07064b50
+const ZIP64_END_SIGNATURE = 0x06064b50
+const ZIP_CENTRAL_SIGNATURE = 0x02014b50
+const ZIP_LOCAL_SIGNATURE = 0x04034b50
+const ZIP_END_MAX_SEARCH = 22 + 0xffff // Fixed record plus the longest comment
+
+interface ZipEntry {
+  name: string
+  method: number
+  encrypted: boolean
+  symlink: boolean
+  compressedSize: number
+  size: number
+  localHeaderOffset: number
+}
+
+function readAt(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length)
+  const read = fs.readSync(fd, buffer, 0, length, position)
+  if (read !== length) throw new Error('ZIP archive is truncated')
+  return buffer
+}
+
+// Finds the central directory through the end record, or its ZIP64 variant for large archives
+function readZipDirectoryLocation(fd: number, fileSize: number): { offset: number; size: number; entries: number } {
+  const tailStart = Math.max(0, fileSize - ZIP_END_MAX_SEARCH)
+  const tail = readAt(fd, tailStart, fileSize - tailStart)
+  let end = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_SIGNATURE) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error('Not a ZIP archive')
+
+  let entries = tail.readUInt16LE(end + 10)
+  let size = tail.readUInt32LE(end + 12)
+  let offset = tail.readUInt32LE(end + 16)
+  const locator = end - 20
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_END_LOCATOR_SIGNATURE) {
+    const record = readAt(fd, Number(tail.readBigUInt64LE(locator + 8)), 56)
+    if (record.readUInt32LE(0) !== ZIP64_END_SIGNATURE) throw new Error('ZIP64 end record is missing')
+    entries = Number(record.readBigUInt64LE(32))
+    size = Number(record.readBigUInt64LE(40))
+    offset = Number(record.readBigUInt64LE(48))
+  }
+  if (offset + size > fileSize) throw new Error('ZIP central directory is corrupt')
+  return { offset, size, entries }
+}
+
+function readZipEntries(fd: number, fileSize: number): ZipEntry[] {
+  const location = readZipDirectoryLocation(fd, fileSize)
+  const directory = readAt(fd, location.offset, location.size)
+  const entries: ZipEntry[] = []
+  let position = 0
+
+  for (let i = 0; i < location.entries; i++) {
+    if (directory.readUInt32LE(position) !== ZIP_CENTRAL_SIGNATURE) throw new Error('ZIP central directory is corrupt')
+    const flags = directory.readUInt16LE(position + 8)
+    const nameLength = directory.readUInt16LE(position + 28)
+    const extraLength = directory.readUInt16LE(position + 30)
+    const commentLength = directory.readUInt16LE(position + 32)
+    const nameStart = position + 46
+    const entry: ZipEntry = {
+      // Bit 11 marks UTF-8 names; older tools wrote the DOS code page, read here as Latin-1
+      name: directory.toString(flags & 0x800 ? 'utf8' : 'latin1', nameStart, nameStart + nameLength),
+      method: directory.readUInt16LE(position + 10),
+      encrypted: (flags & 0x1) !== 0,
+      symlink: ((directory.readUInt32LE(position + 38) >>> 16) & 0o170000) === 0o120000,
+      compressedSize: directory.readUInt32LE(position + 20),
+      size: directory.readUInt32LE(position + 24),
+      localHeaderOffset: directory.readUInt32LE(position + 42),
+    }
+
+    // ZIP64 extra field: the 64-bit values of whichever fields above are saturated, in this order
+    let extra = nameStart + nameLength
+    const extraEnd = extra + extraLength
+    while (extra + 4 <= extraEnd) {
+      const id = directory.readUInt16LE(extra)
+      const length = directory.readUInt16LE(extra + 2)
+      if (id === 0x0001) {
+        let field = extra + 4
+        for (const key of ['size', 'compressedSize', 'localHeaderOffset'] as const) {
+          if (entry[key] === 0xffffffff && field + 8 <= extra + 4 + length) {
+            entry[key] = Number(directory.readBigUInt64LE(field))
+            field += 8
+          }
+        }
+      }
+      extra += 4 + length
+    }
+
+    entries.push(entry)
+    position = extraEnd + commentLength
+  }
+  return entries
+}
+
+// Passes data through until more than `limit` bytes have gone by, for entries whose declared
+// size understates what they inflate to
+function byteLimit(limit: number, name: string): Transform {
+  let total = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length
+      if (total > limit) callback(new Error(`${name} is larger than its archive entry declares`))
+      else callback(null, chunk)
+    },
+  })
+}
+
+// Reads the central directory, then streams each entry from disk through the inflater. Entries
+// are checked against the budget by their declared size before any of them is inflated.
+async function extractZip(archivePath: string, destination: string, options: ExtractOptions): Promise<string[]> {
+  const fd = fs.openSync(archivePath, 'r')
+  const budget = new ExtractionBudget(options)
+  const written: string[] = []
+
+  try {
+    for (const entry of readZipEntries(fd, fs.fstatSync(fd).size)) {
+      if (entry.name.endsWith('/') || entry.symlink) continue // Directories and links are skipped
+      const relativePath = safeRelativePath(entry.name)
+      if (!options.include(relativePath)) continue
+
+      if (entry.encrypted) throw new Error(`${relativePath} is encrypted`)
+      if (entry.method !== 0 && entry.method !== 8) {
+        throw new Error(`${relativePath} uses an unsupported ZIP compression method (${entry.method})`)
+      }
+      budget.addEntry(entry.size)
+
+      const local = readAt(fd, entry.localHeaderOffset, 30)
+      if (local.readUInt32LE(0) !== ZIP_LOCAL_SIGNATURE) throw new Error(`ZIP entry ${relativePath} is corrupt`)
+      const dataStart = entry.localHeaderOffset + 30 + local.readUInt16LE(26) + local.readUInt16LE(28)
+      const target = outputPath(destination, relativePath)
+      if (entry.compressedSize === 0) {
+        fs.writeFileSync(target, '')
+      } else {
+        const source = fs.createReadStream(archivePath, { start: dataStart, end: dataStart + entry.compressedSize - 1 })
+        const limit = byteLimit(entry.size, relativePath)
+        await (entry.method === 8
+          ? pipeline(source, createInflateRaw(), limit, fs.createWriteStream(target))
+          : pipeline(source, limit, fs.createWriteStream(target)))
+      }
+      written.push(relativePath)
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+  return written
+}
+
+const TAR_BLOCK_SIZE = 512
+
+function readTarString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return field.subarray(0, end === -1 ? length : end).toString('utf8')
+}
+
+function readTarSize(header: Buffer): number {
+  // GNU tar writes sizes over 8GB as big-endian binary with the high bit set
+  if (header[124] & 0x80) {
+    return Number(header.subarray(125, 136).readBigUInt64BE(3))
+  }
+  return parseInt(readTarString(header, 124, 12).trim() || '0', 8)
+}
+
+// Path overrides from PAX extended headers ("<length> path=<value>\n" records)
+function readPaxPath(data: Buffer): string | undefined {
+  for (const record of data.toString('utf8').split('\n')) {
+    const match = record.match(/^\d+ path=(.*)$/)
+    if (match) return match[1]
+  }
+  return undefined
+}
+
+// Reads ustar, GNU and PAX archives block by block, so large archives never sit in memory
+async function extractTar(archivePath: string, destination: string, options: ExtractOptions): Promise<string[]> {
+  const fd = fs.openSync(archivePath, 'r')
+  const budget = new ExtractionBudget(options)
+  const written: string[] = []
+  const header = Buffer.alloc(TAR_BLOCK_SIZE)
+  let position = 0
+  let longName: string | undefined
+
+  try {
+    while (fs.readSync(fd, header, 0, TAR_BLOCK_SIZE, position) === TAR_BLOCK_SIZE) {
+      if (header.every(byte => byte === 0)) break // End-of-archive marker
+
+      const size = readTarSize(header)
+      const type = String.fromCharCode(header[156] || 48)
+      const dataStart = position + TAR_BLOCK_SIZE
+      position = dataStart + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+
+      if (type === 'L' || type === 'x') {
+        const data = Buffer.alloc(size)
+        fs.readSync(fd, data, 0, size, dataStart)
+        longName = type === 'L' ? data.toString('utf8').replace(/\0+$/, '') : readPaxPath(data) ?? longName
+        continue
+      }
+
+      const prefix = readTarString(header, 345, 155)
+      const name = longName ?? (prefix ? `${prefix}/${readTarString(header, 0, 100)}` : readTarString(header, 0, 100))
+      longName = undefined
+      if (type !== '0' && type !== '7') continue // Only regular files; links and directories are skipped
+
+      const relativePath = safeRelativePath(name)
+      if (!options.include(relativePath)) continue
+
+      budget.addEntry(size)
+      const target = outputPath(destination, relativePath)
+      if (size === 0) {
+        fs.writeFileSync(target, '')
+      } else {
+        await pipeline(fs.createReadStream(archivePath, { start: dataStart, end: dataStart + size - 1 }), fs.createWriteStream(target))
+      }
+      written.push(relativePath)
+    }
+  } finally {
+    fs.closeSync(fd)
+  }
+  return written
+}
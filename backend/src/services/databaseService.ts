@@ -56,6 +56,46 @@ export class DatabaseService {
     return this.prisma.ragDataSource.delete({ where: { id } })
   }
 
+  async getRagIndexedFiles(dataSourceId: string) {
+    return this.prisma.ragIndexedFile.findMany({ where: { dataSourceId } })
+  }
+
+  async upsertRagIndexedFile(dataSourceId: string, path: string, data: any) {
+    return this.prisma.ragIndexedFile.upsert({
+      where: { dataSourceId_path: { dataSourceId, path } },
+      update: data,
+      create: { dataSourceId, path, ...data }
+    })
+  }
+
+  async deleteRagIndexedFile(dataSourceId: string, path: string) {
+    return this.prisma.ragIndexedFile.delete({ where: { dataSourceId_path: { dataSourceId, path } } })
+  }
+
+  async deleteRagIndexedFiles(dataSourceId: string) {
+    return this.prisma.ragIndexedFile.deleteMany({ where: { dataSourceId } })
+  }
+
+  async getRagIngestionFailures(dataSourceId: string) {
+    return this.prisma.ragIngestionFailure.findMany({ where: { dataSourceId }, orderBy: { createdAt: 'asc' } })
+  }
+
+  async countRagIngestionFailures(dataSourceId: string, where: any = {}) {
+    return this.prisma.ragIngestionFailure.count({ where: { ...where, dataSourceId } })
+  }
+
+  async createRagIngestionFailures(data: any[]) {
+    return this.prisma.ragIngestionFailure.createMany({ data })
+  }
+
+  async updateRagIngestionFailure(id: string, data: any) {
+    return this.prisma.ragIngestionFailure.update({ where: { id }, data })
+  }
+
+  async deleteRagIngestionFailures(dataSourceId: string, where: any = {}) {
+    return this.prisma.ragIngestionFailure.deleteMany({ where: { ...where, dataSourceId } })
+  }
+
   async createRagEmbeddingModel(data: any) {
     return this.prisma.ragEmbeddingModel.create({ data })
   }
@@ -68,6 +108,22 @@ export class DatabaseService {
     return this.prisma.ragEmbeddingModel.findMany()
   }
 
+  async updateRagEmbeddingModel(id: string, data: any) {
+    return this.prisma.ragEmbeddingModel.update({ where: { id }, data })
+  }
+
+  async deleteRagEmbeddingModel(id: string) {
+    return this.prisma.ragEmbeddingModel.delete({ where: { id } })
+  }
+
+  async getRagEmbeddingCacheEntries(keys: string[]) {
+    return this.prisma.ragEmbeddingCache.findMany({ where: { key: { in: keys } } })
+  }
+
+  async createRagEmbeddingCacheEntries(data: Array<{ key: string; model: string; embedding: number[] }>) {
+    return this.prisma.ragEmbeddingCache.createMany({ data, skipDuplicates: true })
+  }
+
   async createRagVectorStore(data: any) {
     return this.prisma.ragVectorStore.create({ data })
   }
@@ -80,6 +136,18 @@ export class DatabaseService {
     return this.prisma.ragVectorStore.findMany()
   }
 
+  async upsertRagVectorStore(id: string, data: any) {
+    return this.prisma.ragVectorStore.upsert({
+      where: { id },
+      create: { id, ...data },
+      update: data,
+    })
+  }
+
+  async deleteRagVectorStore(id: string) {
+    return this.prisma.ragVectorStore.delete({ where: { id } })
+  }
+
   async createRagPipeline(data: any) {
     return this.prisma.ragPipeline.create({ data })
   }
@@ -100,6 +168,24 @@ export class DatabaseService {
     return this.prisma.ragPipeline.delete({ where: { id } })
   }
 
+  async createRagJob(data: any) {
+    return this.prisma.ragJob.create({ data })
+  }
+
+  async getRagJobs(where: any = {}) {
+    return this.prisma.ragJob.findMany({ where, orderBy: { createdAt: 'asc' } })
+  }
+
+  async updateRagJob(id: string, data: any) {
+    return this.prisma.ragJob.update({ where: { id }, data })
+  }
+
+  async deleteRagJobsFinishedBefore(date: Date) {
+    return this.prisma.ragJob.deleteMany({
+      where: { status: { in: ['succeeded', 'failed', 'cancelled'] }, finishedAt: { lt: date } }
+    })
+  }
+
   // AI Agent operations
   async createAiAgent(data: any) {
     return this.prisma.aiAgent.create({ data })
@@ -0,0 +1,87 @@
+import * as path from 'path'
+import { watch, FSWatcher } from 'chokidar'
+
+export type DirectoryChangeHandler = (changedPaths: string[]) => Promise<void>
+
+const DEFAULT_DEBOUNCE_MS = 2000
+
+// Collects add/change/unlink events under a directory and hands them over in
+// debounced batches. A batch is never flushed while the previous one is still syncing.
+export class DirectoryWatcher {
+  private directory: string
+  private extensions: string[]
+  private debounceMs: number
+  private onChange: DirectoryChangeHandler
+  private watcher: FSWatcher | null = null
+  private pending: Set<string> = new Set()
+  private timer: NodeJS.Timeout | null = null
+  private syncing = false
+
+  constructor(directory: string, extensions: string[], onChange: DirectoryChangeHandler, debounceMs = DEFAULT_DEBOUNCE_MS) {
+    this.directory = directory
+    this.extensions = extensions
+    this.onChange = onChange
+    this.debounceMs = debounceMs
+  }
+
+  start(onError: (error: unknown) => void) {
+    if (this.watcher) return
+
+    this.watcher = watch(this.directory, {
+      ignoreInitial: true,
+      awaitWriteFinish: { stabilityThreshold: 500, pollInterval: 100 },
+    })
+
+    const queue = (filePath: string) => {
+      if (!this.extensions.includes(path.extname(filePath).toLowerCase())) return
+      this.pending.add(filePath)
+      this.schedule()
+    }
+
+    this.watcher
+      .on('add', queue)
+      .on('change', queue)
+      .on('unlink', queue)
+      .on('error', onError)
+  }
+
+  async stop() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.pending.clear()
+    if (this.watcher) {
+      await this.watcher.close()
+      this.watcher = null
+    }
+  }
+
+  get pendingCount(): number {
+    return this.pending.size
+  }
+
+  private schedule() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = setTimeout(() => this.flush(), this.debounceMs)
+  }
+
+  private async flush() {
+    this.timer = null
+    if (this.syncing) {
+      this.schedule()
+      return
+    }
+    if (this.pending.size === 0) return
+
+    const changedPaths = Array.from(this.pending)
+    this.pending.clear()
+    this.syncing = true
+    try {
+      await this.onChange(changedPaths)
+    } finally {
+      this.syncing = false
+      if (this.pending.size > 0) this.schedule()
+    }
+  }
+}
@@ -0,0 +1,117 @@
+import { OpenAIEmbeddings } from '@langchain/openai'
+import { EmbeddingsInterface } from '@langchain/core/embeddings'
+
+export type EmbeddingProviderType = 'openai' | 'openai-compatible' | 'ollama' | 'local'
+
+export interface EmbeddingModel {
+  id: string
+  name: string
+  provider: EmbeddingProviderType
+  modelName: string
+  apiKey?: string
+  endpoint?: string // Base URL for OpenAI-compatible servers and Ollama
+  dimensions: number
+  status: 'configured' | 'ready' | 'error'
+  createdAt: Date
+  updatedAt: Date
+}
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderType[] = ['openai', 'openai-compatible', 'ollama', 'local']
+
+const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434'
+const DEFAULT_LOCAL_MODEL = 'Xenova/all-MiniLM-L6-v2'
+
+// Builds the LangChain embeddings client for a registered model
+export function createEmbeddingProvider(model: EmbeddingModel): EmbeddingsInterface {
+  switch (model.provider) {
+    case 'openai': {
+      const apiKey = model.apiKey || process.env.OPENAI_API_KEY
+      if (!apiKey) {
+        throw new Error(`Embedding model "${model.name}" has no API key and OPENAI_API_KEY is not set`)
+      }
+      return new OpenAIEmbeddings({ apiKey, model: model.modelName })
+    }
+    case 'openai-compatible':
+      if (!model.endpoint) {
+        throw new Error(`Embedding model "${model.name}" needs an endpoint`)
+      }
+      return new OpenAIEmbeddings({
+        // Many self-hosted servers ignore the key, but the client insists on one
+        apiKey: model.apiKey || 'not-needed',
+        model: model.modelName,
+        // Not every compatible server understands the SDK's default base64 encoding
+        encodingFormat: 'float',
+        configuration: { baseURL: model.endpoint },
+      })
+    case 'ollama':
+      return new OllamaEmbeddings(model.endpoint || DEFAULT_OLLAMA_ENDPOINT, model.modelName)
+    case 'local':
+      return new LocalEmbeddings(model.modelName || DEFAULT_LOCAL_MODEL)
+    default:
+      throw new Error(`Unsupported embedding provider: ${model.provider}`)
+  }
+}
+
+// Talks to Ollama's /api/embed endpoint, which takes a batch of inputs
+class OllamaEmbeddings implements EmbeddingsInterface {
+  private endpoint: string
+  private modelName: string
+
+  constructor(endpoint: string, modelName: string) {
+    this.endpoint = endpoint.replace(/\/+$/, '')
+    this.modelName = modelName
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    if (documents.length === 0) return []
+
+    const response = await fetch(`${this.endpoint}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.modelName, input: documents }),
+    })
+    if (!response.ok) {
+      throw new Error(`Ollama embedding request failed with ${response.status}: ${await response.text()}`)
+    }
+    const data = await response.json() as { embeddings: number[][] }
+    return data.embeddings
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([document])
+    return embedding
+  }
+}
+
+// Runs a sentence-transformers model in-process through transformers.js.
+// The model is downloaded from the Hugging Face hub on first use and cached.
+class LocalEmbeddings implements EmbeddingsInterface {
+  private modelName: string
+  private embedder: Promise<{ generate(texts: string[]): Promise<number[][]> }> | null = null
+
+  constructor(modelName: string) {
+    this.modelName = modelName
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    if (documents.length === 0) return []
+    const embedder = await this.getEmbedder()
+    return embedder.generate(documents)
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const [embedding] = await this.embedDocuments([document])
+    return embedding
+  }
+
+  private getEmbedder() {
+    if (!this.embedder) {
+      this.embedder = import('@chroma-core/default-embed').then(({ DefaultEmbeddingFunction }) =>
+        new DefaultEmbeddingFunction({ modelName: this.modelName })
+      )
+      // Let the next call retry if loading failed
+      this.embedder.catch(() => { this.embedder = null })
+    }
+    return this.embedder
+  }
+}
@@ -0,0 +1,85 @@
+import { EventEmitter } from 'events'
+import type { RagJob } from './jobQueue'
+
+export interface DataSourceUpdate {
+  id: string
+  name: string
+  status: string
+  documentCount?: number
+  lastIndexed?: Date
+  lastRun?: unknown
+  watcher?: unknown
+}
+
+export interface PipelineUpdate {
+  id: string
+  name: string
+  status: string
+  documentCount?: number
+  lastProcessed?: Date
+  lastRun?: unknown
+}
+
+export interface McpServerStatus {
+  id: string
+  name: string
+  status: 'stopped' | 'running' | 'error'
+  reason: 'started' | 'stopped' | 'exited' | 'crashed' | 'failed' // What changed the status
+  exitCode?: number | null
+  error?: string
+}
+
+export interface AgentStatus {
+  id: string
+  name: string
+  status: string
+}
+
+// Every event the backend pushes to clients, by type. The part before the dot is the topic
+// clients subscribe to.
+export interface LiveEvents {
+  'datasource.updated': DataSourceUpdate
+  'pipeline.updated': PipelineUpdate
+  'job.updated': RagJob
+  'mcp.status': McpServerStatus
+  'agent.status': AgentStatus
+}
+
+export type LiveEventType = keyof LiveEvents
+
+export interface LiveEvent<T extends LiveEventType = LiveEventType> {
+  type: T
+  payload: LiveEvents[T]
+  timestamp: string
+}
+
+export const LIVE_TOPICS = ['datasource', 'pipeline', 'job', 'mcp', 'agent'] as const
+export type LiveTopic = typeof LIVE_TOPICS[number]
+
+export function topicOf(type: LiveEventType): LiveTopic {
+  return type.split('.')[0] as LiveTopic
+}
+
+// In-process publish/subscribe for status changes; the WebSocket server forwards them to clients
+class EventBus {
+  private emitter = new EventEmitter()
+
+  constructor() {
+    this.emitter.setMaxListeners(0) // One listener per connected client is expected
+  }
+
+  publish<T extends LiveEventType>(type: T, payload: LiveEvents[T]): void {
+    const event: LiveEvent<T> = { type, payload, timestamp: new Date().toISOString() }
+    this.emitter.emit('event', event)
+  }
+
+  // Returns a function that removes the subscription
+  subscribe(handler: (event: LiveEvent) => void): () => void {
+    this.emitter.on('event', handler)
+    return () => {
+      this.emitter.off('event', handler)
+    }
+  }
+}
+
+export const eventBus = new EventBus()
@@ -0,0 +1,308 @@
+import { v4 as uuidv4 } from 'uuid'
+import { eventBus } from './eventBus'
+
+// reembed: a data source's failed chunks only; sync: files a directory watcher saw change
+export type JobType = 'datasource' | 'pipeline' | 'reembed' | 'sync'
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+// Running totals for each ingestion stage of a job
+export interface JobProgress {
+  loaded: number // Documents read from sources
+  chunked: number // Chunks produced from them
+  embedded: number // Chunks with a vector, from the cache or the provider
+  stored: number // Chunks written to the vector store
+}
+
+export interface RagJob {
+  id: string
+  type: JobType
+  targetId: string // Data source or pipeline ID
+  options?: Record<string, unknown>
+  status: JobStatus
+  progress: JobProgress
+  error?: string
+  attempts: number // Runs started, counting ones resumed after a restart
+  startedAt?: Date
+  finishedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Handed to a running job so it can report progress and stop once cancelled
+export interface JobContext {
+  signal: AbortSignal
+  advance(stage: keyof JobProgress, count: number): void
+}
+
+export type JobHandler = (job: RagJob, context: JobContext) => Promise<void>
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+const DEFAULT_CONCURRENCY = 2
+const MAX_CONCURRENCY = 16
+const CONCURRENCY_SETTING = 'rag_job_concurrency'
+const PROGRESS_SAVE_INTERVAL_MS = 2000
+const PROGRESS_PUBLISH_INTERVAL_MS = 500
+const FINISHED_JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled']
+
+// Persistent queue for ingestion runs. Jobs run up to `concurrency` at a time, never two for the
+// same target at once. Jobs still queued or running when the server stopped are picked up
+// again by start(); the handlers index incrementally, so a resumed job skips finished work.
+export class JobQueue {
+  private databaseService: any
+  private handlers: Record<JobType, JobHandler>
+  private jobs: Map<string, RagJob> = new Map()
+  private running: Map<string, AbortController> = new Map()
+  private concurrency: number
+  private started = false
+
+  constructor(databaseService: any, handlers: Record<JobType, JobHandler>) {
+    this.databaseService = databaseService
+    this.handlers = handlers
+    this.concurrency = parseConcurrency(process.env.RAG_JOB_CONCURRENCY) ?? DEFAULT_CONCURRENCY
+  }
+
+  // Loads unfinished and recent jobs, then starts working. Returns the jobs that will resume.
+  async start(): Promise<RagJob[]> {
+    try {
+      const saved = parseConcurrency(await this.databaseService.getSetting(CONCURRENCY_SETTING))
+      if (saved) this.concurrency = saved
+      await this.databaseService.deleteRagJobsFinishedBefore(new Date(Date.now() - FINISHED_JOB_RETENTION_MS))
+    } catch (error) {
+      console.error('Failed to read job queue settings:', error)
+    }
+
+    const resumed: RagJob[] = []
+    for (const record of await this.databaseService.getRagJobs()) {
+      if (this.jobs.has(record.id)) continue
+
+      const job = this.toJob(record)
+      this.jobs.set(job.id, job)
+      if (job.status === 'running') {
+        job.status = 'queued'
+        await this.save(job)
+      }
+      if (job.status === 'queued') resumed.push(job)
+    }
+
+    this.started = true
+    console.log(`🧵 Job queue started with concurrency ${this.concurrency}, ${resumed.length} jobs to resume`)
+    this.pump()
+    return resumed
+  }
+
+  // A job already waiting for the same target absorbs the new request instead of queueing twice
+  async enqueue(type: JobType, targetId: string, options?: Record<string, unknown>): Promise<RagJob> {
+    this.forgetFinishedJobs()
+    const waiting = this.find(job => job.type === type && job.targetId === targetId && job.status === 'queued')
+    if (waiting) {
+      if (options) {
+        waiting.options = { ...waiting.options, ...options }
+        await this.save(waiting)
+      }
+      return waiting
+    }
+
+    const now = new Date()
+    const job: RagJob = {
+      id: uuidv4(),
+      type,
+      targetId,
+      options,
+      status: 'queued',
+      progress: emptyProgress(),
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await this.databaseService.createRagJob({
+      id: job.id,
+      type: job.type,
+      targetId: job.targetId,
+      options: job.options,
+      status: job.status,
+      progress: job.progress,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    })
+    this.jobs.set(job.id, job)
+    eventBus.publish('job.updated', job)
+    this.pump()
+    return job
+  }
+
+  getJobs(filter: { status?: JobStatus; type?: JobType; targetId?: string } = {}): RagJob[] {
+    return [...this.jobs.values()]
+      .filter(job => (!filter.status || job.status === filter.status)
+        && (!filter.type || job.type === filter.type)
+        && (!filter.targetId || job.targetId === filter.targetId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  getJob(id: string): RagJob | null {
+    return this.jobs.get(id) || null
+  }
+
+  hasActiveJob(targetId: string): boolean {
+    return !!this.find(job => job.targetId === targetId && (job.status === 'queued' || job.status === 'running'))
+  }
+
+  // A queued job is cancelled at once; a running one is signalled and turns cancelled when its
+  // handler stops, at the next file or embedding batch
+  async cancel(id: string): Promise<RagJob | null> {
+    const job = this.jobs.get(id)
+    if (!job) return null
+
+    if (job.status === 'queued') {
+      job.status = 'cancelled'
+      job.finishedAt = new Date()
+      await this.save(job)
+    } else if (job.status === 'running') {
+      this.running.get(id)?.abort(new JobCancelledError())
+    } else {
+      throw new Error(`Job has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}`)
+    }
+    return job
+  }
+
+  async cancelTarget(targetId: string): Promise<void> {
+    for (const job of this.getJobs({ targetId })) {
+      if (job.status === 'queued' || job.status === 'running') await this.cancel(job.id)
+    }
+  }
+
+  getConcurrency(): number {
+    return this.concurrency
+  }
+
+  async setConcurrency(concurrency: number): Promise<void> {
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+      throw new Error(`Concurrency must be a whole number from 1 to ${MAX_CONCURRENCY}`)
+    }
+    this.concurrency = concurrency
+    await this.databaseService.setSetting(CONCURRENCY_SETTING, String(concurrency), 'number')
+    this.pump()
+  }
+
+  private pump(): void {
+    if (!this.started) return
+
+    const queued = [...this.jobs.values()]
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    for (const job of queued) {
+      if (this.running.size >= this.concurrency) return
+      const busy = [...this.running.keys()].some(id => this.jobs.get(id)?.targetId === job.targetId)
+      if (!busy) this.execute(job)
+    }
+  }
+
+  private async execute(job: RagJob): Promise<void> {
+    const controller = new AbortController()
+    this.running.set(job.id, controller)
+    job.status = 'running'
+    job.attempts++
+    job.startedAt = new Date()
+    job.error = undefined
+    job.progress = emptyProgress()
+    await this.save(job)
+
+    let lastSaved = Date.now()
+    let lastPublished = Date.now()
+    const context: JobContext = {
+      signal: controller.signal,
+      advance: (stage, count) => {
+        job.progress[stage] += count
+        job.updatedAt = new Date()
+        if (Date.now() - lastSaved >= PROGRESS_SAVE_INTERVAL_MS) {
+          lastSaved = lastPublished = Date.now()
+          this.save(job)
+        } else if (Date.now() - lastPublished >= PROGRESS_PUBLISH_INTERVAL_MS) {
+          lastPublished = Date.now()
+          eventBus.publish('job.updated', job)
+        }
+      },
+    }
+
+    console.log(`🧵 Job ${job.id} started: ${job.type} ${job.targetId} (attempt ${job.attempts})`)
+    try {
+      await this.handlers[job.type](job, context)
+      job.status = 'succeeded'
+    } catch (error) {
+      job.status = controller.signal.aborted ? 'cancelled' : 'failed'
+      if (!controller.signal.aborted) job.error = error instanceof Error ? error.message : String(error)
+    }
+    job.finishedAt = new Date()
+    this.running.delete(job.id)
+    await this.save(job)
+    console.log(`🧵 Job ${job.id} ${job.status}: ${JSON.stringify(job.progress)}${job.error ? ` (${job.error})` : ''}`)
+
+    this.pump()
+  }
+
+  // Finished jobs stay listed for a week; their rows are deleted at the next start
+  private forgetFinishedJobs(): void {
+    const cutoff = Date.now() - FINISHED_JOB_RETENTION_MS
+    for (const job of this.jobs.values()) {
+      if (job.finishedAt && job.finishedAt.getTime() < cutoff) this.jobs.delete(job.id)
+    }
+  }
+
+  private find(predicate: (job: RagJob) => boolean): RagJob | undefined {
+    return [...this.jobs.values()].find(predicate)
+  }
+
+  // Saving is best effort; a lost update only means a less accurate record after a restart.
+  // Subscribers hear about every save.
+  private async save(job: RagJob): Promise<void> {
+    job.updatedAt = new Date()
+    eventBus.publish('job.updated', job)
+    try {
+      await this.databaseService.updateRagJob(job.id, {
+        options: job.options,
+        status: job.status,
+        progress: job.progress,
+        error: job.error ?? null,
+        attempts: job.attempts,
+        startedAt: job.startedAt ?? null,
+        finishedAt: job.finishedAt ?? null,
+        updatedAt: job.updatedAt,
+      })
+    } catch (error) {
+      console.error(`Failed to save job ${job.id}:`, error)
+    }
+  }
+
+  private toJob(record: any): RagJob {
+    return {
+      id: record.id,
+      type: record.type as JobType,
+      targetId: record.targetId,
+      options: record.options ?? undefined,
+      status: FINISHED_STATUSES.includes(record.status) || record.status === 'running' ? record.status : 'queued',
+      progress: { ...emptyProgress(), ...record.progress },
+      error: record.error ?? undefined,
+      attempts: record.attempts,
+      startedAt: record.startedAt ?? undefined,
+      finishedAt: record.finishedAt ?? undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    }
+  }
+}
+
+function emptyProgress(): JobProgress {
+  return { loaded: 0, chunked: 0, embedded: 0, stored: 0 }
+}
+
+function parseConcurrency(value: string | undefined | null): number | undefined {
+  const concurrency = Number(value)
+  return Number.isInteger(concurrency) && concurrency >= 1 && concurrency <= MAX_CONCURRENCY ? concurrency : undefined
+}
@@ -0,0 +1,56 @@
+import WebSocket from 'ws'
+import { eventBus, topicOf, LIVE_TOPICS, LiveTopic } from './eventBus'
+
+// Client messages: { type: 'subscribe' | 'unsubscribe', topics: ['datasource', 'job', ...] }.
+// Each client receives only the events of the topics it subscribed to.
+interface ClientMessage {
+  type: 'subscribe' | 'unsubscribe'
+  topics: LiveTopic[]
+}
+
+function parseMessage(raw: WebSocket.RawData): ClientMessage {
+  let message: any
+  try {
+    message = JSON.parse(raw.toString())
+  } catch {
+    throw new Error('Messages must be JSON')
+  }
+  if (message?.type !== 'subscribe' && message?.type !== 'unsubscribe') {
+    throw new Error('Message type must be "subscribe" or "unsubscribe"')
+  }
+  if (!Array.isArray(message.topics) || !message.topics.every((topic: unknown) => LIVE_TOPICS.includes(topic as LiveTopic))) {
+    throw new Error(`topics must be a list of: ${LIVE_TOPICS.join(', ')}`)
+  }
+  return message
+}
+
+export function attachLiveUpdates(wss: WebSocket.Server): void {
+  wss.on('connection', (ws: WebSocket) => {
+    console.log('Client connected to WebSocket')
+    const topics = new Set<LiveTopic>()
+
+    const unsubscribe = eventBus.subscribe(event => {
+      if (ws.readyState === WebSocket.OPEN && topics.has(topicOf(event.type))) {
+        ws.send(JSON.stringify(event))
+      }
+    })
+
+    ws.on('message', (raw: WebSocket.RawData) => {
+      try {
+        const message = parseMessage(raw)
+        for (const topic of message.topics) {
+          if (message.type === 'subscribe') topics.add(topic)
+          else topics.delete(topic)
+        }
+        ws.send(JSON.stringify({ type: 'subscribed', topics: [...topics] }))
+      } catch (error) {
+        ws.send(JSON.stringify({ type: 'error', error: error instanceof Error ? error.message : 'Invalid message' }))
+      }
+    })
+
+    ws.on('close', () => {
+      unsubscribe()
+      console.log('Client disconnected from WebSocket')
+    })
+  })
+}
@@ -0,0 +1,256 @@
+import { JSONPath, JSONPathOptions } from 'jsonpath-plus'
+
+export interface ApiPaginationOptions {
+  type: 'none' | 'cursor' | 'offset' | 'page' | 'link'
+  cursorPath?: string // JSONPath to the next cursor (or next page URL) in each response
+  cursorParam?: string
+  offsetParam?: string
+  pageParam?: string
+  limitParam?: string
+  pageSize?: number
+  maxPages?: number
+}
+
+export interface ApiSourceOptions {
+  method?: 'GET' | 'POST'
+  body?: unknown
+  query?: Record<string, string | number>
+  recordsPath?: string // JSONPath selecting the record array, e.g. $.data[*]
+  idField?: string // Record property that identifies it across runs
+  apiKeyHeader?: string // Defaults to "Authorization: Bearer <apiKey>"
+  apiKeyQueryParam?: string
+  pagination?: ApiPaginationOptions
+  maxRetries?: number
+  requestsPerSecond?: number
+  requestTimeoutMs?: number
+}
+
+export interface ApiRecord {
+  data: unknown
+  page: number
+  index: number
+  url: string
+  id?: string
+}
+
+// A parsed response body, as JSONPath accepts it
+type JsonBody = JSONPathOptions['json']
+
+const DEFAULT_PAGE_SIZE = 100
+const DEFAULT_MAX_PAGES = 100
+const DEFAULT_MAX_RETRIES = 3
+const MAX_RETRY_DELAY_MS = 60000
+
+export class ApiLoader {
+  private endpoint: string
+  private options: ApiSourceOptions
+  private headers: Record<string, string>
+  private lastRequestAt = 0
+
+  constructor(endpoint: string, options: ApiSourceOptions = {}, headers: Record<string, string> = {}, apiKey?: string) {
+    this.endpoint = endpoint
+    this.options = options
+    this.headers = { Accept: 'application/json', ...headers }
+
+    if (apiKey && !options.apiKeyQueryParam) {
+      const header = options.apiKeyHeader || 'Authorization'
+      this.headers[header] = header === 'Authorization' ? `Bearer ${apiKey}` : apiKey
+    }
+    if (apiKey && options.apiKeyQueryParam) {
+      this.options = { ...options, query: { ...options.query, [options.apiKeyQueryParam]: apiKey } }
+    }
+  }
+
+  async load(): Promise<ApiRecord[]> {
+    const pagination = this.options.pagination || { type: 'none' }
+    const pageSize = pagination.pageSize || DEFAULT_PAGE_SIZE
+    const maxPages = pagination.type === 'none' ? 1 : pagination.maxPages || DEFAULT_MAX_PAGES
+
+    const records: ApiRecord[] = []
+    let nextUrl: string | null = this.buildUrl(this.endpoint, this.firstPageParams(pagination, pageSize))
+    let page = 0
+
+    while (nextUrl && page < maxPages) {
+      const { body, headers } = await this.request(nextUrl)
+      const pageRecords = this.selectRecords(body)
+
+      pageRecords.forEach((data, index) => {
+        records.push({ data, page, index, url: nextUrl!, id: this.recordId(data) })
+      })
+      console.log(`   🔌 Page ${page + 1}: ${pageRecords.length} records from ${this.displayUrl(nextUrl)}`)
+
+      page++
+      nextUrl = this.nextPageUrl(pagination, pageSize, page, body, headers, pageRecords.length, nextUrl)
+    }
+
+    return records
+  }
+
+  private firstPageParams(pagination: ApiPaginationOptions, pageSize: number): Record<string, string | number> {
+    const params: Record<string, string | number> = { ...this.options.query }
+    const limitParam = pagination.limitParam || 'limit'
+
+    if (pagination.type === 'offset') {
+      params[pagination.offsetParam || 'offset'] = 0
+      params[limitParam] = pageSize
+    } else if (pagination.type === 'page') {
+      params[pagination.pageParam || 'page'] = 1
+      params[limitParam] = pageSize
+    } else if (pagination.type === 'cursor' && pagination.limitParam) {
+      params[limitParam] = pageSize
+    }
+    return params
+  }
+
+  private nextPageUrl(
+    pagination: ApiPaginationOptions,
+    pageSize: number,
+    page: number,
+    body: JsonBody,
+    headers: Headers,
+    pageRecordCount: number,
+    currentUrl: string
+  ): string | null {
+    switch (pagination.type) {
+      case 'offset':
+      case 'page': {
+        // A short page means we have reached the end
+        if (pageRecordCount < pageSize) return null
+        const url = new URL(currentUrl)
+        if (pagination.type === 'offset') {
+          url.searchParams.set(pagination.offsetParam || 'offset', String(page * pageSize))
+        } else {
+          url.searchParams.set(pagination.pageParam || 'page', String(page + 1))
+        }
+        return url.href
+      }
+      case 'cursor': {
+        if (!pagination.cursorPath) {
+          throw new Error('Cursor pagination requires a cursorPath')
+        }
+        const [cursor] = JSONPath({ path: pagination.cursorPath, json: body, wrap: true }) as unknown[]
+        if (cursor === undefined || cursor === null || cursor === '') return null
+
+        // Some APIs hand back the full next-page URL instead of an opaque cursor
+        const value = String(cursor)
+        if (/^https?:\/\//i.test(value) || value.startsWith('/')) {
+          return new URL(value, currentUrl).href
+        }
+        const url = new URL(currentUrl)
+        url.searchParams.set(pagination.cursorParam || 'cursor', value)
+        return url.href
+      }
+      case 'link':
+        return this.parseNextLink(headers.get('link'), currentUrl)
+      default:
+        return null
+    }
+  }
+
+  private parseNextLink(linkHeader: string | null, currentUrl: string): string | null {
+    if (!linkHeader) return null
+
+    for (const part of linkHeader.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;(.*)/)
+      if (match && /rel="?[^";]*\bnext\b/i.test(match[2])) {
+        return new URL(match[1], currentUrl).href
+      }
+    }
+    return null
+  }
+
+  private selectRecords(body: JsonBody): unknown[] {
+    if (this.options.recordsPath) {
+      return JSONPath({ path: this.options.recordsPath, json: body, wrap: true }) as unknown[]
+    }
+    // Without a selector, a top-level array is the record list and anything else is one record
+    return Array.isArray(body) ? body : [body]
+  }
+
+  private recordId(data: unknown): string | undefined {
+    if (!this.options.idField || typeof data !== 'object' || data === null) return undefined
+    const value = (data as Record<string, unknown>)[this.options.idField]
+    return value === undefined || value === null ? undefined : String(value)
+  }
+
+  // Keeps an API key passed as a query parameter out of logs and errors
+  private displayUrl(url: string): string {
+    if (!this.options.apiKeyQueryParam) return url
+    const display = new URL(url)
+    if (display.searchParams.has(this.options.apiKeyQueryParam)) {
+      display.searchParams.set(this.options.apiKeyQueryParam, '***')
+    }
+    return display.href
+  }
+
+  private buildUrl(base: string, params: Record<string, string | number>): string {
+    const url = new URL(base)
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value))
+    }
+    return url.href
+  }
+
+  private async request(url: string): Promise<{ body: JsonBody; headers: Headers }> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES
+    let attempt = 0
+
+    while (true) {
+      await this.throttle()
+
+      let response: Response | null = null
+      let failure: unknown = null
+      try {
+        response = await fetch(url, {
+          method: this.options.method || 'GET',
+          headers: this.options.body !== undefined
+            ? { ...this.headers, 'Content-Type': 'application/json' }
+            : this.headers,
+          body: this.options.body !== undefined ? JSON.stringify(this.options.body) : undefined,
+          signal: AbortSignal.timeout(this.options.requestTimeoutMs || 30000),
+        })
+      } catch (error) {
+        failure = error
+      }
+
+      if (response && response.ok) {
+        return { body: await response.json() as JsonBody, headers: response.headers }
+      }
+
+      const retryable = !response || response.status === 429 || response.status >= 500
+      if (!retryable || attempt >= maxRetries) {
+        if (response) {
+          throw new Error(`API request to ${this.displayUrl(url)} failed with ${response.status} ${response.statusText}`)
+        }
+        throw failure
+      }
+
+      attempt++
+      const delay = this.retryDelay(response, attempt)
+      console.warn(`   ⚠️ API request failed (${response ? response.status : failure}), retrying in ${delay}ms (attempt ${attempt}/${maxRetries})`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+
+  private retryDelay(response: Response | null, attempt: number): number {
+    const retryAfter = response?.headers.get('retry-after')
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      const delay = Number.isFinite(seconds) ? seconds * 1000 : new Date(retryAfter).getTime() - Date.now()
+      if (delay >= 0) return Math.min(delay, MAX_RETRY_DELAY_MS)
+    }
+    // Exponential backoff
+    return Math.min(Math.pow(2, attempt) * 1000, MAX_RETRY_DELAY_MS)
+  }
+
+  private async throttle(): Promise<void> {
+    if (!this.options.requestsPerSecond) return
+
+    const interval = 1000 / this.options.requestsPerSecond
+    const wait = this.lastRequestAt + interval - Date.now()
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+    }
+    this.lastRequestAt = Date.now()
+  }
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs'
+import { Client } from 'pg'
+import initSqlJs from 'sql.js'
+
+export interface DatabaseQuery {
+  name?: string
+  sql: string // A single SELECT (or WITH ... SELECT) statement
+  textColumns?: string[] // Columns embedded as text (defaults to every non-metadata column)
+  metadataColumns?: string[] // Columns kept as filterable metadata
+  idColumn?: string // Stable row key, lets re-indexed rows replace their old chunks
+  groupBy?: string // Rows sharing this column's value become one document
+  cursorColumn?: string // Only rows with a greater value are read on the next run
+  maxRows?: number
+}
+
+export interface DatabaseSourceOptions {
+  queries: DatabaseQuery[]
+}
+
+export interface DatabaseRecord {
+  content: string
+  metadata: Record<string, string | number | boolean> // recordKey marks chunks a re-read replaces
+}
+
+export interface DatabaseLoadResult {
+  records: DatabaseRecord[]
+  cursors: Record<string, string | number> // Highest cursor value seen, per query
+}
+
+type Row = Record<string, unknown>
+
+const DEFAULT_MAX_ROWS = 10000
+
+// The name a query's records carry in their `query` metadata
+export function databaseQueryName(query: DatabaseQuery, index: number): string {
+  return query.name || `query_${index + 1}`
+}
+
+export class DatabaseLoader {
+  private connectionString: string
+  private options: DatabaseSourceOptions
+
+  constructor(connectionString: string, options: DatabaseSourceOptions) {
+    this.connectionString = connectionString
+    this.options = options
+  }
+
+  async load(previousCursors: Record<string, string | number> = {}): Promise<DatabaseLoadResult> {
+    if (!this.options.queries || this.options.queries.length === 0) {
+      throw new Error('Database data source has no queries configured')
+    }
+
+    const records: DatabaseRecord[] = []
+    const cursors: Record<string, string | number> = { ...previousCursors }
+
+    for (const [index, query] of this.options.queries.entries()) {
+      const queryName = databaseQueryName(query, index)
+      this.assertSelectOnly(query.sql)
+
+      const rows = await this.runQuery(query, previousCursors[queryName])
+      console.log(`   🗄️  ${queryName}: ${rows.length} rows`)
+
+      records.push(...this.rowsToRecords(rows, query, queryName))
+
+      if (query.cursorColumn && rows.length > 0) {
+        const cursor = this.toCursorValue(rows[rows.length - 1][query.cursorColumn])
+        if (cursor !== null) cursors[queryName] = cursor
+      }
+    }
+
+    return { records, cursors }
+  }
+
+  private assertSelectOnly(sql: string) {
+    const statement = sql.trim().replace(/;\s*$/, '')
+    if (!/^(select|with)\b/i.test(statement)) {
+      throw new Error('Database data sources only accept SELECT queries')
+    }
+    if (statement.includes(';')) {
+      throw new Error('Database queries must contain a single statement')
+    }
+  }
+
+  private buildSql(query: DatabaseQuery, cursor: string | number | undefined, placeholder: string): string {
+    const statement = query.sql.trim().replace(/;\s*$/, '')
+    const limit = query.maxRows || DEFAULT_MAX_ROWS
+
+    if (!query.cursorColumn) {
+      return `SELECT * FROM (${statement}) AS source_query LIMIT ${limit}`
+    }
+
+    const column = `"${query.cursorColumn.replace(/"/g, '""')}"`
+    const where = cursor !== undefined ? ` WHERE ${column} > ${placeholder}` : ''
+    return `SELECT * FROM (${statement}) AS source_query${where} ORDER BY ${column} LIMIT ${limit}`
+  }
+
+  private async runQuery(query: DatabaseQuery, cursor?: string | number): Promise<Row[]> {
+    if (/^postgres(ql)?:\/\//i.test(this.connectionString)) {
+      return this.runPostgresQuery(query, cursor)
+    }
+    return this.runSqliteQuery(query, cursor)
+  }
+
+  private async runPostgresQuery(query: DatabaseQuery, cursor?: string | number): Promise<Row[]> {
+    const client = new Client({ connectionString: this.connectionString })
+    await client.connect()
+    try {
+      // Guard against writes even if a query slips past the SELECT check
+      await client.query('BEGIN READ ONLY')
+      const sql = this.buildSql(query, cursor, '$1')
+      const result = await client.query(sql, cursor !== undefined ? [cursor] : [])
+      await client.query('COMMIT')
+      return result.rows
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined)
+      throw error
+    } finally {
+      await client.end()
+    }
+  }
+
+  private async runSqliteQuery(query: DatabaseQuery, cursor?: string | number): Promise<Row[]> {
+    const filePath = this.connectionString.replace(/^(sqlite|file):(\/\/)?/i, '')
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`SQLite database not found: ${filePath}`)
+    }
+
+    const SQL = await initSqlJs()
+    const db = new SQL.Database(fs.readFileSync(filePath))
+    try {
+      const statement = db.prepare(this.buildSql(query, cursor, '?'))
+      if (cursor !== undefined) statement.bind([cursor])
+
+      const rows: Row[] = []
+      while (statement.step()) {
+        rows.push(statement.getAsObject())
+      }
+      statement.free()
+      return rows
+    } finally {
+      db.close()
+    }
+  }
+
+  private rowsToRecords(rows: Row[], query: DatabaseQuery, queryName: string): DatabaseRecord[] {
+    if (rows.length === 0) return []
+
+    const metadataColumns = query.metadataColumns || []
+    const textColumns = query.textColumns && query.textColumns.length > 0
+      ? query.textColumns
+      : Object.keys(rows[0]).filter(column => !metadataColumns.includes(column))
+
+    const rowText = (row: Row) => textColumns
+      .filter(column => row[column] !== null && row[column] !== undefined && row[column] !== '')
+      .map(column => `${column}: ${this.toText(row[column])}`)
+      .join('\n')
+
+    const rowMetadata = (row: Row) => {
+      const metadata: Record<string, string | number | boolean> = { query: queryName }
+      for (const column of metadataColumns) {
+        const value = this.toMetadataValue(row[column])
+        if (value !== null) metadata[column] = value
+      }
+      return metadata
+    }
+
+    if (!query.groupBy) {
+      return rows.map((row, index) => {
+        const metadata = { ...rowMetadata(row), rowIndex: index }
+        if (query.idColumn) {
+          return { content: rowText(row), metadata: { ...metadata, recordKey: `${queryName}:${this.toText(row[query.idColumn])}` } }
+        }
+        return { content: rowText(row), metadata }
+      })
+    }
+
+    const groups = new Map<string, Row[]>()
+    for (const row of rows) {
+      const key = this.toText(row[query.groupBy])
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(row)
+    }
+
+    return Array.from(groups.entries()).map(([key, groupRows]) => {
+      const metadata = { ...rowMetadata(groupRows[0]), [query.groupBy!]: key, rowCount: groupRows.length }
+      const content = `${query.groupBy}: ${key}\n\n${groupRows.map(rowText).join('\n\n')}`
+      // An incremental run only sees a group's new rows, so it must add to the group rather than replace it
+      if (query.cursorColumn) {
+        return { content, metadata }
+      }
+      return { content, metadata: { ...metadata, recordKey: `${queryName}:${query.groupBy}=${key}` } }
+    })
+  }
+
+  private toText(value: unknown): string {
+    if (value instanceof Date) return value.toISOString()
+    if (value instanceof Uint8Array) return `<${value.length} bytes>`
+    if (typeof value === 'object' && value !== null) return JSON.stringify(value)
+    return String(value ?? '')
+  }
+
+  private toMetadataValue(value: unknown): string | number | boolean | null {
+    if (value === null || value === undefined) return null
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') return value
+    if (typeof value === 'bigint') return Number(value)
+    return this.toText(value)
+  }
+
+  private toCursorValue(value: unknown): string | number | null {
+    if (value === null || value === undefined) return null
+    if (typeof value === 'number') return value
+    if (typeof value === 'bigint') return Number(value)
+    return this.toText(value)
+  }
+}
@@ -0,0 +1,570 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import * as cheerio from 'cheerio'
+import mammoth from 'mammoth'
+import ExcelJS from 'exceljs'
+import JSZip from 'jszip'
+import { PDFParse, ScreenshotResult } from 'pdf-parse'
+import { JSONPath } from 'jsonpath-plus'
+import { parseHtml } from './html'
+import { OcrEngine, OcrResult } from './ocr'
+
+export interface FileSection {
+  content: string
+  metadata: Record<string, string | number | boolean> // Structure of the file the text came from, e.g. sheet or slide
+}
+
+export interface CsvOptions {
+  textColumns?: string[] // Columns embedded as text (defaults to every non-metadata column)
+  metadataColumns?: string[] // Columns kept as filterable metadata
+  groupBy?: string // Rows sharing this column's value become one section
+  rowsPerChunk?: number // Without groupBy, how many rows go into each section
+}
+
+export interface JsonOptions {
+  recordsPath?: string // JSONPath selecting the records, e.g. $.speakers[*]; each match becomes a section
+  textFields?: string[] // Record fields embedded as text, dot paths allowed (defaults to the whole record)
+  metadataFields?: string[] // Record fields kept as filterable metadata
+}
+
+export interface FileLoaderOptions {
+  csv?: CsvOptions
+  json?: JsonOptions
+}
+
+type FileFormat = 'text' | 'pdf' | 'docx' | 'csv' | 'json' | 'html' | 'xlsx' | 'pptx' | 'epub' | 'rtf' | 'code' | 'image'
+
+// Source files are indexed as text, tagged with their language
+const CODE_LANGUAGES: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.scala': 'scala',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.cs': 'csharp',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.swift': 'swift',
+  '.sh': 'shell',
+  '.sql': 'sql',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.toml': 'toml',
+  '.css': 'css',
+  '.scss': 'scss',
+}
+
+// Single registry of what can be ingested; uploads, directory scans and the watcher all read it
+const FILE_FORMATS: Record<string, FileFormat> = {
+  '.txt': 'text',
+  '.md': 'text',
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.csv': 'csv',
+  '.json': 'json',
+  '.html': 'html',
+  '.htm': 'html',
+  '.xlsx': 'xlsx',
+  '.pptx': 'pptx',
+  '.epub': 'epub',
+  '.rtf': 'rtf',
+  '.png': 'image',
+  '.jpg': 'image',
+  '.jpeg': 'image',
+  ...Object.fromEntries(Object.keys(CODE_LANGUAGES).map(ext => [ext, 'code' as FileFormat])),
+}
+
+export const SUPPORTED_FILE_EXTENSIONS = Object.keys(FILE_FORMATS)
+
+// PDF pages with less extracted text than this are treated as scanned and OCR'd
+const MIN_PDF_PAGE_TEXT_LENGTH = 10
+const OCR_RENDER_SCALE = 2
+
+// Shared so every load reuses one Tesseract worker
+const ocrEngine = new OcrEngine()
+
+// RTF groups whose content is formatting or metadata rather than document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'colorschememapping',
+  'latentstyles', 'datastore', 'xmlnstbl', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'fldinst',
+])
+
+export class FileLoader {
+  private options: FileLoaderOptions
+
+  constructor(options: FileLoaderOptions = {}) {
+    this.options = options
+  }
+
+  static isSupported(filePath: string): boolean {
+    return path.extname(filePath).toLowerCase() in FILE_FORMATS
+  }
+
+  async load(filePath: string): Promise<FileSection[]> {
+    const ext = path.extname(filePath).toLowerCase()
+
+    switch (FILE_FORMATS[ext]) {
+      case 'text':
+        return [{ content: fs.readFileSync(filePath, 'utf-8'), metadata: {} }]
+      case 'code':
+        return [{ content: fs.readFileSync(filePath, 'utf-8'), metadata: { language: CODE_LANGUAGES[ext] } }]
+      case 'pdf':
+        return this.loadPdf(filePath)
+      case 'docx':
+        return this.loadDocx(filePath)
+      case 'csv':
+        return this.loadCsv(filePath)
+      case 'json':
+        return this.loadJson(filePath)
+      case 'html':
+        return this.htmlSections(fs.readFileSync(filePath, 'utf-8'))
+      case 'xlsx':
+        return this.loadXlsx(filePath)
+      case 'pptx':
+        return this.loadPptx(filePath)
+      case 'epub':
+        return this.loadEpub(filePath)
+      case 'rtf':
+        return [{ content: this.rtfToText(fs.readFileSync(filePath, 'latin1')), metadata: {} }]
+      case 'image':
+        return this.loadImage(filePath)
+      default:
+        throw new Error(`Unsupported file type: ${ext}`)
+    }
+  }
+
+  // Every section repeats the header names and records which rows it covers
+  private async loadCsv(filePath: string): Promise<FileSection[]> {
+    const { headers, rows } = await readCsv(filePath)
+    const options = this.options.csv || {}
+    const metadataColumns = (options.metadataColumns || []).filter(column => headers.includes(column))
+    const textColumns = options.textColumns && options.textColumns.length > 0
+      ? options.textColumns.filter(column => headers.includes(column))
+      : headers.filter(column => !metadataColumns.includes(column))
+
+    // Row numbers are 1-based and count data rows, not the header line
+    const rowText = (row: Record<string, string>, rowNumber: number) => [
+      `Row ${rowNumber}`,
+      ...textColumns
+        .filter(column => row[column] !== undefined && row[column] !== '')
+        .map(column => `${column}: ${row[column]}`),
+    ].join('\n')
+
+    const rowMetadata = (row: Record<string, string>) => {
+      const metadata: FileSection['metadata'] = { columns: textColumns.join(', ') }
+      for (const column of metadataColumns) {
+        if (row[column] !== undefined && row[column] !== '') metadata[column] = row[column]
+      }
+      return metadata
+    }
+
+    if (options.groupBy && headers.includes(options.groupBy)) {
+      const groupBy = options.groupBy
+      const groups = new Map<string, number[]>()
+      rows.forEach((row, index) => {
+        const key = row[groupBy] ?? ''
+        if (!groups.has(key)) groups.set(key, [])
+        groups.get(key)!.push(index)
+      })
+
+      return Array.from(groups.entries()).map(([key, indexes]) => ({
+        content: `${groupBy}: ${key}\n\n${indexes.map(index => rowText(rows[index], index + 1)).join('\n\n')}`,
+        metadata: {
+          ...rowMetadata(rows[indexes[0]]),
+          [groupBy]: key,
+          rowCount: indexes.length,
+          startRow: indexes[0] + 1,
+          endRow: indexes[indexes.length - 1] + 1,
+        },
+      }))
+    }
+
+    const rowsPerChunk = Math.max(1, options.rowsPerChunk || 1)
+    const sections: FileSection[] = []
+    for (let i = 0; i < rows.length; i += rowsPerChunk) {
+      const batch = rows.slice(i, i + rowsPerChunk)
+      // Metadata columns only describe a section when it holds a single row
+      const metadata = batch.length === 1 ? rowMetadata(batch[0]) : { columns: textColumns.join(', ') }
+      sections.push({
+        content: batch.map((row, offset) => rowText(row, i + offset + 1)).join('\n\n'),
+        metadata: { ...metadata, startRow: i + 1, endRow: i + batch.length },
+      })
+    }
+    return sections
+  }
+
+  private loadJson(filePath: string): FileSection[] {
+    const jsonData = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    const options = this.options.json || {}
+    if (!options.recordsPath) {
+      return [{ content: flattenJSON(jsonData, path.basename(filePath)), metadata: {} }]
+    }
+
+    const matches = JSONPath({ path: options.recordsPath, json: jsonData, resultType: 'all', wrap: true }) as Array<{ value: unknown; path: string }>
+    const sections: FileSection[] = []
+
+    matches.forEach((match, index) => {
+      const record = match.value
+      const content = options.textFields && options.textFields.length > 0
+        ? options.textFields
+          .map(field => [field, getField(record, field)] as const)
+          .filter(([, value]) => value !== undefined && value !== null && value !== '')
+          .map(([field, value]) => typeof value === 'object' ? flattenJSON(value, field, field) : `${field}: ${value}`)
+          .join('\n')
+        : typeof record === 'object' && record !== null ? flattenJSON(record, path.basename(filePath)) : String(record)
+      if (!content.trim()) return
+
+      const metadata: FileSection['metadata'] = { recordIndex: index, jsonPath: match.path }
+      for (const field of options.metadataFields || []) {
+        const value = getField(record, field)
+        if (value === undefined || value === null) continue
+        metadata[field] = typeof value === 'object' ? JSON.stringify(value) : value as string | number | boolean
+      }
+      sections.push({ content, metadata })
+    })
+
+    return sections
+  }
+
+  private async loadPdf(filePath: string): Promise<FileSection[]> {
+    const parser = new PDFParse({ data: fs.readFileSync(filePath) })
+    try {
+      const result = await parser.getText()
+      const sections = new Map<number, FileSection>()
+      const scannedPages: number[] = []
+
+      for (const page of result.pages) {
+        if (page.text.trim().length >= MIN_PDF_PAGE_TEXT_LENGTH) {
+          sections.set(page.num, { content: page.text, metadata: { page: page.num } })
+        } else {
+          scannedPages.push(page.num)
+        }
+      }
+
+      // Pages without a text layer are rendered and run through OCR instead. OCR problems only
+      // lose those pages; the ones with a text layer are kept.
+      if (scannedPages.length > 0) {
+        const fileName = path.basename(filePath)
+        const unavailable = ocrEngine.unavailableReason()
+        if (unavailable) {
+          console.warn(`   ⚠️ Skipping OCR on ${scannedPages.length} of ${result.total} pages in ${fileName}: ${unavailable}`)
+        } else {
+          console.log(`   🔎 OCR on ${scannedPages.length} of ${result.total} pages in ${fileName}`)
+          await this.ocrPdfPages(parser, scannedPages, fileName, sections)
+        }
+      }
+
+      return Array.from(sections.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, section]) => section)
+    } finally {
+      await parser.destroy()
+    }
+  }
+
+  private async ocrPdfPages(parser: PDFParse, pages: number[], fileName: string, sections: Map<number, FileSection>): Promise<void> {
+    let screenshots: ScreenshotResult
+    try {
+      screenshots = await parser.getScreenshot({
+        partial: pages,
+        scale: OCR_RENDER_SCALE,
+        imageBuffer: true,
+        imageDataUrl: false,
+      })
+    } catch (error) {
+      console.warn(`   ⚠️ Could not render pages of ${fileName} for OCR:`, error)
+      return
+    }
+
+    for (const screenshot of screenshots.pages) {
+      try {
+        const { text, confidence } = await ocrEngine.recognize(screenshot.data)
+        if (text) {
+          sections.set(screenshot.pageNumber, {
+            content: text,
+            metadata: { page: screenshot.pageNumber, ocr: true, ocrConfidence: confidence },
+          })
+        }
+      } catch (error) {
+        console.warn(`   ⚠️ OCR failed on page ${screenshot.pageNumber} of ${fileName}:`, error)
+      }
+    }
+  }
+
+  // An image is nothing but OCR, so here a problem fails the file with the reason
+  private async loadImage(filePath: string): Promise<FileSection[]> {
+    const fileName = path.basename(filePath)
+    const unavailable = ocrEngine.unavailableReason()
+    if (unavailable) {
+      throw new Error(`Cannot OCR ${fileName}: ${unavailable}`)
+    }
+
+    let result: OcrResult
+    try {
+      result = await ocrEngine.recognize(fs.readFileSync(filePath))
+    } catch (error) {
+      throw new Error(`OCR failed on ${fileName}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    const { text, confidence } = result
+    console.log(`   🔎 OCR on ${fileName}: ${text.length} chars, confidence ${confidence}`)
+    return text ? [{ content: text, metadata: { page: 1, ocr: true, ocrConfidence: confidence } }] : []
+  }
+
+  // Going through HTML keeps Word's heading styles, which raw text extraction drops
+  private async loadDocx(filePath: string): Promise<FileSection[]> {
+    const result = await mammoth.convertToHtml({ buffer: fs.readFileSync(filePath) })
+    return this.htmlSections(result.value)
+  }
+
+  private htmlSections(html: string, metadata: FileSection['metadata'] = {}): FileSection[] {
+    const parsed = parseHtml(html)
+    return parsed.sections.map(section => {
+      const sectionMetadata: FileSection['metadata'] = { ...metadata }
+      if (parsed.title) sectionMetadata.title = parsed.title
+      if (section.headingPath.length > 0) {
+        sectionMetadata.heading = section.headingPath[section.headingPath.length - 1]
+        sectionMetadata.headingPath = section.headingPath.join(' > ')
+      }
+      return { content: section.content, metadata: sectionMetadata }
+    })
+  }
+
+  private async loadXlsx(filePath: string): Promise<FileSection[]> {
+    const workbook = new ExcelJS.Workbook()
+    await workbook.xlsx.readFile(filePath)
+
+    const sections: FileSection[] = []
+    workbook.eachSheet(sheet => {
+      // The first non-empty row is taken as the header, like a CSV file
+      let headers: string[] | null = null
+      const lines: string[] = []
+
+      sheet.eachRow((row, rowNumber) => {
+        const values: string[] = []
+        for (let column = 1; column <= row.cellCount; column++) {
+          values[column - 1] = row.getCell(column).text.trim()
+        }
+        if (!headers) {
+          headers = values.map((value, index) => value || `Column ${index + 1}`)
+          return
+        }
+        const cells = values
+          .map((value, index) => value ? `${headers![index] || `Column ${index + 1}`}: ${value}` : '')
+          .filter(Boolean)
+        if (cells.length > 0) lines.push(`Row ${rowNumber}: ${cells.join(', ')}`)
+      })
+
+      if (lines.length > 0) {
+        sections.push({ content: `Sheet: ${sheet.name}\n${lines.join('\n')}`, metadata: { sheet: sheet.name } })
+      }
+    })
+    return sections
+  }
+
+  private async loadPptx(filePath: string): Promise<FileSection[]> {
+    const zip = await JSZip.loadAsync(fs.readFileSync(filePath))
+    const slidePaths = Object.keys(zip.files)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => this.slideNumber(a) - this.slideNumber(b))
+
+    const sections: FileSection[] = []
+    for (const slidePath of slidePaths) {
+      const slide = this.slideNumber(slidePath)
+      const text = this.drawingText(await zip.file(slidePath)!.async('string'))
+
+      // Speaker notes hang off the slide through its relationships file
+      let notes = ''
+      const relsFile = zip.file(slidePath.replace('ppt/slides/', 'ppt/slides/_rels/') + '.rels')
+      if (relsFile) {
+        const $ = cheerio.load(await relsFile.async('string'), { xmlMode: true })
+        const target = $('Relationship[Type$="/notesSlide"]').attr('Target')
+        const notesFile = target ? zip.file(path.posix.join('ppt/slides', target)) : null
+        if (notesFile) notes = this.drawingText(await notesFile.async('string'))
+      }
+
+      const content = [text, notes ? `Notes: ${notes}` : ''].filter(Boolean).join('\n\n')
+      if (content) {
+        sections.push({ content: `Slide ${slide}\n${content}`, metadata: { slide } })
+      }
+    }
+    return sections
+  }
+
+  private slideNumber(slidePath: string): number {
+    return Number(slidePath.match(/(\d+)\.xml$/)![1])
+  }
+
+  // Text of a DrawingML part, one line per paragraph, without slide-number placeholders
+  private drawingText(xml: string): string {
+    const $ = cheerio.load(xml, { xmlMode: true })
+    $('p\\:sp').filter((_, el) => $(el).find('p\\:ph[type="sldNum"]').length > 0).remove()
+
+    const lines: string[] = []
+    $('a\\:p').each((_, el) => {
+      const line = $(el).find('a\\:t').map((_, t) => $(t).text()).get().join('').trim()
+      if (line) lines.push(line)
+    })
+    return lines.join('\n')
+  }
+
+  private async loadEpub(filePath: string): Promise<FileSection[]> {
+    const zip = await JSZip.loadAsync(fs.readFileSync(filePath))
+
+    const container = zip.file('META-INF/container.xml')
+    if (!container) throw new Error('Invalid EPUB: missing META-INF/container.xml')
+    const opfPath = cheerio.load(await container.async('string'), { xmlMode: true })('rootfile').attr('full-path')
+    const opfFile = opfPath ? zip.file(opfPath) : null
+    if (!opfPath || !opfFile) throw new Error('Invalid EPUB: missing package document')
+
+    const $ = cheerio.load(await opfFile.async('string'), { xmlMode: true })
+    const manifest = new Map<string, string>()
+    $('manifest > item').each((_, el) => {
+      manifest.set($(el).attr('id') || '', $(el).attr('href') || '')
+    })
+
+    // Chapters are read in spine (reading) order
+    const sections: FileSection[] = []
+    const itemRefs = $('spine > itemref').map((_, el) => $(el).attr('idref') || '').get()
+    for (const [index, idref] of itemRefs.entries()) {
+      const href = manifest.get(idref)
+      if (!href) continue
+      const chapterFile = zip.file(path.posix.join(path.posix.dirname(opfPath), decodeURIComponent(href)))
+      if (!chapterFile) continue
+
+      sections.push(...this.htmlSections(await chapterFile.async('string'), { chapter: index + 1 }))
+    }
+    return sections
+  }
+
+  // Minimal RTF reader: keeps body text, drops formatting and non-text destinations
+  private rtfToText(rtf: string): string {
+    const output: string[] = []
+    const stack: boolean[] = []
+    let skipping = false
+    let i = 0
+
+    while (i < rtf.length) {
+      const char = rtf[i]
+
+      if (char === '{') {
+        stack.push(skipping)
+        i++
+      } else if (char === '}') {
+        skipping = stack.pop() ?? false
+        i++
+      } else if (char === '\\') {
+        const next = rtf[i + 1]
+        if (next === '\\' || next === '{' || next === '}') {
+          if (!skipping) output.push(next)
+          i += 2
+        } else if (next === '\'') {
+          if (!skipping) output.push(String.fromCharCode(parseInt(rtf.substring(i + 2, i + 4), 16)))
+          i += 4
+        } else if (next === '*') {
+          // \* marks a destination readers may ignore
+          skipping = true
+          i += 2
+        } else if (next === '\n' || next === '\r') {
+          if (!skipping) output.push('\n')
+          i += 2
+        } else {
+          const match = rtf.substring(i).match(/^\\([a-zA-Z]+)(-?\d+)? ?/)
+          if (!match) {
+            i += 2
+            continue
+          }
+          i += match[0].length
+          const word = match[1]
+
+          if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+            skipping = true
+          } else if (!skipping) {
+            if (word === 'par' || word === 'line' || word === 'sect' || word === 'page' || word === 'row') {
+              output.push('\n')
+            } else if (word === 'tab' || word === 'cell') {
+              output.push('\t')
+            } else if (word === 'u' && match[2]) {
+              const code = Number(match[2])
+              output.push(String.fromCharCode(code < 0 ? code + 65536 : code))
+              // Skip the ANSI fallback that follows a Unicode character
+              if (rtf[i] === '\\' && rtf[i + 1] === '\'') i += 4
+              else if (rtf[i] !== '\\' && rtf[i] !== '{' && rtf[i] !== '}') i++
+            }
+          }
+        }
+      } else {
+        if (!skipping && char !== '\n' && char !== '\r') output.push(char)
+        i++
+      }
+    }
+
+    return output.join('')
+      .split('\n')
+      .map(line => line.replace(/[ \t]+$/, ''))
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+}
+
+function readCsv(filePath: string): Promise<{ headers: string[]; rows: Array<Record<string, string>> }> {
+  const csv = require('csv-parser')
+  const rows: Array<Record<string, string>> = []
+  let headers: string[] = []
+
+  return new Promise((resolve, reject) => {
+    fs.createReadStream(filePath)
+      .pipe(csv({ mapHeaders: ({ header }: { header: string }) => header.trim() }))
+      .on('headers', (names: string[]) => { headers = names })
+      .on('data', (row: Record<string, string>) => rows.push(row))
+      .on('end', () => resolve({ headers, rows }))
+      .on('error', reject)
+  })
+}
+
+// Reads a dot path such as "address.city" from a parsed JSON value
+function getField(record: unknown, field: string): unknown {
+  let value: unknown = record
+  for (const key of field.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined
+    value = (value as Record<string, unknown>)[key]
+  }
+  return value
+}
+
+export function flattenJSON(obj: any, filename: string, prefix = ''): string {
+  const parts: string[] = []
+
+  for (const [key, value] of Object.entries(obj)) {
+    const newKey = prefix ? `${prefix}.${key}` : key
+
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      parts.push(flattenJSON(value, filename, newKey))
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        if (typeof item === 'object' && item !== null) {
+          parts.push(flattenJSON(item, filename, `${newKey}[${index}]`))
+        } else {
+          parts.push(`${newKey}[${index}]: ${item}`)
+        }
+      })
+    } else {
+      parts.push(`${newKey}: ${value}`)
+    }
+  }
+
+  return parts.join('\n')
+}
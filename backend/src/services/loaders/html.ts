@@ -0,0 +1,109 @@
+import * as cheerio from 'cheerio'
+
+export interface HtmlSection {
+  headingPath: string[] // Enclosing headings, outermost first
+  content: string
+}
+
+export interface ParsedHtml {
+  title: string
+  text: string
+  sections: HtmlSection[]
+  hrefs: string[]
+}
+
+// Elements that never carry page content
+const BOILERPLATE_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form',
+  'nav', 'header', 'footer', 'aside',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]',
+  '.nav', '.navbar', '.menu', '.sidebar', '.footer', '.header', '.breadcrumb', '.breadcrumbs',
+  '.cookie-banner', '.skip-link',
+].join(', ')
+
+const BLOCK_SELECTORS = 'p, div, section, article, main, li, tr, h1, h2, h3, h4, h5, h6, pre, blockquote, dd, dt, br, hr'
+const INLINE_SEPARATED_SELECTORS = 'a, td, th, span, label, button'
+
+// Heading lines are tagged with these so sections can be rebuilt from the flattened text
+const HEADING_START = '\u0001'
+const HEADING_END = '\u0002'
+
+// Turns an HTML document into clean text without navigation/footer boilerplate,
+// plus the same text split into sections at each heading.
+export function parseHtml(html: string): ParsedHtml {
+  const $ = cheerio.load(html)
+
+  // Collect links before boilerplate removal so navigation still drives discovery
+  const hrefs: string[] = []
+  $('a[href]').each((_, el) => {
+    const href = $(el).attr('href')
+    if (href) hrefs.push(href)
+  })
+
+  const title = ($('title').first().text() || $('h1').first().text()).trim()
+
+  $(BOILERPLATE_SELECTORS).remove()
+
+  let root = $('main').first()
+  if (root.length === 0) root = $('article').first()
+  if (root.length === 0) root = $('[role="main"]').first()
+  if (root.length === 0) root = $('body')
+
+  root.find('h1, h2, h3, h4, h5, h6').each((_, el) => {
+    const level = Number(el.tagName.substring(1))
+    const heading = $(el).text().replace(/\s+/g, ' ').trim()
+    $(el).replaceWith(`<p>${HEADING_START}${level}${HEADING_END}${escapeHtml(heading)}</p>`)
+  })
+  root.find(INLINE_SEPARATED_SELECTORS).each((_, el) => {
+    $(el).append(' ')
+  })
+  root.find(BLOCK_SELECTORS).each((_, el) => {
+    $(el).append('\n')
+  })
+
+  const lines = root.text()
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+
+  const sections: HtmlSection[] = []
+  const headingStack: Array<{ level: number; text: string }> = []
+  let current: string[] = []
+  const textLines: string[] = []
+
+  const closeSection = () => {
+    if (current.length > 0) {
+      sections.push({ headingPath: headingStack.map(h => h.text), content: current.join('\n') })
+    }
+    current = []
+  }
+
+  for (const line of lines) {
+    if (line.startsWith(HEADING_START)) {
+      const end = line.indexOf(HEADING_END)
+      const level = Number(line.substring(1, end))
+      const heading = line.substring(end + 1).trim()
+
+      closeSection()
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop()
+      }
+      if (heading) {
+        headingStack.push({ level, text: heading })
+        current.push(heading)
+        textLines.push(heading)
+      }
+      continue
+    }
+    current.push(line)
+    textLines.push(line)
+  }
+  closeSection()
+
+  return { title, text: textLines.join('\n'), sections, hrefs }
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
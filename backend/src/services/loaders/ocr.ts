@@ -0,0 +1,106 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { createWorker, Worker } from 'tesseract.js'
+import { dataDirectory } from '../vectorStores/vectorStoreAdapter'
+
+export interface OcrResult {
+  text: string
+  confidence: number // Tesseract's mean word confidence, 0-100
+}
+
+const IDLE_TIMEOUT_MS = 60000
+
+// Runs Tesseract (WASM) in a worker that is started on first use and shut down
+// once it has been idle for a minute, so the language data is only loaded when needed.
+// Language data is read from OCR_LANG_PATH (default <RAG_DATA_DIR>/ocr/tessdata) and never downloaded.
+export class OcrEngine {
+  private languages: string
+  private langPath = process.env.OCR_LANG_PATH || dataDirectory('ocr', 'tessdata')
+  private worker: Promise<Worker> | null = null
+  private idleTimer: NodeJS.Timeout | null = null
+  private activeJobs = 0
+
+  constructor(languages = process.env.OCR_LANGUAGES || 'eng') {
+    this.languages = languages
+  }
+
+  async recognize(image: Buffer | Uint8Array): Promise<OcrResult> {
+    this.activeJobs++
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+
+    try {
+      const worker = await this.getWorker()
+      const { data } = await worker.recognize(Buffer.from(image))
+      return { text: data.text.trim(), confidence: Math.round(data.confidence * 10) / 10 }
+    } finally {
+      this.activeJobs--
+      if (this.activeJobs === 0) {
+        this.idleTimer = setTimeout(() => this.terminate(), IDLE_TIMEOUT_MS)
+        this.idleTimer.unref()
+      }
+    }
+  }
+
+  // Why OCR cannot run (e.g. no language data under OCR_LANG_PATH), or null when it can
+  unavailableReason(): string | null {
+    try {
+      this.findLanguageData(this.languages.split('+'))
+      return null
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error)
+    }
+  }
+
+  async terminate(): Promise<void> {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer)
+      this.idleTimer = null
+    }
+    const worker = this.worker
+    this.worker = null
+    if (worker) {
+      await (await worker).terminate().catch(() => undefined)
+    }
+  }
+
+  private getWorker(): Promise<Worker> {
+    if (!this.worker) {
+      console.log(`   🔎 Starting OCR worker (${this.languages})`)
+      this.worker = this.startWorker()
+      // Let the next call retry if the worker failed to start
+      this.worker.catch(() => { this.worker = null })
+    }
+    return this.worker
+  }
+
+  private async startWorker(): Promise<Worker> {
+    const languages = this.languages.split('+')
+    return createWorker(languages, undefined, {
+      langPath: this.langPath,
+      gzip: this.findLanguageData(languages),
+      // The files are already local, so Tesseract keeps no cached copy of its own
+      cacheMethod: 'none',
+      // Failed jobs already reject their recognize() call; without a handler Tesseract also
+      // rethrows the error outside that promise and takes the process down
+      errorHandler: () => undefined,
+    })
+  }
+
+  // Returns whether the files are gzipped. Tesseract takes one setting for every language, so
+  // all of them must be either plain .traineddata or .traineddata.gz files.
+  private findLanguageData(languages: string[]): boolean {
+    const has = (file: string) => fs.existsSync(path.join(this.langPath, file))
+    if (languages.every(lang => has(`${lang}.traineddata`))) return false
+    if (languages.every(lang => has(`${lang}.traineddata.gz`))) return true
+
+    const missing = languages.filter(lang => !has(`${lang}.traineddata`) && !has(`${lang}.traineddata.gz`))
+    if (missing.length === 0) {
+      throw new Error(`OCR language data in ${this.langPath} mixes .traineddata and .traineddata.gz files; use one kind for ${languages.join(', ')}`)
+    }
+    throw new Error(`OCR language data not found: ${missing.map(lang => `${lang}.traineddata`).join(', ')} in ${this.langPath}. `
+      + 'Download it from https://github.com/tesseract-ocr/tessdata_fast into that directory, or set OCR_LANG_PATH to a directory holding it')
+  }
+}
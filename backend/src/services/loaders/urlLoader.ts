@@ -0,0 +1,221 @@
+import * as cheerio from 'cheerio'
+import robotsParser from 'robots-parser'
+import { parseHtml } from './html'
+
+export interface CrawlOptions {
+  maxDepth?: number // Link hops from the start URL (0 = start page only)
+  maxPages?: number
+  respectRobotsTxt?: boolean
+  useSitemap?: boolean
+  requestTimeoutMs?: number
+  userAgent?: string
+}
+
+export interface CrawledPage {
+  url: string
+  title: string
+  content: string
+  depth: number
+}
+
+const DEFAULT_CRAWL_OPTIONS: Required<CrawlOptions> = {
+  maxDepth: 2,
+  maxPages: 50,
+  respectRobotsTxt: true,
+  useSitemap: true,
+  requestTimeoutMs: 10000,
+  userAgent: 'RagAgentConsoleBot/1.0',
+}
+
+// Links to these are not HTML pages and are never followed
+const SKIPPED_EXTENSIONS = /\.(pdf|zip|gz|tar|png|jpe?g|gif|svg|webp|ico|css|js|mp3|mp4|mov|avi|woff2?|ttf|eot|xml|json|csv|docx?|xlsx?|pptx?)$/i
+
+const MAX_CRAWL_DELAY_MS = 5000
+const MAX_SITEMAPS = 10
+
+export class WebCrawler {
+  private options: Required<CrawlOptions>
+  private robots: ReturnType<typeof robotsParser> | null = null
+  private crawlDelayMs = 0
+
+  constructor(options: CrawlOptions = {}) {
+    this.options = { ...DEFAULT_CRAWL_OPTIONS, ...options }
+  }
+
+  async crawl(startUrl: string): Promise<CrawledPage[]> {
+    const start = new URL(startUrl)
+    if (start.protocol !== 'http:' && start.protocol !== 'https:') {
+      throw new Error(`Unsupported URL protocol: ${start.protocol}`)
+    }
+    start.hash = ''
+
+    if (this.options.respectRobotsTxt) {
+      await this.loadRobotsTxt(start)
+    }
+
+    const queue: Array<{ url: string; depth: number }> = [{ url: start.href, depth: 0 }]
+    const seen = new Set<string>([start.href])
+
+    if (this.options.useSitemap && this.options.maxDepth > 0) {
+      // Sitemap entries are treated as direct children of the start page
+      for (const url of await this.loadSitemapUrls(start)) {
+        if (!seen.has(url)) {
+          seen.add(url)
+          queue.push({ url, depth: 1 })
+        }
+      }
+    }
+
+    const pages: CrawledPage[] = []
+
+    while (queue.length > 0 && pages.length < this.options.maxPages) {
+      const { url, depth } = queue.shift()!
+
+      if (!this.isAllowed(url)) {
+        console.log(`   🚫 Skipping ${url} (disallowed by robots.txt)`)
+        continue
+      }
+
+      const html = await this.fetchHtml(url, start.origin)
+      if (html === null) continue
+
+      const page = this.parsePage(html, url)
+      if (page.content.trim()) {
+        pages.push({ url, title: page.title, content: page.content, depth })
+        console.log(`   🌐 Crawled ${url} (depth ${depth}, ${page.content.length} chars)`)
+      }
+
+      if (depth < this.options.maxDepth) {
+        for (const link of page.links) {
+          if (!seen.has(link)) {
+            seen.add(link)
+            queue.push({ url: link, depth: depth + 1 })
+          }
+        }
+      }
+
+      if (this.crawlDelayMs > 0 && queue.length > 0) {
+        await new Promise(resolve => setTimeout(resolve, this.crawlDelayMs))
+      }
+    }
+
+    return pages
+  }
+
+  private async loadRobotsTxt(start: URL): Promise<void> {
+    const robotsUrl = `${start.origin}/robots.txt`
+    try {
+      const response = await this.fetchWithTimeout(robotsUrl)
+      const body = response.ok ? await response.text() : ''
+      this.robots = robotsParser(robotsUrl, body)
+
+      const delaySeconds = this.robots.getCrawlDelay(this.options.userAgent)
+      if (delaySeconds) {
+        this.crawlDelayMs = Math.min(delaySeconds * 1000, MAX_CRAWL_DELAY_MS)
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${robotsUrl}, crawling without robots.txt rules:`, error)
+      this.robots = null
+    }
+  }
+
+  private isAllowed(url: string): boolean {
+    if (!this.robots) return true
+    return this.robots.isAllowed(url, this.options.userAgent) !== false
+  }
+
+  private async loadSitemapUrls(start: URL): Promise<string[]> {
+    const pending = this.robots?.getSitemaps().length
+      ? [...this.robots.getSitemaps()]
+      : [`${start.origin}/sitemap.xml`]
+    const visited = new Set<string>()
+    const urls: string[] = []
+
+    while (pending.length > 0 && visited.size < MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!
+      if (visited.has(sitemapUrl)) continue
+      visited.add(sitemapUrl)
+
+      try {
+        const response = await this.fetchWithTimeout(sitemapUrl)
+        if (!response.ok) continue
+
+        const $ = cheerio.load(await response.text(), { xmlMode: true })
+        // A sitemap index points at further sitemaps rather than pages
+        $('sitemapindex > sitemap > loc').each((_, el) => {
+          pending.push($(el).text().trim())
+        })
+        $('urlset > url > loc').each((_, el) => {
+          const url = this.normalizeUrl($(el).text().trim(), start.href, start.origin)
+          if (url) urls.push(url)
+        })
+      } catch (error) {
+        console.warn(`Could not read sitemap ${sitemapUrl}:`, error)
+      }
+    }
+
+    if (urls.length > 0) {
+      console.log(`   🗺️  Found ${urls.length} URLs in sitemap`)
+    }
+    return urls
+  }
+
+  private async fetchHtml(url: string, origin: string): Promise<string | null> {
+    try {
+      const response = await this.fetchWithTimeout(url)
+      if (!response.ok) {
+        console.warn(`   ⚠️ ${url} returned ${response.status}`)
+        return null
+      }
+
+      // Redirects may leave the site we were asked to crawl
+      if (new URL(response.url || url).origin !== origin) {
+        return null
+      }
+
+      const contentType = response.headers.get('content-type') || ''
+      if (!contentType.includes('text/html') && !contentType.includes('application/xhtml+xml')) {
+        return null
+      }
+
+      return await response.text()
+    } catch (error) {
+      console.warn(`   ⚠️ Failed to fetch ${url}:`, error)
+      return null
+    }
+  }
+
+  private async fetchWithTimeout(url: string): Promise<Response> {
+    return fetch(url, {
+      headers: { 'User-Agent': this.options.userAgent },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.options.requestTimeoutMs),
+    })
+  }
+
+  private parsePage(html: string, pageUrl: string): { title: string; content: string; links: string[] } {
+    const origin = new URL(pageUrl).origin
+    const parsed = parseHtml(html)
+
+    const links: string[] = []
+    for (const href of parsed.hrefs) {
+      const link = this.normalizeUrl(href, pageUrl, origin)
+      if (link) links.push(link)
+    }
+
+    return { title: parsed.title || pageUrl, content: parsed.text, links }
+  }
+
+  private normalizeUrl(href: string, baseUrl: string, origin: string): string | null {
+    try {
+      const url = new URL(href, baseUrl)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+      if (url.origin !== origin) return null
+      if (SKIPPED_EXTENSIONS.test(url.pathname)) return null
+      url.hash = ''
+      return url.href
+    } catch {
+      return null
+    }
+  }
+}
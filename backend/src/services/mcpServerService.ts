@@ -2,6 +2,7 @@ import { spawn, ChildProcess } from 'child_process'
 import { v4 as uuidv4 } from 'uuid'
 import { EventEmitter } from 'events'
 import { DatabaseService } from './databaseService'
+import { eventBus, McpServerStatus } from './eventBus'
 
 interface JsonRpcRequest {
   jsonrpc: '2.0'
@@ -45,6 +46,8 @@ export class McpServerService {
   private servers: Map<string, McpServer> = new Map()
   private dbService: DatabaseService
   private requestId = 0
+  // Servers being stopped on request, whose exit is not a crash
+  private stopping: Set<string> = new Set()
 
   constructor(dbService: DatabaseService) {
     this.dbService = dbService
@@ -253,10 +256,12 @@ export class McpServerService {
       server.updatedAt = new Date()
 
       serverProcess.on('exit', (code: number | null) => {
-        server.status = code === 0 ? 'stopped' : 'error'
+        const requested = this.stopping.delete(server.id)
+        server.status = requested || code === 0 ? 'stopped' : 'error'
         server.updatedAt = new Date()
         server.process = undefined
         console.log(`[MCP] Server ${server.name} exited with code ${code}`)
+        this.publishStatus(server, requested ? 'stopped' : code === 0 ? 'exited' : 'crashed', { exitCode: code })
       })
 
       serverProcess.on('error', (error: Error) => {
@@ -264,6 +269,7 @@ export class McpServerService {
         server.updatedAt = new Date()
         server.process = undefined
         console.error(`[MCP] Server ${server.name} spawn error:`, error)
+        this.publishStatus(server, 'failed', { error: error.message })
       })
 
       // Log stdout and stderr
@@ -276,15 +282,21 @@ export class McpServerService {
       })
 
       console.log(`[MCP] Server ${server.name} started successfully`)
+      this.publishStatus(server, 'started')
       return true
     } catch (error) {
       console.error(`[MCP] Failed to start server ${server.name}:`, error)
       server.status = 'error'
       server.updatedAt = new Date()
+      this.publishStatus(server, 'failed', { error: error instanceof Error ? error.message : String(error) })
       throw error
     }
   }
 
+  private publishStatus(server: McpServer, reason: McpServerStatus['reason'], details: Pick<McpServerStatus, 'exitCode' | 'error'> = {}) {
+    eventBus.publish('mcp.status', { id: server.id, name: server.name, status: server.status, reason, ...details })
+  }
+
   async stopServer(id: string): Promise<boolean> {
     const server = this.servers.get(id)
     if (!server) {
@@ -301,6 +313,7 @@ export class McpServerService {
 
     try {
       console.log(`[MCP] Stopping server ${server.name}...`)
+      this.stopping.add(server.id)
       
       return new Promise((resolve) => {
         const process = server.process!
@@ -333,8 +346,10 @@ export class McpServerService {
         } catch (e) {
           clearTimeout(timeout)
           console.error(`[MCP] Error sending SIGTERM:`, e)
+          this.stopping.delete(server.id)
           server.status = 'stopped'
           server.process = undefined
+          this.publishStatus(server, 'stopped')
           resolve(false)
         }
       })
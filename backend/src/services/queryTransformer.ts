@@ -0,0 +1,123 @@
+import OpenAI from 'openai'
+
+export interface QueryTransformSettings {
+  condense?: boolean // Rewrite the latest turn into a standalone question using the conversation
+  multiQuery?: number // Extra phrasings searched alongside the question, 0 to turn off
+  hyde?: boolean // Embed a hypothetical answer instead of the question for semantic search
+  model?: string // OpenAI chat model used for the rewrites
+}
+
+export interface TransformedQuery {
+  original: string
+  standalone: string // The question retrieval runs with; the original when not condensed
+  expansions: string[]
+  hypotheticalDocument?: string
+}
+
+export const MAX_QUERY_EXPANSIONS = 5
+
+const DEFAULT_TRANSFORM_MODEL = 'gpt-4o-mini'
+// Earlier turns shown to the model when condensing; older context rarely changes what a follow-up refers to
+const CONDENSE_HISTORY_MESSAGES = 6
+const MAX_HISTORY_MESSAGE_LENGTH = 1000
+
+type ChatTurn = { role: 'user' | 'assistant' | 'system', content: string }
+
+// Rewrites a chat turn into the queries retrieval runs. Every step falls back to the
+// untransformed query when the model call fails, so retrieval still happens.
+export class QueryTransformer {
+  private client: OpenAI | null = null
+
+  async transform(messages: ChatTurn[], settings: QueryTransformSettings): Promise<TransformedQuery> {
+    const original = messages[messages.length - 1]?.content || ''
+    const model = settings.model || DEFAULT_TRANSFORM_MODEL
+    const history = messages.slice(0, -1).filter(message => message.role !== 'system')
+
+    const standalone = settings.condense && history.length > 0
+      ? await this.attempt('condense', original, () => this.condense(history, original, model))
+      : original
+
+    const [expansions, hypotheticalDocument] = await Promise.all([
+      settings.multiQuery
+        ? this.attempt('multi-query', [], () => this.expand(standalone, Math.min(settings.multiQuery!, MAX_QUERY_EXPANSIONS), model))
+        : Promise.resolve([]),
+      settings.hyde
+        ? this.attempt<string | undefined>('HyDE', undefined, () => this.hypothesize(standalone, model))
+        : Promise.resolve(undefined),
+    ])
+
+    return { original, standalone, expansions, hypotheticalDocument }
+  }
+
+  private async condense(history: ChatTurn[], latest: string, model: string): Promise<string> {
+    const transcript = history
+      .slice(-CONDENSE_HISTORY_MESSAGES)
+      .map(message => `${message.role}: ${message.content.slice(0, MAX_HISTORY_MESSAGE_LENGTH)}`)
+      .join('\n')
+    const rewritten = await this.complete(model, [
+      {
+        role: 'system',
+        content: 'Rewrite the user\'s latest message as a standalone search query that can be understood without the conversation. Resolve pronouns and references to earlier turns into the names and topics they mean. Keep names, IDs and numbers exactly as written. Reply with the query only.'
+      },
+      { role: 'user', content: `Conversation:\n${transcript}\n\nLatest message: ${latest}` }
+    ])
+    // Models sometimes quote the query
+    return rewritten.replace(/^"([\s\S]*)"$/, '$1') || latest
+  }
+
+  private async expand(query: string, count: number, model: string): Promise<string[]> {
+    const content = await this.complete(model, [
+      {
+        role: 'system',
+        content: `Write ${count} alternative phrasings of the search query that could match relevant documents worded differently, such as synonyms or more specific and more general forms. Reply with JSON {"queries": [...]}.`
+      },
+      { role: 'user', content: query }
+    ], true)
+    const parsed = JSON.parse(content || '{}') as { queries?: unknown[] }
+    return (parsed.queries || [])
+      .filter((item): item is string => typeof item === 'string' && item.trim().length > 0 && item.trim() !== query)
+      .map(item => item.trim())
+      .slice(0, count)
+  }
+
+  private async hypothesize(query: string, model: string): Promise<string | undefined> {
+    const passage = await this.complete(model, [
+      {
+        role: 'system',
+        content: 'Write a short passage, as it might appear in a reference document, that answers the question. It is only used to find similar documents, so plausible details are fine. Reply with the passage only.'
+      },
+      { role: 'user', content: query }
+    ])
+    return passage || undefined
+  }
+
+  private async attempt<T>(step: string, fallback: T, run: () => Promise<T>): Promise<T> {
+    try {
+      return await run()
+    } catch (error) {
+      console.warn(`Query ${step} step failed, continuing without it:`, error)
+      return fallback
+    }
+  }
+
+  private async complete(model: string, messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[], json = false): Promise<string> {
+    const completion = await this.getClient().chat.completions.create({
+      model,
+      temperature: 0,
+      messages,
+      response_format: json ? { type: 'json_object' } : undefined,
+    })
+    return completion.choices[0]?.message?.content?.trim() || ''
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env.OPENAI_API_KEY
+      if (!apiKey) {
+        throw new Error('OpenAI API key not found. Please set OPENAI_API_KEY environment variable.')
+      }
+      this.client = new OpenAI({ apiKey })
+    }
+    return this.client
+  }
+}
@@ -1,11 +1,85 @@
 import { v4 as uuidv4 } from 'uuid'
+import { createHash } from 'crypto'
 import * as fs from 'fs'
 import * as path from 'path'
-const pdf = require('pdf-parse')
-import mammoth from 'mammoth'
 import { OpenAIEmbeddings } from '@langchain/openai'
-import { ChromaClient, Collection } from 'chromadb'
-import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+import { EmbeddingsInterface } from '@langchain/core/embeddings'
+import { WebCrawler, CrawlOptions } from './loaders/urlLoader'
+import { DatabaseLoader, DatabaseSourceOptions, databaseQueryName } from './loaders/databaseLoader'
+import { ApiLoader, ApiSourceOptions } from './loaders/apiLoader'
+import { FileLoader, FileSection, CsvOptions, JsonOptions, SUPPORTED_FILE_EXTENSIONS, flattenJSON } from './loaders/fileLoader'
+import { DirectoryWatcher } from './directoryWatcher'
+import { JobQueue, JobContext, JobStatus, JobType, RagJob } from './jobQueue'
+import { eventBus } from './eventBus'
+import { TextChunker, ChunkingOptions, validateChunkingOptions } from './textChunker'
+import { EmbeddingModel, EMBEDDING_PROVIDERS, createEmbeddingProvider } from './embeddingProviders'
+import { VectorStoreAdapter, StoredRecord, MetadataFilter, createVectorStoreAdapter, validateMetadataFilter } from './vectorStores/vectorStoreAdapter'
+import { tokenize } from './vectorStores/bm25Index'
+import { soundsAlike } from './vectorStores/doubleMetaphone'
+import { extractNames, spellingSimilarity } from './vectorStores/phoneticIndex'
+import { AliasEntry, applyAliases, validateAliases } from './aliases'
+import { RerankConfig, RERANK_PROVIDERS, getReranker } from './reranker'
+import { QueryTransformSettings, MAX_QUERY_EXPANSIONS } from './queryTransformer'
+
+// Per-source loader settings, stored as JSON alongside the data source
+export interface DataSourceConfig {
+  crawl?: CrawlOptions
+  database?: DatabaseSourceOptions
+  api?: ApiSourceOptions
+  csv?: CsvOptions
+  json?: JsonOptions
+  chunking?: ChunkingOptions
+  rerank?: RerankConfig // For the data source's own vector store, which is rebuilt from the source at startup
+  aliases?: AliasEntry[] // Names and terms users say differently from how the source spells them
+  watch?: {
+    enabled: boolean
+    debounceMs?: number
+  }
+}
+
+// Runtime state of a directory watcher, reported with the data source but never persisted
+export interface WatcherState {
+  status: 'watching' | 'stopped' | 'error'
+  lastSyncAt?: Date
+  error?: string
+}
+
+// Counters for the most recent ingestion or watcher sync, reported with the data source but never persisted
+export interface IngestionRunStats {
+  embeddingCacheHits: number
+  embeddingCacheMisses: number // Distinct texts sent to the embedding provider
+  failedFiles: number // Files that could not be loaded or chunked
+  failedChunks: number // Chunks left out because their embedding batch failed on every retry
+  finishedAt?: Date
+}
+
+// A file or chunk missing from a data source's index, kept until a later run or a re-embed
+// succeeds. File failures need a regular retry; chunk failures can be re-embedded on their own.
+export interface IngestionFailure {
+  id: string
+  kind: 'file' | 'chunk'
+  path?: string
+  chunkId?: string
+  preview?: string // Start of the chunk text
+  error: string
+  attempts: number
+  updatedAt: Date
+}
+
+// A chunk whose embedding batch failed, with the provider's last error
+interface FailedEmbedding {
+  chunk: Document
+  error: string
+}
+
+const FAILURE_PREVIEW_LENGTH = 200
+
+// Data source fields that PUT /datasources/:id may change; the rest are kept by the service
+const EDITABLE_DATA_SOURCE_FIELDS = ['name', 'path', 'url', 'connectionString', 'apiKey', 'headers', 'config', 'embeddingModel'] as const
+
+// Fields and config settings that change what is loaded or how it is chunked, so changing them re-indexes the source
+const REINDEXED_DATA_SOURCE_FIELDS = ['path', 'url', 'connectionString', 'apiKey', 'headers'] as const
+const REINDEXED_CONFIG_KEYS = ['crawl', 'database', 'api', 'csv', 'json', 'chunking'] as const
 
 export interface DataSource {
   id: string
@@ -16,7 +90,11 @@ export interface DataSource {
   connectionString?: string
   apiKey?: string
   headers?: Record<string, string>
-  status: 'configured' | 'processing' | 'ready' | 'error'
+  config?: DataSourceConfig
+  embeddingModel?: string // Embedding model ID; unset uses the default OpenAI model
+  watcher?: WatcherState
+  lastRun?: IngestionRunStats
+  status: 'configured' | 'queued' | 'processing' | 'ready' | 'partial' | 'error' // partial: indexed with failed files or chunks
   documentCount?: number
   lastIndexed?: Date
   createdAt: Date
@@ -32,33 +110,123 @@ export interface VectorStore {
   port?: number
   apiKey?: string
   indexName?: string
+  distance?: 'cosine' | 'l2' // Local store only
+  rerank?: RerankConfig // Reorders retrieved chunks; unset keeps the fused search order
+  embeddingModel?: string // Embedding model ID the stored vectors were created with
   status: 'configured' | 'ready' | 'error'
   vectorCount?: number
   createdAt: Date
   updatedAt: Date
 }
 
+// Several data sources indexed into one vector store with one embedding model and one set of
+// chunking settings. Without a vectorStore of its own choosing it gets pipeline_<id>.
 export interface RagPipeline {
   id: string
   name: string
   description: string
   dataSources: string[] // IDs of data sources
   vectorStore: string // ID of vector store
-  chunkSize: number
-  chunkOverlap: number
-  status: 'configured' | 'processing' | 'ready' | 'error'
-  documentCount?: number
+  embeddingModel?: string // Embedding model ID; unset uses the default OpenAI model
+  chunking?: ChunkingOptions // Used for every source in place of the source's own chunking settings
+  lastRun?: PipelineRunStats
+  status: 'configured' | 'queued' | 'processing' | 'ready' | 'error'
+  documentCount?: number // Chunks the pipeline holds in its vector store
   lastProcessed?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+// Outcome of the most recent pipeline run, reported with the pipeline but never persisted
+export interface PipelineRunStats extends IngestionRunStats {
+  sources: Array<{ dataSourceId: string; chunks: number; embedded: number; failedChunks: number; error?: string }>
+  removedChunks: number
+}
+
+export interface RetrievedContext {
+  id: string
+  content: string
+  source: string
+  dataSourceId: string
+  rerankScore?: number
+}
+
+export type SearchMode = 'hybrid' | 'semantic' | 'keyword'
+
+export interface RetrievalFallback {
+  mode: 'fuzzy' | 'none' // What to try when search finds nothing
+  scanLimit?: number // Chunks scanned for fuzzy name matches
+  maxResults?: number
+}
+
+// An agent's recall/precision tradeoff; missing fields use DEFAULT_RETRIEVAL_SETTINGS
+export interface RetrievalSettings {
+  topK?: number // Chunks taken from each vector store and handed to the model
+  scoreThreshold?: number // Semantic matches farther than this distance are dropped
+  maxContextTokens?: number // Retrieved text is cut to roughly this budget
+  searchMode?: SearchMode
+  storeWeights?: Record<string, number> // Vector store ID -> weight when merging stores; 0 skips the store
+  fallback?: RetrievalFallback
+  filter?: MetadataFilter // Only chunks whose metadata matches are retrieved, e.g. { dataSourceId: '...' }
+  queryTransform?: QueryTransformSettings // Rewrites applied to the chat turn before searching
+}
+
+// Per-call overrides of the vector store's retrieval settings
+export interface RetrievalOptions extends Omit<RetrievalSettings, 'storeWeights' | 'maxContextTokens' | 'queryTransform'> {
+  rerank?: RerankConfig | null // null turns off the store's reranking for this call
+  embedText?: string // Embedded for semantic search in place of the query, e.g. a HyDE passage
+}
+
+// One of the searches behind a turn; the results of all of them are fused
+export interface RetrievalQuery {
+  text: string
+  embedText?: string
+}
+
 export interface Document {
   id: string
   content: string
   metadata: any
 }
 
+// Sources with an index to search and watch, even if some files or chunks are missing from it
+function isIndexed(status: DataSource['status']): boolean {
+  return status === 'ready' || status === 'partial'
+}
+
+// Whitespace and Unicode form differences don't change what a chunk says, so they share a cache entry
+function normalizeChunkText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+export const SEARCH_MODES: SearchMode[] = ['hybrid', 'semantic', 'keyword']
+
+export const DEFAULT_RETRIEVAL_SETTINGS = {
+  topK: 5,
+  scoreThreshold: 0.8,
+  searchMode: 'hybrid' as SearchMode,
+  fallback: { mode: 'fuzzy', scanLimit: 100, maxResults: 3 } as Required<RetrievalFallback>,
+}
+
+const HYBRID_CANDIDATES = 20 // Results taken from each of semantic and keyword search
+const DEFAULT_RERANK_CANDIDATES = 20
+const RRF_K = 60 // Damps the weight of top ranks, as in the original RRF paper
+const CHARS_PER_TOKEN = 4 // Rough English average, good enough for a context budget
+
+// Reciprocal rank fusion: each list contributes weight / (k + rank) for every record it holds
+function reciprocalRankFusion<T extends { id: string }>(lists: T[][], weights?: number[]): Array<T & { fusedScore: number }> {
+  const fused = new Map<string, T & { fusedScore: number }>()
+  for (const [i, list] of lists.entries()) {
+    list.forEach((record, rank) => {
+      const existing = fused.get(record.id)
+      const score = (weights?.[i] ?? 1) / (RRF_K + rank + 1)
+      if (existing) existing.fusedScore += score
+      else fused.set(record.id, { ...record, fusedScore: score })
+    })
+  }
+  return [...fused.values()].sort((a, b) => b.fusedScore - a.fusedScore)
+}
+
 // Singleton pattern for RagService
 let ragServiceInstance: RagService | null = null
 
@@ -66,18 +234,41 @@ export class RagService {
   private dataSources: Map<string, DataSource> = new Map()
   private vectorStores: Map<string, VectorStore> = new Map()
   private pipelines: Map<string, RagPipeline> = new Map()
-  private chromaClient: ChromaClient
-  private embeddings: OpenAIEmbeddings | null = null
+  // Adapters by vector store ID, rebuilt when a store's connection settings change
+  private vectorStoreAdapters: Map<string, VectorStoreAdapter> = new Map()
+  private embeddingModels: Map<string, EmbeddingModel> = new Map()
+  // Embedding clients by model ID; the default OpenAI client is cached under ''
+  private embeddingClients: Map<string, EmbeddingsInterface> = new Map()
   private databaseService: any
+  // Incremental cursors read during loading, committed once the run is stored
+  private pendingCursors: Map<string, Record<string, string | number>> = new Map()
+  private watchers: Map<string, DirectoryWatcher> = new Map()
+  private jobs: JobQueue
 
   constructor(databaseService: any) {
     this.databaseService = databaseService
-    this.chromaClient = new ChromaClient({
-      host: 'localhost',
-      port: 8000
+    this.jobs = new JobQueue(databaseService, {
+      datasource: (job, context) => this.autoProcessDataSource(job.targetId, context, job.options)
+        .finally(() => this.flushVectorStore(`datastore_${job.targetId}`)),
+      pipeline: (job, context) => this.processPipeline(job.targetId, context)
+        .finally(() => this.flushVectorStore(this.pipelines.get(job.targetId)?.vectorStore)),
+      reembed: (job, context) => this.processFailedChunks(job.targetId, context)
+        .finally(() => this.flushVectorStore(`datastore_${job.targetId}`)),
+      sync: (job, context) => this.syncWatchedFiles(job.targetId, (job.options?.paths as string[]) || [], context)
+        .finally(() => this.flushVectorStore(`datastore_${job.targetId}`)),
     })
   }
 
+  // In-process stores batch their disk writes; a finished job writes its store out at once
+  private async flushVectorStore(vectorStoreId?: string): Promise<void> {
+    const adapter = vectorStoreId ? this.vectorStoreAdapters.get(vectorStoreId) : undefined
+    try {
+      await adapter?.flush?.()
+    } catch (error) {
+      console.error(`Failed to save vector store ${vectorStoreId}:`, error)
+    }
+  }
+
   // Singleton getter
   static getInstance(databaseService?: any): RagService {
     if (!ragServiceInstance) {
@@ -93,20 +284,24 @@ export class RagService {
 
   private async initializeFromDatabase() {
     try {
+      for (const model of await this.loadEmbeddingModelsFromDatabase()) {
+        this.embeddingModels.set(model.id, model)
+      }
+
       // Load existing data sources from database
       const dataSources = await this.loadDataSourcesFromDatabase()
       for (const source of dataSources) {
         this.dataSources.set(source.id, source)
 
-        // If data source is ready, recreate its vector store
-        if (source.status === 'ready') {
+        // If data source is indexed, recreate its vector store
+        if (isIndexed(source.status)) {
           const vectorStoreId = `datastore_${source.id}`
           const vectorStore: VectorStore = {
             id: vectorStoreId,
             name: source.name,
-            provider: 'chromadb',
-            host: 'localhost',
-            port: 8000,
+            ...this.datastoreConnection(),
+            embeddingModel: source.embeddingModel,
+            rerank: source.config?.rerank,
             status: 'ready', // Assume ready if data source is ready
             vectorCount: source.documentCount || 0,
             createdAt: source.createdAt,
@@ -114,15 +309,81 @@ export class RagService {
           }
           this.vectorStores.set(vectorStoreId, vectorStore)
           console.log(`📦 Restored vector store ${vectorStoreId} for data source ${source.name}`)
+
+          this.startWatcher(source)
+        }
+      }
+
+      // Stores created through the API and pipelines' own stores, with their connection and rerank settings
+      for (const vectorStore of await this.loadVectorStoresFromDatabase()) {
+        this.vectorStores.set(vectorStore.id, vectorStore)
+        console.log(`📦 Restored vector store ${vectorStore.id} (${vectorStore.provider})`)
+      }
+
+      for (const pipeline of await this.loadPipelinesFromDatabase()) {
+        this.pipelines.set(pipeline.id, pipeline)
+
+        // Pipelines processed before their stores were saved get them recreated
+        if (pipeline.vectorStore === this.pipelineStoreId(pipeline.id) && pipeline.status !== 'configured'
+          && !this.vectorStores.has(pipeline.vectorStore)) {
+          this.vectorStores.set(pipeline.vectorStore, this.createPipelineStore(pipeline))
+          console.log(`📦 Restored vector store ${pipeline.vectorStore} for pipeline ${pipeline.name}`)
         }
       }
 
-      console.log(`🚀 RagService initialized with ${this.dataSources.size} data sources and ${this.vectorStores.size} vector stores`)
+      await this.loadLocalVectorStores()
+      await this.resumeJobs()
+
+      console.log(`🚀 RagService initialized with ${this.dataSources.size} data sources, ${this.pipelines.size} pipelines and ${this.vectorStores.size} vector stores`)
     } catch (error) {
       console.error('Failed to initialize RagService from database:', error)
     }
   }
 
+  // Runs cut short by a restart resume from their saved jobs. Sources and pipelines left queued
+  // or processing without a job, from before jobs were kept, are queued afresh.
+  private async resumeJobs(): Promise<void> {
+    const resumed = await this.jobs.start()
+    for (const job of resumed) {
+      const target = job.type === 'pipeline' ? this.pipelines.get(job.targetId) : this.dataSources.get(job.targetId)
+      console.log(`⏯️ Resuming ${job.type} job for "${target?.name ?? job.targetId}"`)
+    }
+
+    const interrupted = (status: string) => status === 'queued' || status === 'processing'
+    for (const source of this.dataSources.values()) {
+      if (interrupted(source.status) && !this.jobs.hasActiveJob(source.id)) await this.queueDataSource(source)
+    }
+    for (const pipeline of this.pipelines.values()) {
+      if (interrupted(pipeline.status) && !this.jobs.hasActiveJob(pipeline.id)) await this.queuePipeline(pipeline)
+    }
+  }
+
+  // Data source stores live in Chroma when CHROMA_URL is set, and in the embedded local store otherwise.
+  // RAG_VECTOR_STORE=local|chromadb overrides the choice.
+  private datastoreConnection(): Pick<VectorStore, 'provider' | 'host' | 'port'> {
+    const provider = process.env.RAG_VECTOR_STORE || (process.env.CHROMA_URL ? 'chromadb' : 'local')
+    if (provider === 'local') {
+      return { provider: 'local' }
+    }
+    if (provider !== 'chromadb') {
+      throw new Error(`RAG_VECTOR_STORE must be "local" or "chromadb", got "${provider}"`)
+    }
+    return { provider: 'chromadb', host: process.env.CHROMA_URL || 'http://localhost:8000' }
+  }
+
+  // Local indexes are read from disk at startup rather than on the first query
+  private async loadLocalVectorStores(): Promise<void> {
+    for (const store of this.vectorStores.values()) {
+      if (store.provider !== 'local') continue
+      try {
+        await this.getVectorStoreAdapter(store.id).load?.()
+      } catch (error) {
+        console.error(`Failed to load local vector store ${store.id}:`, error)
+        store.status = 'error'
+      }
+    }
+  }
+
   private async loadDataSourcesFromDatabase(): Promise<DataSource[]> {
     try {
       const { PrismaClient } = require('@prisma/client')
@@ -140,7 +401,9 @@ export class RagService {
         connectionString: source.connectionString || undefined,
         apiKey: source.apiKey || undefined,
         headers: source.headers as Record<string, string> || undefined,
-        status: source.status as 'configured' | 'processing' | 'ready' | 'error',
+        config: source.config as DataSourceConfig || undefined,
+        embeddingModel: source.embeddingModel || undefined,
+        status: source.status as DataSource['status'],
         documentCount: source.documentCount || undefined,
         lastIndexed: source.lastIndexed || undefined,
         createdAt: source.createdAt,
@@ -153,19 +416,209 @@ export class RagService {
   }
 
 
-  private getEmbeddings(): OpenAIEmbeddings {
-    if (!this.embeddings) {
+  private async loadPipelinesFromDatabase(): Promise<RagPipeline[]> {
+    try {
+      const dbPipelines = await this.databaseService.getAllRagPipelines()
+      return dbPipelines.map((pipeline: any) => ({
+        id: pipeline.id,
+        name: pipeline.name,
+        description: pipeline.description || '',
+        dataSources: pipeline.dataSources,
+        vectorStore: pipeline.vectorStore,
+        embeddingModel: pipeline.embeddingModel || undefined,
+        chunking: pipeline.chunking as ChunkingOptions || undefined,
+        status: pipeline.status as RagPipeline['status'],
+        documentCount: pipeline.documentCount ?? undefined,
+        lastProcessed: pipeline.lastProcessed || undefined,
+        createdAt: pipeline.createdAt,
+        updatedAt: pipeline.updatedAt,
+      }))
+    } catch (error) {
+      console.error('Failed to load pipelines from database:', error)
+      return []
+    }
+  }
+
+  private async loadVectorStoresFromDatabase(): Promise<VectorStore[]> {
+    try {
+      const dbStores = await this.databaseService.getAllRagVectorStores()
+      return dbStores.map((store: any) => ({
+        id: store.id,
+        name: store.name,
+        provider: store.provider as VectorStore['provider'],
+        host: store.host || undefined,
+        port: store.port ?? undefined,
+        apiKey: store.apiKey || undefined,
+        indexName: store.indexName || undefined,
+        distance: store.distance as VectorStore['distance'] || undefined,
+        rerank: store.rerank as RerankConfig || undefined,
+        embeddingModel: store.embeddingModel || undefined,
+        status: store.status as VectorStore['status'],
+        vectorCount: store.vectorCount ?? undefined,
+        createdAt: store.createdAt,
+        updatedAt: store.updatedAt,
+      }))
+    } catch (error) {
+      console.error('Failed to load vector stores from database:', error)
+      return []
+    }
+  }
+
+  private async loadEmbeddingModelsFromDatabase(): Promise<EmbeddingModel[]> {
+    try {
+      const dbModels = await this.databaseService.getAllRagEmbeddingModels()
+      return dbModels.map((model: any) => this.toEmbeddingModel(model))
+    } catch (error) {
+      console.error('Failed to load embedding models from database:', error)
+      return []
+    }
+  }
+
+  private toEmbeddingModel(model: any): EmbeddingModel {
+    return {
+      id: model.id,
+      name: model.name,
+      provider: model.provider,
+      modelName: model.modelName,
+      apiKey: model.apiKey || undefined,
+      endpoint: model.endpoint || undefined,
+      dimensions: model.dimensions,
+      status: model.status,
+      createdAt: model.createdAt,
+      updatedAt: model.updatedAt,
+    }
+  }
+
+  // Without a model ID this is the OpenAI model configured through OPENAI_API_KEY
+  private getEmbeddings(modelId?: string): EmbeddingsInterface {
+    const key = modelId || ''
+    let client = this.embeddingClients.get(key)
+    if (client) return client
+
+    if (modelId) {
+      const model = this.embeddingModels.get(modelId)
+      if (!model) {
+        throw new Error(`Embedding model ${modelId} not found`)
+      }
+      client = createEmbeddingProvider(model)
+    } else {
       const apiKey = process.env.OPENAI_API_KEY
       if (!apiKey) {
         throw new Error('OpenAI API key not found. Please set OPENAI_API_KEY environment variable.')
       }
-      this.embeddings = new OpenAIEmbeddings({ openAIApiKey: apiKey })
+      client = new OpenAIEmbeddings({ openAIApiKey: apiKey })
+    }
+
+    this.embeddingClients.set(key, client)
+    return client
+  }
+
+  private embeddingModelName(modelId?: string): string {
+    return modelId ? this.embeddingModels.get(modelId)?.name || modelId : 'OpenAI'
+  }
+
+  // Embedding Models
+  async createEmbeddingModel(data: Omit<EmbeddingModel, 'id' | 'status' | 'dimensions' | 'createdAt' | 'updatedAt'> & { dimensions?: number }): Promise<EmbeddingModel> {
+    if (!EMBEDDING_PROVIDERS.includes(data.provider)) {
+      throw new Error(`Unsupported embedding provider: ${data.provider}`)
+    }
+
+    const dbModel = await this.databaseService.createRagEmbeddingModel({
+      name: data.name,
+      provider: data.provider,
+      modelName: data.modelName,
+      apiKey: data.apiKey,
+      endpoint: data.endpoint,
+      dimensions: data.dimensions || 0,
+    })
+    const model = this.toEmbeddingModel(dbModel)
+    this.embeddingModels.set(model.id, model)
+
+    // Without declared dimensions, find them out from a real embedding
+    if (!data.dimensions) {
+      try {
+        return await this.testEmbeddingModel(model.id)
+      } catch {
+        return this.embeddingModels.get(model.id)!
+      }
+    }
+    return model
+  }
+
+  async getEmbeddingModels(): Promise<EmbeddingModel[]> {
+    return Array.from(this.embeddingModels.values())
+  }
+
+  async getEmbeddingModel(id: string): Promise<EmbeddingModel | null> {
+    return this.embeddingModels.get(id) || null
+  }
+
+  async updateEmbeddingModel(id: string, updates: Partial<EmbeddingModel>): Promise<EmbeddingModel | null> {
+    const model = this.embeddingModels.get(id)
+    if (!model) return null
+    if (updates.provider && !EMBEDDING_PROVIDERS.includes(updates.provider)) {
+      throw new Error(`Unsupported embedding provider: ${updates.provider}`)
+    }
+
+    const { name, provider, modelName, apiKey, endpoint, dimensions } = updates
+    const dbModel = await this.databaseService.updateRagEmbeddingModel(id, { name, provider, modelName, apiKey, endpoint, dimensions })
+    const updated = this.toEmbeddingModel(dbModel)
+    this.embeddingModels.set(id, updated)
+    this.embeddingClients.delete(id)
+    return updated
+  }
+
+  async deleteEmbeddingModel(id: string): Promise<boolean> {
+    if (!this.embeddingModels.has(id)) return false
+
+    const users = [
+      ...Array.from(this.dataSources.values()).filter(source => source.embeddingModel === id).map(source => source.name),
+      ...Array.from(this.pipelines.values()).filter(pipeline => pipeline.embeddingModel === id).map(pipeline => pipeline.name),
+      ...Array.from(this.vectorStores.values()).filter(store => store.embeddingModel === id && !store.id.startsWith('datastore_') && !store.id.startsWith('pipeline_')).map(store => store.name),
+    ]
+    if (users.length > 0) {
+      throw new Error(`Embedding model is still used by: ${users.join(', ')}`)
+    }
+
+    await this.databaseService.deleteRagEmbeddingModel(id)
+    this.embeddingModels.delete(id)
+    this.embeddingClients.delete(id)
+    return true
+  }
+
+  // Embeds a probe text to check the model is reachable and record its dimensions
+  async testEmbeddingModel(id: string): Promise<EmbeddingModel> {
+    const model = this.embeddingModels.get(id)
+    if (!model) {
+      throw new Error(`Embedding model ${id} not found`)
+    }
+
+    let updates: Partial<EmbeddingModel>
+    let failure: unknown = null
+    try {
+      const vector = await this.getEmbeddings(id).embedQuery('dimension probe')
+      updates = { status: 'ready', dimensions: vector.length }
+      console.log(`🧠 Embedding model "${model.name}" is ready (${vector.length} dimensions)`)
+    } catch (error) {
+      console.error(`Embedding model "${model.name}" failed its test:`, error)
+      updates = { status: 'error' }
+      failure = error
     }
-    return this.embeddings
+
+    const dbModel = await this.databaseService.updateRagEmbeddingModel(id, updates)
+    const updated = this.toEmbeddingModel(dbModel)
+    this.embeddingModels.set(id, updated)
+    if (failure) throw failure
+    return updated
   }
 
   // Data Sources
   async createDataSource(data: Omit<DataSource, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<DataSource> {
+    if (data.embeddingModel && !this.embeddingModels.has(data.embeddingModel)) {
+      throw new Error(`Embedding model ${data.embeddingModel} not found`)
+    }
+    this.validateDataSourceConfig(data.config)
+
     const id = uuidv4()
     const dataSource: DataSource = {
       id,
@@ -186,6 +639,8 @@ export class RagService {
         connectionString: dataSource.connectionString,
         apiKey: dataSource.apiKey,
         headers: dataSource.headers,
+        config: dataSource.config,
+        embeddingModel: dataSource.embeddingModel,
         status: dataSource.status,
         documentCount: dataSource.documentCount,
         lastIndexed: dataSource.lastIndexed,
@@ -199,28 +654,58 @@ export class RagService {
 
     this.dataSources.set(id, dataSource)
 
-    // Auto-process the data source immediately (async, don't block response)
-    setTimeout(() => this.autoProcessDataSource(id), 100)
+    // Process the data source in the background, once a job worker is free
+    await this.queueDataSource(dataSource)
 
     return dataSource
   }
 
-  private async autoProcessDataSource(sourceId: string) {
+  private async queueDataSource(source: DataSource, options?: { full?: boolean }): Promise<RagJob> {
+    const job = await this.jobs.enqueue('datasource', source.id, options)
+    if (job.status === 'queued' && source.status !== 'processing') {
+      await this.saveDataSourceStatus(source, 'queued')
+    }
+    return job
+  }
+
+  private async saveDataSourceStatus(source: DataSource, status: DataSource['status']): Promise<void> {
+    source.status = status
+    source.updatedAt = new Date()
     try {
-      const source = this.dataSources.get(sourceId)
-      if (!source || source.status === 'ready') return
+      await this.databaseService.updateRagDataSource(source.id, {
+        status: source.status,
+        updatedAt: source.updatedAt,
+      })
+    } catch (error) {
+      console.error('Failed to update data source status in database:', error)
+    }
+    this.publishDataSource(source)
+  }
 
-      source.status = 'processing'
-      source.updatedAt = new Date()
+  // Connection details stay out of the event; subscribers only need what changes during processing
+  private publishDataSource(source: DataSource): void {
+    const { id, name, status, documentCount, lastIndexed, lastRun, watcher } = source
+    eventBus.publish('datasource.updated', { id, name, status, documentCount, lastIndexed, lastRun, watcher })
+  }
+
+  // Runs as a job; failures and cancellation are recorded on the source and rethrown for the job.
+  // `full` drops the collection and stored file hashes first so everything is re-indexed.
+  private async autoProcessDataSource(sourceId: string, job?: JobContext, options: { full?: boolean } = {}) {
+    const source = this.dataSources.get(sourceId)
+    if (!source) throw new Error(`Data source ${sourceId} not found`)
+
+    try {
+      await this.saveDataSourceStatus(source, 'processing')
+      if (options.full) await this.clearDataSourceIndex(sourceId)
 
       // Create a vector store for this data source
       const vectorStoreId = `datastore_${sourceId}`
       const vectorStore: VectorStore = {
         id: vectorStoreId,
         name: source.name,
-        provider: 'chromadb',
-        host: 'localhost',
-        port: 8000,
+        ...this.datastoreConnection(),
+        embeddingModel: source.embeddingModel,
+        rerank: source.config?.rerank,
         status: 'ready',
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -229,22 +714,52 @@ export class RagService {
 
       // Load and process the data
       console.log(`🔄 Processing data source "${source.name}"...`)
-      const documents = await this.loadDocuments([sourceId])
-      console.log(`   📄 Loaded ${documents.length} documents from ${source.path}`)
-
-      const chunks = await this.chunkDocuments(documents)
-      console.log(`   ✂️  Created ${chunks.length} text chunks for embedding`)
-
-      const embeddings = await this.generateEmbeddings(chunks)
-      console.log(`   🧠 Generated ${embeddings.length} embeddings using OpenAI`)
-
-      // Store in the data source's vector store
-      await this.storeEmbeddings(embeddings, vectorStoreId)
+      let chunkCount = 0
+      let embeddingCount = 0
+      const run: IngestionRunStats = { embeddingCacheHits: 0, embeddingCacheMisses: 0, failedFiles: 0, failedChunks: 0 }
+
+      if (source.type === 'file' || source.type === 'directory') {
+        const stats = await this.indexFileSource(source, vectorStoreId, run, job)
+        chunkCount = stats.chunks
+        embeddingCount = stats.embeddings
+      } else {
+        // A load that fails throws rather than coming back empty, which would clear the source's chunks
+        const documents = await this.loadSourceDocuments(source)
+        job?.advance('loaded', documents.length)
+        console.log(`   📄 Loaded ${documents.length} documents from ${source.url || `${source.type} source`}`)
+
+        job?.signal.throwIfAborted()
+        const chunks = await this.chunkDocuments(documents, source.config?.chunking, source.embeddingModel)
+        this.assignChunkIdsBySource(chunks, sourceId)
+        job?.advance('chunked', chunks.length)
+        console.log(`   ✂️  Created ${chunks.length} text chunks for embedding`)
+
+        // Chunks already stored keep their vectors; stored chunks of what was read again but not produced now go
+        const store = this.getVectorStoreAdapter(vectorStoreId)
+        const { existingIds, removed } = await this.replaceRereadChunks(source, chunks, store)
+        const newChunks = chunks.filter(chunk => !existingIds.has(chunk.id))
+        console.log(`   ♻️  ${chunks.length - newChunks.length} chunks unchanged, ${removed} removed`)
+
+        const failed: FailedEmbedding[] = []
+        const embeddings = await this.generateEmbeddings(newChunks, source.embeddingModel, run, job, failed)
+        console.log(`   🧠 Generated ${embeddings.length} embeddings using ${this.embeddingModelName(source.embeddingModel)}`)
+
+        // Store in the data source's vector store
+        await this.storeEmbeddings(embeddings, vectorStoreId)
+        job?.advance('stored', embeddings.length)
+        await this.commitDatabaseCursors(sourceId)
+        // Incremental database runs don't read rows again, so their earlier failures stay until re-embedded
+        await this.recordChunkFailures(sourceId, null, failed, undefined, source.type !== 'database')
+
+        chunkCount = chunks.length
+        embeddingCount = embeddings.length
+      }
 
       // Update source status
-      source.status = 'ready'
-      source.documentCount = chunks.length
+      source.status = await this.hasIngestionFailures(sourceId) ? 'partial' : 'ready'
+      source.documentCount = vectorStore.vectorCount ?? embeddingCount
       source.lastIndexed = new Date()
+      source.lastRun = { ...run, finishedAt: source.lastIndexed }
       source.updatedAt = new Date()
 
       // Save updated data source to database
@@ -259,44 +774,198 @@ export class RagService {
         console.error('Failed to update data source in database:', error)
       }
 
+      this.startWatcher(source)
+      this.publishDataSource(source)
+
+      if (source.status === 'partial') {
+        console.warn(`⚠️ Data source "${source.name}" processed with ${run.failedFiles} failed files and ${run.failedChunks} failed chunks`)
+      }
       console.log(`✅ SUCCESS: Data source "${source.name}" processed!`)
       console.log(`   - Vector Store ID: ${vectorStoreId}`)
-      console.log(`   - Chunks created: ${chunks.length}`)
-      console.log(`   - Embeddings generated: ${embeddings.length}`)
-      console.log(`   - ChromaDB collection: rag_${vectorStoreId}`)
+      console.log(`   - Chunks created: ${chunkCount}`)
+      console.log(`   - Embeddings generated: ${embeddingCount}`)
+      console.log(`   - Embedding cache: ${run.embeddingCacheHits} hits, ${run.embeddingCacheMisses} misses`)
+      console.log(`   - ${vectorStore.provider} collection: ${vectorStore.indexName || `rag_${vectorStoreId}`}`)
 
     } catch (error) {
-      const source = this.dataSources.get(sourceId)
-      if (source) {
-        source.status = 'error'
-        source.updatedAt = new Date()
+      if (job?.signal.aborted) {
+        // What was stored so far stays; the next run carries on from it
+        await this.saveDataSourceStatus(source, await this.indexedStatus(source))
+        console.log(`⏹️ Processing of data source "${source.name}" was cancelled`)
+      } else {
+        await this.saveDataSourceStatus(source, 'error')
+        console.error(`Failed to auto-process data source ${sourceId}:`, error)
+      }
+      throw error
+    }
+  }
 
-        // Save error status to database
-        try {
-          await this.databaseService.updateRagDataSource(source.id, {
-            status: source.status,
-            updatedAt: source.updatedAt,
-          })
-        } catch (dbError) {
-          console.error('Failed to update data source error status in database:', dbError)
+  private async clearDataSourceIndex(sourceId: string): Promise<void> {
+    const vectorStoreId = `datastore_${sourceId}`
+    try {
+      if (this.vectorStores.has(vectorStoreId)) await this.getVectorStoreAdapter(vectorStoreId).drop()
+    } catch (error) {
+      console.warn(`No collection to clear for data source ${sourceId}:`, error)
+    }
+    try {
+      await this.databaseService.deleteRagIndexedFiles(sourceId)
+      await this.databaseService.deleteRagIngestionFailures(sourceId)
+      await this.databaseService.setSetting(`rag_cursor_${sourceId}`, '{}', 'json')
+    } catch (error) {
+      console.error('Failed to clear index state for full re-index:', error)
+    }
+  }
+
+  // Re-indexes only changed files unless `full` is set, which drops the collection and stored file hashes first
+  async retryDataSourceProcessing(sourceId: string, full = false): Promise<RagJob | null> {
+    const source = this.dataSources.get(sourceId)
+    if (!source) return null
+
+    return this.queueDataSource(source, full ? { full } : undefined)
+  }
+
+  async getIngestionFailures(sourceId: string): Promise<IngestionFailure[] | null> {
+    if (!this.dataSources.has(sourceId)) return null
+
+    const records = await this.databaseService.getRagIngestionFailures(sourceId)
+    return records.map((record: any) => ({
+      id: record.id,
+      kind: record.kind,
+      path: record.path ?? undefined,
+      chunkId: record.chunkId ?? undefined,
+      preview: record.content?.slice(0, FAILURE_PREVIEW_LENGTH),
+      error: record.error,
+      attempts: record.attempts,
+      updatedAt: record.updatedAt,
+    }))
+  }
+
+  // Queues a job that embeds and stores only the chunks recorded as failed
+  async reembedFailedChunks(sourceId: string): Promise<RagJob | null> {
+    const source = this.dataSources.get(sourceId)
+    if (!source) return null
+    if (!isIndexed(source.status)) {
+      throw new Error('Failed chunks can only be re-embedded once the data source has been indexed')
+    }
+    if (await this.databaseService.countRagIngestionFailures(sourceId, { kind: 'chunk' }) === 0) {
+      throw new Error('Data source has no failed chunks')
+    }
+    return this.jobs.enqueue('reembed', sourceId)
+  }
+
+  // Runs as a job. Chunks that embed now are stored and their failures deleted; the rest keep
+  // their failure with the new error. A file whose chunks are all stored is recorded as indexed.
+  private async processFailedChunks(sourceId: string, job?: JobContext): Promise<void> {
+    const source = this.dataSources.get(sourceId)
+    if (!source) throw new Error(`Data source ${sourceId} not found`)
+
+    const failures = (await this.databaseService.getRagIngestionFailures(sourceId)).filter((failure: any) => failure.kind === 'chunk')
+    if (failures.length === 0) return
+
+    await this.saveDataSourceStatus(source, 'processing')
+    try {
+      const vectorStoreId = `datastore_${sourceId}`
+      const store = this.getVectorStoreAdapter(vectorStoreId)
+      const chunks: Document[] = failures.map((failure: any) => ({ id: failure.chunkId, content: failure.content, metadata: failure.metadata }))
+      job?.advance('chunked', chunks.length)
+
+      const run: IngestionRunStats = { embeddingCacheHits: 0, embeddingCacheMisses: 0, failedFiles: 0, failedChunks: 0 }
+      const failed: FailedEmbedding[] = []
+      const embeddings = await this.generateEmbeddings(chunks, source.embeddingModel, run, job, failed)
+      await this.storeEmbeddings(embeddings, vectorStoreId)
+      job?.advance('stored', embeddings.length)
+
+      const errors = new Map(failed.map(({ chunk, error }) => [chunk.id, error]))
+      for (const failure of failures.filter((failure: any) => errors.has(failure.chunkId))) {
+        await this.databaseService.updateRagIngestionFailure(failure.id, { error: errors.get(failure.chunkId), attempts: failure.attempts + 1 })
+      }
+      await this.databaseService.deleteRagIngestionFailures(sourceId, {
+        id: { in: failures.filter((failure: any) => !errors.has(failure.chunkId)).map((failure: any) => failure.id) },
+      })
+
+      const remaining: Array<{ path: string | null }> = await this.databaseService.getRagIngestionFailures(sourceId)
+      const completedFiles = new Map<string, string>()
+      for (const failure of failures) {
+        if (failure.path && failure.indexHash && !remaining.some(other => other.path === failure.path)) {
+          completedFiles.set(failure.path, failure.indexHash)
         }
       }
-      console.error(`Failed to auto-process data source ${sourceId}:`, error)
+      for (const [file, indexHash] of completedFiles) {
+        await this.databaseService.upsertRagIndexedFile(sourceId, file, {
+          contentHash: indexHash,
+          chunkCount: (await store.get({ where: { source: file } })).length,
+          indexedAt: new Date(),
+        })
+      }
+
+      await this.refreshVectorCount(vectorStoreId, store)
+      source.documentCount = this.vectorStores.get(vectorStoreId)?.vectorCount ?? source.documentCount
+      source.lastRun = { ...run, finishedAt: new Date() }
+      source.status = remaining.length > 0 ? 'partial' : 'ready'
+      source.updatedAt = new Date()
+      await this.databaseService.updateRagDataSource(sourceId, {
+        status: source.status,
+        documentCount: source.documentCount,
+        updatedAt: source.updatedAt,
+      })
+      this.publishDataSource(source)
+      console.log(`🩹 Re-embedded ${embeddings.length} of ${failures.length} failed chunks for data source "${source.name}"`)
+    } catch (error) {
+      // Chunks stored before the error stay, and their failures are still recorded for the next attempt
+      await this.saveDataSourceStatus(source, await this.indexedStatus(source))
+      throw error
     }
   }
 
-  async retryDataSourceProcessing(sourceId: string): Promise<boolean> {
-    const source = this.dataSources.get(sourceId)
-    if (!source) return false
+  // Where a source rests when no job is working on it
+  private async indexedStatus(source: DataSource): Promise<DataSource['status']> {
+    if (!source.lastIndexed) return 'configured'
+    return await this.hasIngestionFailures(source.id) ? 'partial' : 'ready'
+  }
 
-    // Reset status to configured so it will be processed again
-    source.status = 'configured'
-    source.updatedAt = new Date()
+  private async hasIngestionFailures(sourceId: string): Promise<boolean> {
+    try {
+      return await this.databaseService.countRagIngestionFailures(sourceId) > 0
+    } catch (error) {
+      console.error(`Failed to count ingestion failures of data source ${sourceId}:`, error)
+      return false
+    }
+  }
 
-    // Trigger auto-processing
-    setTimeout(() => this.autoProcessDataSource(sourceId), 100)
+  // Failure records are best effort like the embedding cache; losing one only hides it from the report
+  private async recordFileFailure(sourceId: string, file: string, error: unknown): Promise<void> {
+    try {
+      await this.databaseService.deleteRagIngestionFailures(sourceId, { path: file })
+      await this.databaseService.createRagIngestionFailures([{
+        dataSourceId: sourceId,
+        kind: 'file',
+        path: file,
+        error: error instanceof Error ? error.message : String(error),
+      }])
+    } catch (recordError) {
+      console.error(`Failed to record failure of file ${file}:`, recordError)
+    }
+  }
 
-    return true
+  // Replaces the failures recorded for `file` (or for the source's non-file chunks when null)
+  // with `failed`; with `replace` off they are added to the ones already recorded
+  private async recordChunkFailures(sourceId: string, file: string | null, failed: FailedEmbedding[], indexHash?: string, replace = true): Promise<void> {
+    try {
+      if (replace) await this.databaseService.deleteRagIngestionFailures(sourceId, { path: file })
+      if (failed.length === 0) return
+      await this.databaseService.createRagIngestionFailures(failed.map(({ chunk, error }) => ({
+        dataSourceId: sourceId,
+        kind: 'chunk',
+        path: file,
+        chunkId: chunk.id,
+        content: chunk.content,
+        metadata: chunk.metadata,
+        indexHash,
+        error,
+      })))
+    } catch (error) {
+      console.error(`Failed to record failed chunks of data source ${sourceId}:`, error)
+    }
   }
 
   getDataSource(id: string): DataSource | null {
@@ -307,41 +976,98 @@ export class RagService {
     return this.vectorStores.get(id) || null
   }
 
-  getChromaClient(): ChromaClient {
-    return this.chromaClient
+  // Adapters are created on first use from the store's own connection settings
+  private getVectorStoreAdapter(vectorStoreId: string): VectorStoreAdapter {
+    const cached = this.vectorStoreAdapters.get(vectorStoreId)
+    if (cached) return cached
+
+    const vectorStore = this.vectorStores.get(vectorStoreId)
+    if (!vectorStore) {
+      throw new Error(`Vector store ${vectorStoreId} not found`)
+    }
+    const adapter = createVectorStoreAdapter(vectorStore, `rag_${vectorStoreId}`)
+    this.vectorStoreAdapters.set(vectorStoreId, adapter)
+    return adapter
+  }
+
+  async getVectorCount(vectorStoreId: string): Promise<number> {
+    const count = await this.getVectorStoreAdapter(vectorStoreId).count()
+    const vectorStore = this.vectorStores.get(vectorStoreId)
+    if (vectorStore) vectorStore.vectorCount = count
+    return count
   }
 
   async getDataSources(): Promise<DataSource[]> {
     return Array.from(this.dataSources.values())
   }
 
+  // Saves the changed settings and queues a re-index when they change what is loaded or how it is
+  // chunked; a different embedding model drops the old vectors first
   async updateDataSource(id: string, updates: Partial<DataSource>): Promise<DataSource | null> {
     const dataSource = this.dataSources.get(id)
     if (!dataSource) return null
+    if (updates.embeddingModel && !this.embeddingModels.has(updates.embeddingModel)) {
+      throw new Error(`Embedding model ${updates.embeddingModel} not found`)
+    }
+    this.validateDataSourceConfig(updates.config)
 
-    const updated = { ...dataSource, ...updates, updatedAt: new Date() }
-    this.dataSources.set(id, updated)
-    return updated
+    const changes: Partial<DataSource> = {}
+    for (const field of EDITABLE_DATA_SOURCE_FIELDS) {
+      if (field in updates) Object.assign(changes, { [field]: updates[field] })
+    }
+    const previous = { ...dataSource }
+    Object.assign(dataSource, changes, { updatedAt: new Date() })
+    await this.databaseService.updateRagDataSource(id, { ...changes, updatedAt: dataSource.updatedAt })
+
+    const changed = (before: unknown, after: unknown) => JSON.stringify(before) !== JSON.stringify(after)
+    const modelChanged = (previous.embeddingModel || undefined) !== (dataSource.embeddingModel || undefined)
+    const reindex = modelChanged
+      || REINDEXED_DATA_SOURCE_FIELDS.some(field => changed(previous[field], dataSource[field]))
+      || REINDEXED_CONFIG_KEYS.some(key => changed(previous.config?.[key], dataSource.config?.[key]))
+
+    const datastore = this.vectorStores.get(`datastore_${id}`)
+    if (datastore) datastore.rerank = dataSource.config?.rerank
+    if (changed(previous.config?.watch, dataSource.config?.watch) || previous.path !== dataSource.path) {
+      await this.stopWatcher(id)
+      this.startWatcher(dataSource)
+    }
+
+    if (reindex) {
+      await this.queueDataSource(dataSource, modelChanged ? { full: true } : undefined)
+    }
+    return dataSource
+  }
+
+  private validateDataSourceConfig(config?: DataSourceConfig): void {
+    if (config?.aliases !== undefined) validateAliases(config.aliases)
+    if (config?.chunking !== undefined) validateChunkingOptions(config.chunking, 'Data source')
   }
 
   async deleteDataSource(id: string): Promise<boolean> {
     const dataSource = this.dataSources.get(id)
     if (!dataSource) return false
 
+    await this.jobs.cancelTarget(id)
+    await this.stopWatcher(id)
+    await this.removeSourceFromPipelines(id)
+
     // Delete associated vector store from ChromaDB
     const vectorStoreId = `datastore_${id}`
     try {
-      await this.chromaClient.deleteCollection({ name: `rag_${vectorStoreId}` })
-      console.log(`🗑️ Deleted ChromaDB collection: rag_${vectorStoreId}`)
+      await this.getVectorStoreAdapter(vectorStoreId).drop()
+      console.log(`🗑️ Deleted vector collection: rag_${vectorStoreId}`)
     } catch (error) {
-      console.warn(`Failed to delete ChromaDB collection rag_${vectorStoreId}:`, error)
+      console.warn(`Failed to delete vector collection rag_${vectorStoreId}:`, error)
     }
 
     // Delete associated vector store from memory
     this.vectorStores.delete(vectorStoreId)
+    this.vectorStoreAdapters.delete(vectorStoreId)
 
     // Delete from database
     try {
+      await this.databaseService.deleteRagIndexedFiles(id)
+      await this.databaseService.deleteRagIngestionFailures(id)
       await this.databaseService.deleteRagDataSource(id)
     } catch (error) {
       console.error('Failed to delete data source from database:', error)
@@ -352,35 +1078,587 @@ export class RagService {
   }
 
 
-  // Vector Stores
-  async createVectorStore(data: Omit<VectorStore, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<VectorStore> {
-    const id = uuidv4()
-    const store: VectorStore = {
-      id,
-      ...data,
-      status: 'configured',
-      createdAt: new Date(),
-      updatedAt: new Date(),
+  // Directory watching
+  async setDataSourceWatch(id: string, enabled: boolean): Promise<DataSource | null> {
+    const source = this.dataSources.get(id)
+    if (!source) return null
+    if (source.type !== 'directory') {
+      throw new Error('Only directory data sources can be watched')
     }
-    this.vectorStores.set(id, store)
-    return store
-  }
 
-  async getVectorStores(): Promise<VectorStore[]> {
-    return Array.from(this.vectorStores.values())
+    source.config = { ...source.config, watch: { ...source.config?.watch, enabled } }
+    source.updatedAt = new Date()
+    await this.databaseService.updateRagDataSource(id, { config: source.config, updatedAt: source.updatedAt })
+
+    if (enabled) {
+      this.startWatcher(source)
+    } else {
+      await this.stopWatcher(id)
+    }
+    return source
   }
 
-  async updateVectorStore(id: string, updates: Partial<VectorStore>): Promise<VectorStore | null> {
+  // Aliases apply at query time, so changing them needs no re-indexing
+  async setDataSourceAliases(id: string, aliases: AliasEntry[]): Promise<DataSource | null> {
+    const source = this.dataSources.get(id)
+    if (!source) return null
+    validateAliases(aliases)
+
+    source.config = { ...source.config, aliases: aliases.map(entry => ({ term: entry.term.trim(), aliases: entry.aliases.map(alias => alias.trim()) })) }
+    source.updatedAt = new Date()
+    await this.databaseService.updateRagDataSource(id, { config: source.config, updatedAt: source.updatedAt })
+    return source
+  }
+
+  private startWatcher(source: DataSource) {
+    if (source.type !== 'directory' || !source.path || !source.config?.watch?.enabled) return
+    if (!isIndexed(source.status) || this.watchers.has(source.id)) return
+
+    const watcher = new DirectoryWatcher(
+      source.path,
+      SUPPORTED_FILE_EXTENSIONS,
+      changedPaths => this.queueWatchedFiles(source, changedPaths),
+      source.config.watch.debounceMs
+    )
+    watcher.start(error => {
+      console.error(`👀 Watcher for data source "${source.name}" failed:`, error)
+      source.watcher = { ...source.watcher, status: 'error', error: error instanceof Error ? error.message : String(error) }
+      this.publishDataSource(source)
+    })
+
+    this.watchers.set(source.id, watcher)
+    source.watcher = { status: 'watching', lastSyncAt: source.watcher?.lastSyncAt || source.lastIndexed }
+    console.log(`👀 Watching ${source.path} for data source "${source.name}"`)
+  }
+
+  private async stopWatcher(id: string) {
+    const watcher = this.watchers.get(id)
+    if (!watcher) return
+
+    await watcher.stop()
+    this.watchers.delete(id)
+
+    const source = this.dataSources.get(id)
+    if (source) {
+      source.watcher = { ...source.watcher, status: 'stopped' }
+    }
+  }
+
+  // Changes go through the job queue like any other run, so they wait for a job already working
+  // on the source. Paths join those of a sync job that has not started yet.
+  private async queueWatchedFiles(source: DataSource, changedPaths: string[]): Promise<void> {
+    const [waiting] = this.jobs.getJobs({ type: 'sync', targetId: source.id, status: 'queued' })
+    const queuedPaths = (waiting?.options?.paths as string[]) || []
+    try {
+      await this.jobs.enqueue('sync', source.id, { paths: Array.from(new Set([...queuedPaths, ...changedPaths])) })
+    } catch (error) {
+      console.error(`Failed to queue watched changes for data source "${source.name}":`, error)
+      source.watcher = { ...source.watcher, status: 'error', error: error instanceof Error ? error.message : String(error) }
+      this.publishDataSource(source)
+    }
+  }
+
+  // Re-indexes just the files the watcher reported, leaving every other chunk alone. A source
+  // that isn't indexed has a full run queued or failed, and that run reads every file anyway.
+  private async syncWatchedFiles(sourceId: string, changedPaths: string[], job?: JobContext): Promise<void> {
+    const source = this.dataSources.get(sourceId)
+    if (!source || !isIndexed(source.status)) return
+
+    const vectorStoreId = `datastore_${sourceId}`
+    console.log(`👀 Syncing ${changedPaths.length} changed files for data source "${source.name}"`)
+
+    try {
+      const indexedFiles: Array<{ path: string; contentHash: string }> = await this.databaseService.getRagIndexedFiles(sourceId)
+      const knownHashes = new Map(indexedFiles.map(file => [file.path, file.contentHash]))
+      const store = this.getVectorStoreAdapter(vectorStoreId)
+
+      const run: IngestionRunStats = { embeddingCacheHits: 0, embeddingCacheMisses: 0, failedFiles: 0, failedChunks: 0 }
+      for (const file of changedPaths) {
+        job?.signal.throwIfAborted()
+        try {
+          if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+            await this.indexFile(source, vectorStoreId, store, file, knownHashes.get(file), run, job)
+          } else {
+            await this.removeIndexedFile(source, store, file)
+          }
+        } catch (error) {
+          if (job?.signal.aborted) throw error
+          console.error(`Failed to sync file ${file}:`, error)
+          run.failedFiles++
+          await this.recordFileFailure(sourceId, file, error)
+        }
+      }
+
+      await this.refreshVectorCount(vectorStoreId, store)
+
+      const now = new Date()
+      source.documentCount = this.vectorStores.get(vectorStoreId)?.vectorCount ?? source.documentCount
+      source.lastIndexed = now
+      source.updatedAt = now
+      source.watcher = { status: 'watching', lastSyncAt: now }
+      source.lastRun = { ...run, finishedAt: now }
+      source.status = await this.indexedStatus(source)
+      console.log(`   💾 Embedding cache: ${run.embeddingCacheHits} hits, ${run.embeddingCacheMisses} misses`)
+
+      await this.databaseService.updateRagDataSource(sourceId, {
+        status: source.status,
+        documentCount: source.documentCount,
+        lastIndexed: source.lastIndexed,
+        updatedAt: source.updatedAt,
+      })
+    } catch (error) {
+      if (job?.signal.aborted) {
+        this.publishDataSource(source)
+        throw error
+      }
+      console.error(`Failed to sync watched files for data source ${sourceId}:`, error)
+      source.watcher = { ...source.watcher, status: 'error', error: error instanceof Error ? error.message : String(error) }
+    }
+    this.publishDataSource(source)
+  }
+
+  // Vector Stores
+  async createVectorStore(data: Omit<VectorStore, 'id' | 'status' | 'createdAt' | 'updatedAt'>): Promise<VectorStore> {
+    this.validateRerank(data.rerank)
+    const id = uuidv4()
+    const store: VectorStore = {
+      id,
+      ...data,
+      status: 'configured',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+
+    try {
+      await this.databaseService.createRagVectorStore({ id: store.id, ...this.vectorStoreRecord(store) })
+    } catch (error) {
+      console.error('Failed to save vector store to database:', error)
+      throw error
+    }
+
+    this.vectorStores.set(id, store)
+    return store
+  }
+
+  // A data source's store is rebuilt from the source at startup; every other store is saved
+  private isSavedVectorStore(id: string): boolean {
+    return !id.startsWith('datastore_')
+  }
+
+  private async saveVectorStore(store: VectorStore): Promise<void> {
+    if (!this.isSavedVectorStore(store.id)) return
+    try {
+      await this.databaseService.upsertRagVectorStore(store.id, this.vectorStoreRecord(store))
+    } catch (error) {
+      console.error(`Failed to save vector store ${store.id} to database:`, error)
+    }
+  }
+
+  private vectorStoreRecord(store: VectorStore) {
+    return {
+      name: store.name,
+      provider: store.provider,
+      host: store.host ?? null,
+      port: store.port ?? null,
+      apiKey: store.apiKey ?? null,
+      indexName: store.indexName ?? null,
+      distance: store.distance ?? null,
+      rerank: store.rerank ?? null,
+      embeddingModel: store.embeddingModel ?? null,
+      status: store.status,
+      vectorCount: store.vectorCount ?? null,
+      createdAt: store.createdAt,
+      updatedAt: store.updatedAt,
+    }
+  }
+
+  private validateRerank(rerank?: RerankConfig): void {
+    if (rerank && !RERANK_PROVIDERS.includes(rerank.provider)) {
+      throw new Error(`Unsupported rerank provider: ${rerank.provider}`)
+    }
+  }
+
+  async getVectorStores(): Promise<VectorStore[]> {
+    return Array.from(this.vectorStores.values())
+  }
+
+  async updateVectorStore(id: string, updates: Partial<VectorStore>): Promise<VectorStore | null> {
     const store = this.vectorStores.get(id)
     if (!store) return null
+    this.validateRerank(updates.rerank)
 
-    const updated = { ...store, ...updates, updatedAt: new Date() }
+    const updated = { ...store, ...updates, id, updatedAt: new Date() }
     this.vectorStores.set(id, updated)
+    this.vectorStoreAdapters.delete(id)
+    await this.saveVectorStore(updated)
+
+    // A data source's store is recreated from the source, so its rerank settings are kept there
+    const source = id.startsWith('datastore_') ? this.dataSources.get(id.slice('datastore_'.length)) : undefined
+    if (source && 'rerank' in updates) {
+      source.config = { ...source.config, rerank: updates.rerank || undefined }
+      source.updatedAt = new Date()
+      await this.databaseService.updateRagDataSource(source.id, { config: source.config, updatedAt: source.updatedAt })
+    }
     return updated
   }
 
   async deleteVectorStore(id: string): Promise<boolean> {
-    return this.vectorStores.delete(id)
+    const users = Array.from(this.pipelines.values()).filter(pipeline => pipeline.vectorStore === id)
+    if (users.length > 0) {
+      throw new Error(`Vector store is the target of pipelines: ${users.map(pipeline => pipeline.name).join(', ')}`)
+    }
+    this.vectorStoreAdapters.delete(id)
+    if (!this.vectorStores.delete(id)) return false
+
+    if (this.isSavedVectorStore(id)) {
+      await this.databaseService.deleteRagVectorStore(id)
+        .catch((error: unknown) => console.error(`Failed to delete vector store ${id} from database:`, error))
+    }
+    return true
+  }
+
+
+  // Pipelines
+  async createPipeline(data: Pick<RagPipeline, 'name' | 'dataSources'> & Partial<Pick<RagPipeline, 'description' | 'vectorStore' | 'embeddingModel' | 'chunking'>>): Promise<RagPipeline> {
+    const id = uuidv4()
+    const pipeline: RagPipeline = {
+      id,
+      name: data.name,
+      description: data.description || '',
+      dataSources: data.dataSources,
+      vectorStore: data.vectorStore || this.pipelineStoreId(id),
+      embeddingModel: data.embeddingModel || undefined,
+      chunking: data.chunking || undefined,
+      status: 'configured',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }
+    this.validatePipeline(pipeline)
+
+    await this.databaseService.createRagPipeline({
+      id: pipeline.id,
+      name: pipeline.name,
+      description: pipeline.description,
+      dataSources: pipeline.dataSources,
+      vectorStore: pipeline.vectorStore,
+      embeddingModel: pipeline.embeddingModel,
+      chunking: pipeline.chunking,
+      status: pipeline.status,
+      createdAt: pipeline.createdAt,
+      updatedAt: pipeline.updatedAt,
+    })
+    this.pipelines.set(id, pipeline)
+    return pipeline
+  }
+
+  async getPipelines(): Promise<RagPipeline[]> {
+    return Array.from(this.pipelines.values())
+  }
+
+  getPipeline(id: string): RagPipeline | null {
+    return this.pipelines.get(id) || null
+  }
+
+  // Changing the target store or embedding model clears what the pipeline stored, since the old
+  // vectors can't be mixed with new ones; either way the pipeline has to run again
+  async updatePipeline(id: string, updates: Partial<RagPipeline>): Promise<RagPipeline | null> {
+    const pipeline = this.pipelines.get(id)
+    if (!pipeline) return null
+    if (pipeline.status === 'queued' || pipeline.status === 'processing') {
+      throw new Error('Pipeline is running; wait for the run to finish before changing it')
+    }
+
+    const { name, description, dataSources, vectorStore, embeddingModel, chunking } = updates
+    const updated: RagPipeline = {
+      ...pipeline,
+      ...(name !== undefined ? { name } : {}),
+      ...(description !== undefined ? { description } : {}),
+      ...(dataSources !== undefined ? { dataSources } : {}),
+      ...(vectorStore !== undefined ? { vectorStore: vectorStore || this.pipelineStoreId(id) } : {}),
+      ...('embeddingModel' in updates ? { embeddingModel: embeddingModel || undefined } : {}),
+      ...('chunking' in updates ? { chunking: chunking || undefined } : {}),
+      updatedAt: new Date(),
+    }
+    this.validatePipeline(updated)
+
+    if (updated.vectorStore !== pipeline.vectorStore || updated.embeddingModel !== pipeline.embeddingModel) {
+      await this.clearPipelineChunks(pipeline)
+      updated.documentCount = 0
+    }
+    const needsRun = ['dataSources', 'vectorStore', 'embeddingModel', 'chunking']
+      .some(field => JSON.stringify(updated[field as keyof RagPipeline]) !== JSON.stringify(pipeline[field as keyof RagPipeline]))
+    if (needsRun) updated.status = 'configured'
+
+    await this.databaseService.updateRagPipeline(id, {
+      name: updated.name,
+      description: updated.description,
+      dataSources: updated.dataSources,
+      vectorStore: updated.vectorStore,
+      embeddingModel: updated.embeddingModel ?? null,
+      chunking: updated.chunking ?? null,
+      status: updated.status,
+      documentCount: updated.documentCount,
+      updatedAt: updated.updatedAt,
+    })
+    this.pipelines.set(id, updated)
+    return updated
+  }
+
+  async deletePipeline(id: string): Promise<boolean> {
+    const pipeline = this.pipelines.get(id)
+    if (!pipeline) return false
+
+    await this.jobs.cancelTarget(id)
+    await this.clearPipelineChunks(pipeline)
+    await this.databaseService.deleteRagPipeline(id)
+    return this.pipelines.delete(id)
+  }
+
+  // Queues a run; progress shows in the job, and the outcome in the pipeline's status and lastRun
+  async runPipeline(id: string): Promise<RagJob | null> {
+    const pipeline = this.pipelines.get(id)
+    if (!pipeline) return null
+    if (pipeline.status === 'queued' || pipeline.status === 'processing') {
+      throw new Error('Pipeline is already running')
+    }
+    this.validatePipeline(pipeline)
+
+    return this.queuePipeline(pipeline)
+  }
+
+  private async queuePipeline(pipeline: RagPipeline): Promise<RagJob> {
+    const job = await this.jobs.enqueue('pipeline', pipeline.id)
+    await this.setPipelineStatus(pipeline, 'queued')
+    return job
+  }
+
+  // Jobs
+  async getJobs(filter: { status?: JobStatus; type?: JobType; targetId?: string } = {}): Promise<RagJob[]> {
+    return this.jobs.getJobs(filter)
+  }
+
+  async getJob(id: string): Promise<RagJob | null> {
+    return this.jobs.getJob(id)
+  }
+
+  async cancelJob(id: string): Promise<RagJob | null> {
+    const job = await this.jobs.cancel(id)
+    // A job cancelled before it started hands its target back in the state it was queued from
+    if (job?.status === 'cancelled' && !this.jobs.hasActiveJob(job.targetId)) {
+      const source = job.type === 'datasource' ? this.dataSources.get(job.targetId) : undefined
+      const pipeline = job.type === 'pipeline' ? this.pipelines.get(job.targetId) : undefined
+      if (source) await this.saveDataSourceStatus(source, await this.indexedStatus(source))
+      if (pipeline) await this.setPipelineStatus(pipeline, pipeline.lastProcessed ? 'ready' : 'configured')
+    }
+    return job
+  }
+
+  getJobConcurrency(): number {
+    return this.jobs.getConcurrency()
+  }
+
+  async setJobConcurrency(concurrency: number): Promise<void> {
+    await this.jobs.setConcurrency(concurrency)
+  }
+
+  private pipelineStoreId(pipelineId: string): string {
+    return `pipeline_${pipelineId}`
+  }
+
+  private createPipelineStore(pipeline: RagPipeline): VectorStore {
+    return {
+      id: pipeline.vectorStore,
+      name: pipeline.name,
+      ...this.datastoreConnection(),
+      embeddingModel: pipeline.embeddingModel,
+      status: 'ready',
+      vectorCount: pipeline.documentCount || 0,
+      createdAt: pipeline.createdAt,
+      updatedAt: pipeline.updatedAt,
+    }
+  }
+
+  private validatePipeline(pipeline: RagPipeline): void {
+    if (typeof pipeline.name !== 'string' || !pipeline.name.trim()) {
+      throw new Error('Pipeline name is required')
+    }
+    if (!Array.isArray(pipeline.dataSources) || pipeline.dataSources.length === 0) {
+      throw new Error('A pipeline needs at least one data source')
+    }
+    const missing = pipeline.dataSources.filter(id => !this.dataSources.has(id))
+    if (missing.length > 0) {
+      throw new Error(`Data sources not found: ${missing.join(', ')}`)
+    }
+    if (pipeline.embeddingModel && !this.embeddingModels.has(pipeline.embeddingModel)) {
+      throw new Error(`Embedding model ${pipeline.embeddingModel} not found`)
+    }
+    if (pipeline.chunking !== undefined) validateChunkingOptions(pipeline.chunking, 'Pipeline')
+
+    if (pipeline.vectorStore === this.pipelineStoreId(pipeline.id)) return
+    // A data source's store is rebuilt from its source, which would delete the pipeline's chunks
+    if (pipeline.vectorStore.startsWith('datastore_') || pipeline.vectorStore.startsWith('pipeline_')) {
+      throw new Error('A pipeline cannot write into a data source\'s or another pipeline\'s vector store')
+    }
+    const store = this.vectorStores.get(pipeline.vectorStore)
+    if (!store) {
+      throw new Error(`Vector store ${pipeline.vectorStore} not found`)
+    }
+    if (store.vectorCount && store.embeddingModel !== pipeline.embeddingModel) {
+      throw new Error(`Vector store ${store.name} holds vectors from ${this.embeddingModelName(store.embeddingModel)}, not ${this.embeddingModelName(pipeline.embeddingModel)}`)
+    }
+  }
+
+  private async setPipelineStatus(pipeline: RagPipeline, status: RagPipeline['status']): Promise<void> {
+    pipeline.status = status
+    pipeline.updatedAt = new Date()
+    try {
+      await this.databaseService.updateRagPipeline(pipeline.id, {
+        status: pipeline.status,
+        documentCount: pipeline.documentCount,
+        lastProcessed: pipeline.lastProcessed,
+        updatedAt: pipeline.updatedAt,
+      })
+    } catch (error) {
+      console.error('Failed to update pipeline in database:', error)
+    }
+    const { id, name, documentCount, lastProcessed, lastRun } = pipeline
+    eventBus.publish('pipeline.updated', { id, name, status, documentCount, lastProcessed, lastRun })
+  }
+
+  // Chunk IDs derive from the pipeline, source and chunk text, so a re-run only embeds chunks
+  // that changed and removes the ones that disappeared. A source that fails to load keeps its
+  // chunks from the last run.
+  private async processPipeline(pipelineId: string, job?: JobContext): Promise<void> {
+    const pipeline = this.pipelines.get(pipelineId)
+    if (!pipeline) throw new Error(`Pipeline ${pipelineId} not found`)
+
+    const run: PipelineRunStats = { embeddingCacheHits: 0, embeddingCacheMisses: 0, failedFiles: 0, failedChunks: 0, sources: [], removedChunks: 0 }
+    pipeline.lastRun = run
+    try {
+      await this.setPipelineStatus(pipeline, 'processing')
+      if (!this.vectorStores.has(pipeline.vectorStore)) {
+        this.vectorStores.set(pipeline.vectorStore, this.createPipelineStore(pipeline))
+      }
+      const vectorStore = this.vectorStores.get(pipeline.vectorStore)!
+      // A store first filled by a pipeline takes on the pipeline's embedding model
+      vectorStore.embeddingModel = pipeline.embeddingModel
+      vectorStore.status = 'ready'
+      const store = this.getVectorStoreAdapter(vectorStore.id)
+
+      console.log(`🔄 Running pipeline "${pipeline.name}" over ${pipeline.dataSources.length} data sources...`)
+      const existing = await store.get({ where: { pipelineId } })
+      const existingIds = new Set(existing.map(record => record.id))
+      const currentIds = new Set<string>()
+      const loadedSources = new Set<string>()
+
+      for (const dataSourceId of pipeline.dataSources) {
+        job?.signal.throwIfAborted()
+        const sourceRun: PipelineRunStats['sources'][number] = { dataSourceId, chunks: 0, embedded: 0, failedChunks: 0 }
+        run.sources.push(sourceRun)
+        try {
+          const source = this.dataSources.get(dataSourceId)
+          if (!source) throw new Error('Data source not found')
+
+          const documents = await this.loadSourceDocuments(source, false)
+          job?.advance('loaded', documents.length)
+          const chunks = await this.chunkDocuments(documents, pipeline.chunking, pipeline.embeddingModel)
+          job?.advance('chunked', chunks.length)
+          chunks.forEach(chunk => { chunk.metadata.pipelineId = pipelineId })
+          this.assignChunkIdsBySource(chunks, `${pipelineId}\0${dataSourceId}`)
+
+          const newChunks = chunks.filter(chunk => !existingIds.has(chunk.id) && !currentIds.has(chunk.id))
+          chunks.forEach(chunk => currentIds.add(chunk.id))
+          const embeddings = await this.generateEmbeddings(newChunks, pipeline.embeddingModel, run, job)
+          await this.storeEmbeddings(embeddings, vectorStore.id)
+          job?.advance('stored', embeddings.length)
+
+          sourceRun.chunks = chunks.length
+          sourceRun.embedded = embeddings.length
+          // Chunks that failed to embed aren't in the store, so the next run embeds them again
+          sourceRun.failedChunks = newChunks.length - embeddings.length
+          loadedSources.add(dataSourceId)
+          console.log(`   📄 ${source.name}: ${documents.length} documents, ${chunks.length} chunks, ${embeddings.length} embedded${sourceRun.failedChunks > 0 ? `, ${sourceRun.failedChunks} failed` : ''}`)
+        } catch (error) {
+          if (job?.signal.aborted) throw error
+          sourceRun.error = error instanceof Error ? error.message : String(error)
+          console.error(`   ❌ Pipeline "${pipeline.name}" failed to index data source ${dataSourceId}:`, error)
+        }
+      }
+
+      // Chunks a loaded source no longer produces, and chunks of sources taken out of the pipeline
+      const staleIds = existing
+        .filter(record => !currentIds.has(record.id))
+        .filter(record => loadedSources.has(String(record.metadata.dataSourceId)) || !pipeline.dataSources.includes(String(record.metadata.dataSourceId)))
+        .map(record => record.id)
+      if (staleIds.length > 0) {
+        await store.delete({ ids: staleIds })
+      }
+      run.removedChunks = staleIds.length
+      await this.refreshVectorCount(vectorStore.id, store)
+      await this.saveVectorStore(vectorStore)
+
+      const storedNow = run.sources.reduce((sum, source) => sum + source.embedded, 0)
+      pipeline.documentCount = existingIds.size - staleIds.length + storedNow
+      pipeline.lastProcessed = new Date()
+      run.finishedAt = pipeline.lastProcessed
+      await this.setPipelineStatus(pipeline, loadedSources.size > 0 ? 'ready' : 'error')
+
+      console.log(`✅ Pipeline "${pipeline.name}" finished: ${pipeline.documentCount} chunks in ${vectorStore.id}, ${run.removedChunks} removed, ${loadedSources.size} of ${pipeline.dataSources.length} sources indexed`)
+      console.log(`   - Embedding cache: ${run.embeddingCacheHits} hits, ${run.embeddingCacheMisses} misses`)
+    } catch (error) {
+      run.finishedAt = new Date()
+      if (job?.signal.aborted) {
+        await this.setPipelineStatus(pipeline, pipeline.lastProcessed ? 'ready' : 'configured')
+        console.log(`⏹️ Pipeline "${pipeline.name}" was cancelled`)
+      } else {
+        console.error(`Failed to run pipeline ${pipelineId}:`, error)
+        await this.setPipelineStatus(pipeline, 'error')
+      }
+      throw error
+    }
+    if (pipeline.status === 'error') {
+      throw new Error(run.sources.map(source => source.error).filter(Boolean).join('; ') || 'No data source could be indexed')
+    }
+  }
+
+  // The pipeline's own store is dropped; in a shared store only the pipeline's chunks are removed
+  private async clearPipelineChunks(pipeline: RagPipeline): Promise<void> {
+    if (!this.vectorStores.has(pipeline.vectorStore)) return
+
+    try {
+      const store = this.getVectorStoreAdapter(pipeline.vectorStore)
+      if (pipeline.vectorStore === this.pipelineStoreId(pipeline.id)) {
+        await store.drop()
+        this.vectorStores.delete(pipeline.vectorStore)
+        this.vectorStoreAdapters.delete(pipeline.vectorStore)
+        await this.databaseService.deleteRagVectorStore(pipeline.vectorStore).catch(() => undefined)
+      } else {
+        await store.delete({ where: { pipelineId: pipeline.id } })
+        await this.refreshVectorCount(pipeline.vectorStore, store)
+      }
+    } catch (error) {
+      console.warn(`Failed to clear vectors of pipeline ${pipeline.name}:`, error)
+    }
+  }
+
+  // A deleted data source leaves every pipeline it was part of, along with its chunks
+  private async removeSourceFromPipelines(dataSourceId: string): Promise<void> {
+    for (const pipeline of this.pipelines.values()) {
+      if (!pipeline.dataSources.includes(dataSourceId)) continue
+
+      pipeline.dataSources = pipeline.dataSources.filter(id => id !== dataSourceId)
+      pipeline.updatedAt = new Date()
+      try {
+        if (this.vectorStores.has(pipeline.vectorStore)) {
+          const store = this.getVectorStoreAdapter(pipeline.vectorStore)
+          await store.delete({ where: { pipelineId: pipeline.id, dataSourceId } })
+          await this.refreshVectorCount(pipeline.vectorStore, store)
+        }
+        await this.databaseService.updateRagPipeline(pipeline.id, { dataSources: pipeline.dataSources, updatedAt: pipeline.updatedAt })
+      } catch (error) {
+        console.error(`Failed to remove data source ${dataSourceId} from pipeline ${pipeline.name}:`, error)
+      }
+    }
   }
 
 
@@ -393,76 +1671,367 @@ export class RagService {
       if (!dataSource) continue
 
       try {
-        switch (dataSource.type) {
-          case 'file':
-            if (dataSource.path) {
-              const content = await this.loadFile(dataSource.path)
+        documents.push(...await this.loadSourceDocuments(dataSource))
+      } catch (error) {
+        console.error(`Failed to load data source ${dataSourceId}:`, error)
+      }
+    }
+
+    return documents
+  }
+
+  // Database sources read only rows past their saved cursors unless `incremental` is off,
+  // which reads every row and leaves the cursors alone
+  private async loadSourceDocuments(dataSource: DataSource, incremental = true): Promise<Document[]> {
+    const documents: Document[] = []
+    const dataSourceId = dataSource.id
+
+    switch (dataSource.type) {
+      case 'file':
+        if (dataSource.path) {
+          for (const section of await this.loadFile(dataSource.path, dataSource.config)) {
+            documents.push({
+              id: uuidv4(),
+              content: section.content,
+              metadata: {
+                ...section.metadata,
+                source: dataSource.path,
+                dataSourceId,
+                type: 'file'
+              }
+            })
+          }
+        }
+        break
+      case 'directory':
+        if (dataSource.path) {
+          const files = await this.loadDirectory(dataSource.path)
+          for (const file of files) {
+            for (const section of await this.loadFile(file, dataSource.config)) {
               documents.push({
                 id: uuidv4(),
-                content,
+                content: section.content,
                 metadata: {
-                  source: dataSource.path,
+                  ...section.metadata,
+                  source: file,
                   dataSourceId,
                   type: 'file'
                 }
               })
             }
-            break
-          case 'directory':
-            if (dataSource.path) {
-              const files = await this.loadDirectory(dataSource.path)
-              for (const file of files) {
-                const content = await this.loadFile(file)
-                documents.push({
-                  id: uuidv4(),
-                  content,
-                  metadata: {
-                    source: file,
-                    dataSourceId,
-                    type: 'file'
-                  }
-                })
+          }
+        }
+        break
+      case 'url':
+        if (dataSource.url) {
+          const crawler = new WebCrawler(dataSource.config?.crawl)
+          const pages = await crawler.crawl(dataSource.url)
+          // Usually an unreachable site; indexing nothing would remove every page already indexed
+          if (pages.length === 0) throw new Error(`No pages could be crawled from ${dataSource.url}`)
+          for (const page of pages) {
+            documents.push({
+              id: uuidv4(),
+              content: page.content,
+              metadata: {
+                source: page.url,
+                url: page.url,
+                title: page.title,
+                depth: page.depth,
+                dataSourceId,
+                type: 'url'
               }
-            }
-            break
-          // TODO: Implement URL, database, and API data sources
-          default:
-            console.log(`Data source type ${dataSource.type} not yet implemented`)
+            })
+          }
+        }
+        break
+      case 'database':
+        if (dataSource.connectionString) {
+          const loader = new DatabaseLoader(dataSource.connectionString, dataSource.config?.database || { queries: [] })
+          const result = await loader.load(incremental ? await this.getDatabaseCursors(dataSourceId) : {})
+          if (incremental) this.pendingCursors.set(dataSourceId, result.cursors)
+          for (const record of result.records) {
+            documents.push({
+              id: uuidv4(),
+              content: record.content,
+              metadata: {
+                ...record.metadata,
+                source: `${dataSource.name} (${record.metadata.query})`,
+                dataSourceId,
+                type: 'database'
+              }
+            })
+          }
+        }
+        break
+      case 'api':
+        if (dataSource.url) {
+          const loader = new ApiLoader(dataSource.url, dataSource.config?.api, dataSource.headers, dataSource.apiKey)
+          const records = await loader.load()
+          for (const record of records) {
+            const content = typeof record.data === 'object' && record.data !== null
+              ? flattenJSON(record.data, dataSource.name)
+              : String(record.data)
+            documents.push({
+              id: uuidv4(),
+              content,
+              metadata: {
+                source: dataSource.url,
+                dataSourceId,
+                type: 'api',
+                page: record.page,
+                recordIndex: record.index,
+                ...(record.id ? { recordKey: `api:${record.id}` } : {})
+              }
+            })
+          }
         }
+        break
+      default:
+        console.log(`Data source type ${dataSource.type} not yet implemented`)
+    }
+
+    return documents
+  }
+
+  // Embeds only files whose content hash changed since the last run, and only the chunks
+  // within them that are new. Chunks of files that disappeared are removed from the store.
+  private async indexFileSource(source: DataSource, vectorStoreId: string, run?: IngestionRunStats, job?: JobContext): Promise<{ chunks: number; embeddings: number }> {
+    if (!source.path) return { chunks: 0, embeddings: 0 }
+
+    const files = source.type === 'directory' ? await this.loadDirectory(source.path) : [source.path]
+    const indexedFiles: Array<{ path: string; contentHash: string }> = await this.databaseService.getRagIndexedFiles(source.id)
+    const store = this.getVectorStoreAdapter(vectorStoreId)
+
+    // An empty store (e.g. after switching vector store providers) means the recorded hashes are stale
+    const knownHashes = await store.count() > 0
+      ? new Map(indexedFiles.map(file => [file.path, file.contentHash]))
+      : new Map<string, string>()
+
+    let unchanged = 0
+    let chunkCount = 0
+    let embeddingCount = 0
+
+    for (const file of files) {
+      job?.signal.throwIfAborted()
+      try {
+        const result = await this.indexFile(source, vectorStoreId, store, file, knownHashes.get(file), run, job)
+        if (!result) {
+          unchanged++
+          continue
+        }
+        chunkCount += result.chunks
+        embeddingCount += result.embeddings
       } catch (error) {
-        console.error(`Failed to load data source ${dataSourceId}:`, error)
+        if (job?.signal.aborted) throw error
+        console.error(`Failed to index file ${file}:`, error)
+        if (run) run.failedFiles++
+        await this.recordFileFailure(source.id, file, error)
       }
     }
 
-    return documents
+    // Failures of files that are gone no longer matter
+    await this.databaseService.deleteRagIngestionFailures(source.id, { path: { notIn: files } })
+      .catch((error: unknown) => console.error('Failed to clear failures of deleted files:', error))
+
+    const currentFiles = new Set(files)
+    for (const { path: removedFile } of indexedFiles.filter(file => !currentFiles.has(file.path))) {
+      try {
+        await this.removeIndexedFile(source, store, removedFile)
+      } catch (error) {
+        console.error(`Failed to remove chunks for deleted file ${removedFile}:`, error)
+      }
+    }
+
+    await this.refreshVectorCount(vectorStoreId, store)
+
+    console.log(`   ♻️  ${unchanged} of ${files.length} files unchanged since last index`)
+    return { chunks: chunkCount, embeddings: embeddingCount }
+  }
+
+  // Returns null when the file's hash matches the last indexed version
+  private async indexFile(
+    source: DataSource,
+    vectorStoreId: string,
+    store: VectorStoreAdapter,
+    file: string,
+    knownHash?: string,
+    run?: IngestionRunStats,
+    job?: JobContext
+  ): Promise<{ chunks: number; embeddings: number } | null> {
+    const fileHash = this.hashContent(fs.readFileSync(file))
+    // Parsing and chunking settings are part of the recorded hash, so changing them re-chunks every file
+    const settings = [source.config?.chunking, source.config?.csv, source.config?.json, source.embeddingModel]
+    const indexHash = settings.some(Boolean)
+      ? this.hashContent(`${fileHash}\0${JSON.stringify(settings)}`)
+      : fileHash
+    if (knownHash === indexHash) return null
+
+    const sections = await this.loadFile(file, source.config)
+    job?.advance('loaded', sections.length)
+    const chunks = await this.chunkDocuments(sections.map(section => ({
+      id: uuidv4(),
+      content: section.content,
+      metadata: {
+        ...section.metadata,
+        source: file,
+        // Where the file sits in a directory source, e.g. as uploaded from a folder or archive
+        ...(source.type === 'directory' && source.path ? { relativePath: path.relative(source.path, file).split(path.sep).join('/') } : {}),
+        dataSourceId: source.id,
+        type: 'file',
+        fileHash,
+      }
+    })), source.config?.chunking, source.embeddingModel)
+    this.assignChunkIds(chunks, source.id, file)
+    job?.advance('chunked', chunks.length)
+
+    // Keep chunks whose text is unchanged, drop the rest
+    const existing = await store.get({ where: { source: file } })
+    const existingIds = new Set(existing.map(record => record.id))
+    const currentIds = new Set(chunks.map(chunk => chunk.id))
+    const staleIds = [...existingIds].filter(id => !currentIds.has(id))
+    if (staleIds.length > 0) {
+      await store.delete({ ids: staleIds })
+    }
+
+    const newChunks = chunks.filter(chunk => !existingIds.has(chunk.id))
+    const failed: FailedEmbedding[] = []
+    const embeddings = await this.generateEmbeddings(newChunks, source.embeddingModel, run, job, failed)
+    await this.storeEmbeddings(embeddings, vectorStoreId)
+    job?.advance('stored', embeddings.length)
+    console.log(`   📄 ${file}: ${chunks.length} chunks, ${newChunks.length} new, ${staleIds.length} removed${failed.length > 0 ? `, ${failed.length} failed` : ''}`)
+
+    // Leave the hash unrecorded if any batch failed so the next run picks the file up again;
+    // a re-embed that stores the missing chunks records it instead
+    await this.recordChunkFailures(source.id, file, failed, indexHash)
+    if (failed.length === 0) {
+      await this.databaseService.upsertRagIndexedFile(source.id, file, {
+        contentHash: indexHash,
+        chunkCount: chunks.length,
+        indexedAt: new Date(),
+      })
+    }
+
+    return { chunks: chunks.length, embeddings: embeddings.length }
+  }
+
+  private async removeIndexedFile(source: DataSource, store: VectorStoreAdapter, file: string): Promise<void> {
+    await store.delete({ where: { source: file } })
+    await this.databaseService.deleteRagIndexedFile(source.id, file).catch(() => undefined)
+    await this.databaseService.deleteRagIngestionFailures(source.id, { path: file }).catch(() => undefined)
+    console.log(`   🗑️ Removed chunks for deleted file ${file}`)
+  }
+
+  private async refreshVectorCount(vectorStoreId: string, store: VectorStoreAdapter): Promise<void> {
+    const vectorStore = this.vectorStores.get(vectorStoreId)
+    if (vectorStore) {
+      vectorStore.vectorCount = await store.count()
+      vectorStore.updatedAt = new Date()
+    }
+  }
+
+  private hashContent(content: string | Buffer): string {
+    return createHash('sha256').update(content).digest('hex')
+  }
+
+  // Chunk IDs derive from the chunk text, so unchanged chunks keep their ID across re-indexes
+  private assignChunkIds(chunks: Document[], dataSourceId: string, file: string) {
+    const occurrences = new Map<string, number>()
+    for (const chunk of chunks) {
+      const chunkHash = this.hashContent(chunk.content)
+      const occurrence = occurrences.get(chunkHash) || 0
+      occurrences.set(chunkHash, occurrence + 1)
+
+      chunk.id = this.hashContent(`${dataSourceId}\0${file}\0${chunkHash}\0${occurrence}`)
+      chunk.metadata.chunkHash = chunkHash
+    }
+  }
+
+  // Groups chunks by the page, file or query they came from, e.g. a crawled page's URL, so
+  // each keeps its IDs when other pages change
+  private assignChunkIdsBySource(chunks: Document[], idPrefix: string) {
+    const bySource = new Map<string, Document[]>()
+    for (const chunk of chunks) {
+      const key = String(chunk.metadata.source)
+      bySource.set(key, [...(bySource.get(key) || []), chunk])
+    }
+    for (const [origin, group] of bySource) {
+      this.assignChunkIds(group, idPrefix, origin)
+    }
   }
 
-  private async loadFile(filePath: string): Promise<string> {
-    const ext = path.extname(filePath).toLowerCase()
-
-    switch (ext) {
-      case '.txt':
-        return fs.readFileSync(filePath, 'utf-8')
-      case '.pdf':
-        const pdfBuffer = fs.readFileSync(filePath)
-        const pdfData = await pdf(pdfBuffer)
-        return pdfData.text
-      case '.docx':
-        const docxBuffer = fs.readFileSync(filePath)
-        const docxResult = await mammoth.extractRawText({ buffer: docxBuffer })
-        return docxResult.value
-      case '.csv':
-        return await this.parseCSV(filePath)
-      case '.json':
-        const jsonData = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
-        return this.flattenJSON(jsonData, path.basename(filePath))
-      case '.md':
-        return fs.readFileSync(filePath, 'utf-8')
+  // Deletes stored chunks the run read again but no longer produced, and returns the IDs of
+  // those it did produce, which need no new embedding
+  private async replaceRereadChunks(source: DataSource, chunks: Document[], store: VectorStoreAdapter): Promise<{ existingIds: Set<string>; removed: number }> {
+    const currentIds = new Set(chunks.map(chunk => chunk.id))
+    const existingIds = new Set<string>()
+    const staleIds = new Set<string>()
+
+    for (const where of this.rereadScopes(source, chunks)) {
+      for (const record of await store.get({ where })) {
+        if (currentIds.has(record.id)) existingIds.add(record.id)
+        else staleIds.add(record.id)
+      }
+    }
+    if (staleIds.size > 0) {
+      await store.delete({ ids: [...staleIds] })
+    }
+    return { existingIds, removed: staleIds.size }
+  }
+
+  // The stored chunks a run reads again in full. A crawl visits every page and an API source
+  // fetches every record each time, so pages and records they no longer return lose their chunks.
+  // Database queries without a cursor read all their rows; those with one read only new rows,
+  // and rows re-read by their idColumn replace the chunks they produced last time.
+  private rereadScopes(source: DataSource, chunks: Document[]): MetadataFilter[] {
+    switch (source.type) {
+      case 'url':
+      case 'api':
+        return [{ dataSourceId: source.id }]
+      case 'database': {
+        const scopes: MetadataFilter[] = []
+        const fullQueries = (source.config?.database?.queries || [])
+          .map((query, index) => query.cursorColumn ? null : databaseQueryName(query, index))
+          .filter((name): name is string => name !== null)
+        if (fullQueries.length > 0) {
+          scopes.push({ dataSourceId: source.id, query: { $in: fullQueries } })
+        }
+        const recordKeys = Array.from(new Set(chunks.map(chunk => chunk.metadata.recordKey).filter(Boolean)))
+        if (recordKeys.length > 0) {
+          scopes.push({ dataSourceId: source.id, recordKey: { $in: recordKeys } })
+        }
+        return scopes
+      }
       default:
-        throw new Error(`Unsupported file type: ${ext}`)
+        return []
+    }
+  }
+
+  private async getDatabaseCursors(sourceId: string): Promise<Record<string, string | number>> {
+    try {
+      const value = await this.databaseService.getSetting(`rag_cursor_${sourceId}`)
+      return value ? JSON.parse(value) : {}
+    } catch (error) {
+      console.warn(`Failed to read incremental cursors for data source ${sourceId}:`, error)
+      return {}
+    }
+  }
+
+  private async commitDatabaseCursors(sourceId: string): Promise<void> {
+    const cursors = this.pendingCursors.get(sourceId)
+    if (!cursors) return
+
+    this.pendingCursors.delete(sourceId)
+    try {
+      await this.databaseService.setSetting(`rag_cursor_${sourceId}`, JSON.stringify(cursors), 'json')
+    } catch (error) {
+      console.error(`Failed to save incremental cursors for data source ${sourceId}:`, error)
     }
   }
 
+  private async loadFile(filePath: string, config?: DataSourceConfig): Promise<FileSection[]> {
+    return new FileLoader({ csv: config?.csv, json: config?.json }).load(filePath)
+  }
+
   private async loadDirectory(dirPath: string): Promise<string[]> {
     const files: string[] = []
     const items = fs.readdirSync(dirPath)
@@ -475,8 +2044,7 @@ export class RagService {
         // Recursively load subdirectories
         files.push(...await this.loadDirectory(fullPath))
       } else if (stat.isFile()) {
-        const ext = path.extname(fullPath).toLowerCase()
-        if (['.txt', '.pdf', '.docx', '.csv', '.json', '.md'].includes(ext)) {
+        if (FileLoader.isSupported(fullPath)) {
           files.push(fullPath)
         }
       }
@@ -485,160 +2053,89 @@ export class RagService {
     return files
   }
 
-  private async parseCSV(filePath: string): Promise<string> {
-    const csv = require('csv-parser')
-    const fs = require('fs')
-    const results: any[] = []
-
-    return new Promise((resolve, reject) => {
-      fs.createReadStream(filePath)
-        .pipe(csv())
-        .on('data', (data: any) => results.push(data))
-        .on('end', () => {
-          // Convert CSV data to readable text format
-          const text = results.map((row, index) =>
-            `Row ${index + 1}: ${Object.entries(row).map(([key, value]) => `${key}: ${value}`).join(', ')}`
-          ).join('\n')
-          resolve(text)
-        })
-        .on('error', reject)
-    })
-  }
-
-  private flattenJSON(obj: any, filename: string, prefix = ''): string {
-    const parts: string[] = []
-
-    for (const [key, value] of Object.entries(obj)) {
-      const newKey = prefix ? `${prefix}.${key}` : key
-
-      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-        parts.push(this.flattenJSON(value, filename, newKey))
-      } else if (Array.isArray(value)) {
-        value.forEach((item, index) => {
-          if (typeof item === 'object' && item !== null) {
-            parts.push(this.flattenJSON(item, filename, `${newKey}[${index}]`))
-          } else {
-            parts.push(`${newKey}[${index}]: ${item}`)
-          }
-        })
-      } else {
-        parts.push(`${newKey}: ${value}`)
-      }
-    }
-
-    return parts.join('\n')
-  }
-
-  private async chunkDocuments(documents: Document[]): Promise<Document[]> {
+  private async chunkDocuments(documents: Document[], options: ChunkingOptions = {}, embeddingModel?: string): Promise<Document[]> {
+    const chunker = new TextChunker(options, texts => this.getEmbeddings(embeddingModel).embedDocuments(texts))
     const chunks: Document[] = []
 
     for (const doc of documents) {
-      const docChunks = await this.smartChunkDocument(doc)
+      const docChunks = await this.smartChunkDocument(doc, chunker)
       chunks.push(...docChunks)
     }
 
     return chunks
   }
 
-  private async smartChunkDocument(doc: Document): Promise<Document[]> {
-    const chunks: Document[] = []
-    const content = doc.content
-    const ext = doc.metadata.source ? path.extname(doc.metadata.source).toLowerCase() : ''
-
-    // Different chunking strategies based on file type
-    if (ext === '.csv') {
-      // For CSV, try to keep related rows together
-      const lines = content.split('\n')
-      const chunkSize = 10 // 10 rows per chunk
-      for (let i = 0; i < lines.length; i += chunkSize) {
-        const chunkLines = lines.slice(i, i + chunkSize)
-        chunks.push({
-          id: uuidv4(),
-          content: chunkLines.join('\n'),
-          metadata: {
-            ...doc.metadata,
-            parentId: doc.id,
-            chunkType: 'csv_rows',
-            startRow: i,
-            endRow: Math.min(i + chunkSize - 1, lines.length - 1)
-          }
-        })
-      }
-    } else if (ext === '.json') {
-      // For JSON, try to preserve object structure
-      const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 800, // Smaller chunks for structured data
-        chunkOverlap: 100,
-        separators: ['\n', '.', ' ', '']
-      })
-      const splitDocs = await textSplitter.splitText(content)
-      for (const chunk of splitDocs) {
-        chunks.push({
-          id: uuidv4(),
-          content: chunk,
-          metadata: {
-            ...doc.metadata,
-            parentId: doc.id,
-            chunkType: 'json_properties'
-          }
-        })
+  private async smartChunkDocument(doc: Document, chunker: TextChunker): Promise<Document[]> {
+    // Crawled pages are already plain text, so only files pick a strategy by extension
+    const ext = doc.metadata.type === 'file' && doc.metadata.source ? path.extname(doc.metadata.source).toLowerCase() : ''
+
+    const chunks = await chunker.split(doc.content, ext)
+    return chunks.map(chunk => ({
+      id: uuidv4(),
+      content: chunk.content,
+      metadata: {
+        ...doc.metadata,
+        ...chunk.metadata,
+        parentId: doc.id,
       }
-    } else {
-      // Default chunking for text documents
-      const textSplitter = new RecursiveCharacterTextSplitter({
-        chunkSize: 1000,
-        chunkOverlap: 200,
-        separators: ['\n\n', '\n', '.', ' ', '']
-      })
-      const splitDocs = await textSplitter.splitText(content)
-      for (const chunk of splitDocs) {
-        chunks.push({
-          id: uuidv4(),
-          content: chunk,
-          metadata: {
-            ...doc.metadata,
-            parentId: doc.id,
-            chunkType: 'text_paragraphs'
-          }
-        })
-      }
-    }
-
-    return chunks
+    }))
   }
 
-  private async generateEmbeddings(chunks: Document[]): Promise<Array<{ id: string; embedding: number[]; metadata: any; content: string }>> {
+  // Vectors are looked up in the embedding cache first; only texts never embedded with this
+  // model reach the provider. Hits and misses are added to `run` when given; a job's progress
+  // advances with each batch and a cancelled job stops before the next one. Chunks of batches
+  // that fail on every retry are left out of the result and added to `failed`.
+  private async generateEmbeddings(
+    chunks: Document[],
+    embeddingModel?: string,
+    run?: IngestionRunStats,
+    job?: JobContext,
+    failed?: FailedEmbedding[]
+  ): Promise<Array<{ id: string; embedding: number[]; metadata: any; content: string }>> {
     if (chunks.length === 0) return []
 
-    const embeddings = this.getEmbeddings()
-    const results: Array<{ id: string; embedding: number[]; metadata: any; content: string }> = []
+    const embeddings = this.getEmbeddings(embeddingModel)
+    const namespace = this.embeddingCacheNamespace(embeddingModel)
+    const keys = chunks.map(chunk => this.hashContent(`${namespace}\0${normalizeChunkText(chunk.content)}`))
+    const cached = await this.readEmbeddingCache(keys)
+    const vectors: Array<number[] | undefined> = keys.map(key => cached.get(key))
+
+    // Identical texts within the run are embedded once
+    const pending = new Map<string, number[]>()
+    keys.forEach((key, index) => {
+      if (vectors[index]) return
+      pending.set(key, [...(pending.get(key) || []), index])
+    })
+    const hits = chunks.length - [...pending.values()].reduce((sum, indexes) => sum + indexes.length, 0)
+    const misses = [...pending.entries()]
+    job?.advance('embedded', hits)
 
     // Optimized batch processing with retry logic
     const batchSize = 50 // Increased batch size for better efficiency
     const maxRetries = 3
 
-    for (let i = 0; i < chunks.length; i += batchSize) {
-      const batch = chunks.slice(i, i + batchSize)
-      const texts = batch.map(chunk => chunk.content)
+    for (let i = 0; i < misses.length; i += batchSize) {
+      job?.signal.throwIfAborted()
+      const batch = misses.slice(i, i + batchSize)
+      const texts = batch.map(([, indexes]) => chunks[indexes[0]].content)
 
       let retryCount = 0
       let success = false
+      let lastError: unknown
 
       while (retryCount < maxRetries && !success) {
         try {
-          const vectors = await embeddings.embedDocuments(texts)
-
-          for (let j = 0; j < batch.length; j++) {
-            results.push({
-              id: batch[j].id,
-              embedding: vectors[j],
-              metadata: batch[j].metadata,
-              content: batch[j].content
-            })
-          }
+          const batchVectors = await embeddings.embedDocuments(texts)
+
+          batch.forEach(([, indexes], j) => {
+            for (const index of indexes) vectors[index] = batchVectors[j]
+          })
+          await this.writeEmbeddingCache(batch.map(([key], j) => ({ key, model: namespace, embedding: batchVectors[j] })))
+          job?.advance('embedded', batch.reduce((sum, [, indexes]) => sum + indexes.length, 0))
           success = true
         } catch (error) {
           retryCount++
+          lastError = error
           console.warn(`Embedding batch ${i / batchSize + 1} failed (attempt ${retryCount}/${maxRetries}):`, error)
 
           if (retryCount < maxRetries) {
@@ -650,13 +2147,71 @@ export class RagService {
 
       if (!success) {
         console.error(`Failed to embed batch ${i / batchSize + 1} after ${maxRetries} attempts`)
+        const error = lastError instanceof Error ? lastError.message : String(lastError)
+        for (const [, indexes] of batch) {
+          for (const index of indexes) failed?.push({ chunk: chunks[index], error })
+          if (run) run.failedChunks += indexes.length
+        }
       }
     }
 
-    console.log(`Generated ${results.length}/${chunks.length} embeddings successfully`)
+    const results: Array<{ id: string; embedding: number[]; metadata: any; content: string }> = []
+    chunks.forEach((chunk, index) => {
+      const embedding = vectors[index]
+      if (embedding) {
+        results.push({ id: chunk.id, embedding, metadata: chunk.metadata, content: chunk.content })
+      }
+    })
+
+    if (run) {
+      run.embeddingCacheHits += hits
+      run.embeddingCacheMisses += misses.length
+    }
+
+    console.log(`Generated ${results.length}/${chunks.length} embeddings successfully (${hits} from cache, ${misses.length} embedded)`)
     return results
   }
 
+  // Identifies the vectors a model produces; changing the provider, endpoint or model name starts a fresh namespace
+  private embeddingCacheNamespace(modelId?: string): string {
+    if (!modelId) {
+      return `openai::${(this.getEmbeddings() as OpenAIEmbeddings).model}`
+    }
+    const model = this.embeddingModels.get(modelId)
+    if (!model) {
+      throw new Error(`Embedding model ${modelId} not found`)
+    }
+    return `${model.provider}:${model.endpoint || ''}:${model.modelName}`
+  }
+
+  // A cache that cannot be read or written only costs extra embedding calls, so failures are logged and ignored
+  private async readEmbeddingCache(keys: string[]): Promise<Map<string, number[]>> {
+    const cached = new Map<string, number[]>()
+    const lookupSize = 500
+
+    try {
+      for (let i = 0; i < keys.length; i += lookupSize) {
+        const entries: Array<{ key: string; embedding: number[] }> = await this.databaseService.getRagEmbeddingCacheEntries(
+          [...new Set(keys.slice(i, i + lookupSize))]
+        )
+        for (const entry of entries) {
+          cached.set(entry.key, entry.embedding)
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to read embedding cache:', error)
+    }
+    return cached
+  }
+
+  private async writeEmbeddingCache(entries: Array<{ key: string; model: string; embedding: number[] }>): Promise<void> {
+    try {
+      await this.databaseService.createRagEmbeddingCacheEntries(entries.filter(entry => entry.embedding?.length > 0))
+    } catch (error) {
+      console.warn('Failed to write embedding cache:', error)
+    }
+  }
+
   private async storeEmbeddings(embeddings: Array<{ id: string; embedding: number[]; metadata: any; content: string }>, vectorStoreId: string): Promise<void> {
     const vectorStore = this.vectorStores.get(vectorStoreId)
     if (!vectorStore || vectorStore.status !== 'ready') {
@@ -664,25 +2219,18 @@ export class RagService {
     }
 
     try {
-      const collection = await this.chromaClient.getOrCreateCollection({
-        name: `rag_${vectorStoreId}`
-      })
+      const store = this.getVectorStoreAdapter(vectorStoreId)
 
-      // Prepare data for ChromaDB
-      const ids = embeddings.map(e => e.id)
-      const documents = embeddings.map(e => e.content)
-      const vectors = embeddings.map(e => e.embedding)
-      const metadatas = embeddings.map(e => e.metadata)
-
-      await collection.add({
-        ids,
-        documents,
-        embeddings: vectors,
-        metadatas
-      })
+      // Incremental runs can legitimately find nothing new
+      if (embeddings.length === 0) {
+        vectorStore.vectorCount = await store.count()
+        return
+      }
+
+      await store.add(embeddings)
 
       // Update vector count in the vector store
-      vectorStore.vectorCount = embeddings.length
+      vectorStore.vectorCount = await store.count()
       vectorStore.updatedAt = new Date()
 
       console.log(`Stored ${embeddings.length} embeddings in vector store ${vectorStoreId}`)
@@ -694,42 +2242,29 @@ export class RagService {
 
   async peekCollection(vectorStoreId: string): Promise<any> {
     try {
-      const collection = await this.chromaClient.getCollection({
-        name: `rag_${vectorStoreId}`
-      })
+      const store = this.getVectorStoreAdapter(vectorStoreId)
 
-      const count = await collection.count()
+      const count = await store.count()
       console.log(`🔍 Peeking collection "rag_${vectorStoreId}": ${count} documents`)
 
       if (count > 0) {
         // Get first few documents
-        const result = await collection.get({
-          limit: 3,
-          include: ['documents', 'metadatas']
-        })
+        const records = await store.get({ limit: 3 })
 
         console.log(`📄 Sample documents:`)
-        if (result.documents) {
-          result.documents.forEach((doc, i) => {
-            if (doc !== null) {
-              console.log(`  ${i+1}: ${String(doc).substring(0, 150)}...`)
-            } else {
-              console.log(`  ${i+1}: (null document)`)
-            }
-          })
-        }
+        records.forEach((record, i) => {
+          console.log(`  ${i+1}: ${record.content.substring(0, 150)}...`)
+        })
 
-        if (result.metadatas) {
-          console.log(`📊 Sample metadata:`)
-          result.metadatas.forEach((meta, i) => {
-            console.log(`  ${i+1}: ${JSON.stringify(meta).substring(0, 100)}...`)
-          })
-        }
+        console.log(`📊 Sample metadata:`)
+        records.forEach((record, i) => {
+          console.log(`  ${i+1}: ${JSON.stringify(record.metadata).substring(0, 100)}...`)
+        })
 
         return {
           count,
-          documents: result.documents,
-          metadatas: result.metadatas
+          documents: records.map(record => record.content),
+          metadatas: records.map(record => record.metadata)
         }
       }
 
@@ -740,121 +2275,28 @@ export class RagService {
     }
   }
 
-  // Fuzzy string matching for transcription errors
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = []
-
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i]
-    }
-
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j
-    }
-
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1]
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1, // substitution
-            matrix[i][j - 1] + 1,     // insertion
-            matrix[i - 1][j] + 1      // deletion
-          )
-        }
-      }
-    }
-
-    return matrix[str2.length][str1.length]
-  }
-
-  // Check if query contains potential transcription errors for names
+  // Scans chunks for names that sound like words in the query, for when search finds nothing at all
   private findPotentialNameMatches(query: string, documents: string[]): Array<{doc: string, score: number, index: number}> {
     const queryLower = query.toLowerCase()
+    const queryWords = [...new Set(tokenize(query))].filter(word => word.length >= 3 && !/\d/.test(word))
     const matches: Array<{doc: string, score: number, index: number}> = []
 
-    // Common name transcription errors
-    const nameReplacements: { [key: string]: string[] } = {
-      'chen': ['chin', 'chan', 'cheng', 'chine'],
-      'zhang': ['chang', 'zhang', 'zhan'],
-      'wang': ['wang', 'wong', 'wahng'],
-      'li': ['lee', 'li', 'ly'],
-      'liu': ['liu', 'lew', 'loo'],
-      'yang': ['yang', 'yong', 'yaang'],
-      'huang': ['huang', 'hwang', 'wahng'],
-      'zhou': ['zhou', 'joe', 'jou'],
-      'wu': ['wu', 'woo', 'woo'],
-      'xu': ['xu', 'shu', 'su'],
-      'sun': ['sun', 'soon', 'son'],
-      'ma': ['ma', 'mah', 'mar'],
-      'hu': ['hu', 'who', 'hoo'],
-      'guo': ['guo', 'goo', 'gwo'],
-      'lin': ['lin', 'lynn', 'leen'],
-      'he': ['he', 'her', 'hee'],
-      'gao': ['gao', 'gow', 'gau'],
-      'zheng': ['zheng', 'jung', 'jung'],
-      'shi': ['shi', 'she', 'shee'],
-      'perez': ['perez', 'peres', 'perez'],
-      'garcia': ['garcia', 'garsha', 'garcia'],
-      'rodriguez': ['rodriguez', 'rodriques', 'rodriges'],
-      'gonzalez': ['gonzalez', 'gonzales', 'gonzalez'],
-      'lopez': ['lopez', 'lopes', 'lopez'],
-      'martinez': ['martinez', 'martines', 'martinez'],
-      'sanchez': ['sanchez', 'sanches', 'sanchez'],
-      'ramirez': ['ramirez', 'ramires', 'ramirez'],
-      'torres': ['torres', 'tores', 'torres'],
-      'flores': ['flores', 'floress', 'flores'],
-      'rivera': ['rivera', 'riviera', 'rivera'],
-      'gomez': ['gomez', 'gomes', 'gomez'],
-      'diaz': ['diaz', 'dias', 'diaz'],
-      'morales': ['morales', 'moralez', 'morales'],
-      'ortiz': ['ortiz', 'ortis', 'ortiz'],
-      'gutierrez': ['gutierrez', 'gutieres', 'gutierrez'],
-      'chavez': ['chavez', 'chaves', 'chavez'],
-      'ramos': ['ramos', 'ramoss', 'ramos'],
-      'hernandez': ['hernandez', 'ernandez', 'hernandez'],
-      'jimenez': ['jimenez', 'jimines', 'jimenez'],
-      'mendoza': ['mendoza', 'mendosa', 'mendoza'],
-      'ruiz': ['ruiz', 'ruez', 'ruiz'],
-      'aguilar': ['aguilar', 'aguillar', 'aguilar'],
-      'medina': ['medina', 'medinah', 'medina'],
-      'castillo': ['castillo', 'castiloo', 'castillo'],
-      'santiago': ['santiago', 'santiango', 'santiago']
-    }
-
     documents.forEach((doc, index) => {
-      const docLower = doc.toLowerCase()
       let bestScore = 0
 
-      // Check for fuzzy name matches
-      for (const [correct, variations] of Object.entries(nameReplacements)) {
-        const allVariants = [correct, ...variations]
-
-        for (const variant of allVariants) {
-          if (queryLower.includes(variant)) {
-            // If query contains a name variant, check if doc contains the correct version
-            for (const correctVariant of allVariants) {
-              if (docLower.includes(correctVariant)) {
-                // Calculate fuzzy match score based on edit distance
-                const distance = this.levenshteinDistance(variant, correctVariant)
-                const maxLength = Math.max(variant.length, correctVariant.length)
-                const score = 1 - (distance / maxLength) // Higher score = better match
-
-                if (score > 0.6 && score > bestScore) { // Threshold for good matches
-                  bestScore = score
-                }
-              }
-            }
+      // Names in the chunk that sound like a query word, scored by how close the spelling is
+      for (const name of extractNames(doc)) {
+        for (const word of queryWords) {
+          if (word !== name && !soundsAlike(word, name)) continue
+          const score = spellingSimilarity(word, name)
+          if (score > 0.6 && score > bestScore) { // Threshold for good matches
+            bestScore = score
           }
         }
       }
 
       // Also check for direct fuzzy matching of the entire query
-      const distance = this.levenshteinDistance(queryLower, docLower.substring(0, Math.min(100, docLower.length)))
-      const maxLength = Math.max(queryLower.length, docLower.substring(0, 100).length)
-      const fuzzyScore = 1 - (distance / maxLength)
-
+      const fuzzyScore = spellingSimilarity(queryLower, doc.toLowerCase().substring(0, 100))
       if (fuzzyScore > 0.7) { // Very close match
         bestScore = Math.max(bestScore, fuzzyScore)
       }
@@ -867,7 +2309,133 @@ export class RagService {
     return matches.sort((a, b) => b.score - a.score) // Sort by score descending
   }
 
-  async retrieveContext(query: string, vectorStoreId: string): Promise<Array<{content: string, source: string, dataSourceId: string}>> {
+  // Aliases from the data sources feeding a store: its own source, or those of pipelines writing to it
+  private aliasesForStore(vectorStoreId: string): AliasEntry[] {
+    const sourceIds = new Set<string>()
+    if (vectorStoreId.startsWith('datastore_')) sourceIds.add(vectorStoreId.slice('datastore_'.length))
+    for (const pipeline of this.pipelines.values()) {
+      if (pipeline.vectorStore === vectorStoreId) pipeline.dataSources.forEach(id => sourceIds.add(id))
+    }
+    return [...sourceIds].flatMap(id => this.dataSources.get(id)?.config?.aliases || [])
+  }
+
+  // Rewrites names in the query the way the store spells them: data source aliases first, then
+  // words the store has never seen replaced by the closest-sounding name it does contain
+  private async resolveNames(query: string, vectorStoreId: string, store: VectorStoreAdapter): Promise<string> {
+    const aliased = applyAliases(query, this.aliasesForStore(vectorStoreId))
+    const soundAlikes = store.soundAlikes ? await store.soundAlikes(aliased) : []
+    const resolved = applyAliases(aliased, soundAlikes.map(({ word, names }) => ({
+      term: names[0].charAt(0).toUpperCase() + names[0].slice(1),
+      aliases: [word],
+    })))
+
+    if (resolved !== query) console.log(`🗣️ Resolved names in "${query}" as "${resolved}"`)
+    return resolved
+  }
+
+  // Falls back to the fused order when the reranker fails, so retrieval never breaks on it
+  private async rerankContexts(query: string, contexts: RetrievedContext[], config: RerankConfig, topK: number): Promise<RetrievedContext[]> {
+    const topN = config.topN ?? topK
+    if (contexts.length === 0) return contexts
+
+    try {
+      const scores = await getReranker(config).score(query, contexts.map(context => context.content))
+      const reranked = contexts
+        .map((context, i) => ({ ...context, rerankScore: scores[i] }))
+        .filter(context => config.minScore === undefined || context.rerankScore >= config.minScore)
+        .sort((a, b) => b.rerankScore - a.rerankScore)
+        .slice(0, topN)
+      console.log(`🏅 Reranked ${contexts.length} candidates with ${config.provider}, kept ${reranked.length} (top score ${reranked[0]?.rerankScore.toFixed(3) ?? 'n/a'})`)
+      return reranked
+    } catch (error) {
+      console.warn(`Reranking with ${config.provider} failed, keeping search order:`, error)
+      return contexts.slice(0, topN)
+    }
+  }
+
+  validateRetrievalSettings(settings?: RetrievalSettings): void {
+    if (!settings) return
+    const positive = (value: number | undefined, field: string) => {
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new Error(`Retrieval ${field} must be a positive whole number`)
+      }
+    }
+    positive(settings.topK, 'topK')
+    positive(settings.maxContextTokens, 'maxContextTokens')
+    positive(settings.fallback?.scanLimit, 'fallback scan limit')
+    positive(settings.fallback?.maxResults, 'fallback result count')
+
+    if (settings.scoreThreshold !== undefined && !(settings.scoreThreshold >= 0 && settings.scoreThreshold <= 2)) {
+      throw new Error('Retrieval scoreThreshold must be a distance between 0 and 2')
+    }
+    if (settings.searchMode && !SEARCH_MODES.includes(settings.searchMode)) {
+      throw new Error(`Unsupported search mode: ${settings.searchMode}`)
+    }
+    if (settings.fallback && !['fuzzy', 'none'].includes(settings.fallback.mode)) {
+      throw new Error(`Unsupported retrieval fallback: ${settings.fallback.mode}`)
+    }
+    if (settings.filter !== undefined) validateMetadataFilter(settings.filter)
+    const expansions = settings.queryTransform?.multiQuery
+    if (expansions !== undefined && !(Number.isInteger(expansions) && expansions >= 0 && expansions <= MAX_QUERY_EXPANSIONS)) {
+      throw new Error(`Retrieval multiQuery must be a whole number from 0 to ${MAX_QUERY_EXPANSIONS}`)
+    }
+    for (const [storeId, weight] of Object.entries(settings.storeWeights || {})) {
+      if (!(typeof weight === 'number' && weight >= 0)) {
+        throw new Error(`Weight for vector store ${storeId} must be zero or more`)
+      }
+    }
+  }
+
+  // Runs every query against every store. topK applies to each store, so adding a store adds
+  // context rather than splitting it: each store's queries are fused into its own topK, then the
+  // stores are merged by weighted rank and the token budget applied
+  async retrieveFromStores(query: string | RetrievalQuery[], vectorStoreIds: string[], settings: RetrievalSettings = {}): Promise<RetrievedContext[]> {
+    const topK = settings.topK ?? DEFAULT_RETRIEVAL_SETTINGS.topK
+    const storeIds = vectorStoreIds.filter(id => (settings.storeWeights?.[id] ?? 1) > 0)
+    const queries = typeof query === 'string' ? [{ text: query }] : query
+
+    const searches = storeIds.flatMap(id => queries.map(({ text, embedText }) => ({ id, text, embedText })))
+    const lists = await Promise.all(searches.map(({ id, text, embedText }) => this.retrieveContext(text, id, {
+      topK,
+      scoreThreshold: settings.scoreThreshold,
+      searchMode: settings.searchMode,
+      fallback: settings.fallback,
+      filter: settings.filter,
+      embedText,
+    })))
+    const storeLists = storeIds.map(storeId => {
+      const results = lists.filter((_, i) => searches[i].id === storeId)
+      return results.length > 1 ? reciprocalRankFusion(results).slice(0, topK) : (results[0] || []).slice(0, topK)
+    })
+    const merged = storeLists.length > 1
+      ? reciprocalRankFusion(storeLists, storeIds.map(id => settings.storeWeights?.[id] ?? 1))
+      : storeLists[0] || []
+    const contexts: RetrievedContext[] = merged.map(({ fusedScore, ...context }: RetrievedContext & { fusedScore?: number }) => context)
+
+    if (!settings.maxContextTokens) return contexts
+    return this.fitToTokenBudget(contexts, settings.maxContextTokens)
+  }
+
+  // Keeps whole chunks in rank order while they fit; a first chunk larger than the budget is cut short
+  private fitToTokenBudget(contexts: RetrievedContext[], maxTokens: number): RetrievedContext[] {
+    const budget = maxTokens * CHARS_PER_TOKEN
+    const kept: RetrievedContext[] = []
+    let used = 0
+    for (const context of contexts) {
+      if (used + context.content.length > budget) {
+        if (kept.length === 0) kept.push({ ...context, content: context.content.slice(0, budget) })
+        break
+      }
+      kept.push(context)
+      used += context.content.length
+    }
+    if (kept.length < contexts.length) {
+      console.log(`✂️ Context budget of ~${maxTokens} tokens kept ${kept.length} of ${contexts.length} chunks`)
+    }
+    return kept
+  }
+
+  async retrieveContext(query: string, vectorStoreId: string, options: RetrievalOptions = {}): Promise<RetrievedContext[]> {
     try {
       const vectorStore = this.vectorStores.get(vectorStoreId)
       if (!vectorStore || vectorStore.status !== 'ready') {
@@ -875,78 +2443,75 @@ export class RagService {
         return []
       }
 
-      const collection = await this.chromaClient.getCollection({
-        name: `rag_${vectorStoreId}`
-      })
+      const store = this.getVectorStoreAdapter(vectorStoreId)
+      const topK = options.topK ?? DEFAULT_RETRIEVAL_SETTINGS.topK
+      const scoreThreshold = options.scoreThreshold ?? DEFAULT_RETRIEVAL_SETTINGS.scoreThreshold
+      const searchMode = options.searchMode || DEFAULT_RETRIEVAL_SETTINGS.searchMode
+      const fallback = { ...DEFAULT_RETRIEVAL_SETTINGS.fallback, ...options.fallback }
 
       // Check collection count
-      const count = await collection.count()
+      const count = await store.count()
       console.log(`📚 Collection "${`rag_${vectorStoreId}`}" contains ${count} documents`)
 
-      const embeddings = this.getEmbeddings()
-      const queryEmbedding = await embeddings.embedQuery(query)
-
-      // First try semantic search
-      const semanticResults = await collection.query({
-        queryEmbeddings: [queryEmbedding],
-        nResults: 5, // Get more results for filtering
-        include: ['documents', 'metadatas', 'distances']
-      })
-
-      console.log(`🔍 Query embedding generated for "${query}"`)
-      console.log(`📊 Semantic search got ${semanticResults.documents?.[0]?.length || 0} results`)
-
-      let contexts: Array<{content: string, source: string, dataSourceId: string}> = []
-
-      // Process semantic results
-      if (semanticResults.documents && semanticResults.documents[0] && semanticResults.metadatas && semanticResults.metadatas[0]) {
-        for (let i = 0; i < semanticResults.documents[0].length; i++) {
-          const doc = semanticResults.documents[0][i]
-          const metadata = semanticResults.metadatas[0][i]
-          const distance = semanticResults.distances?.[0]?.[i]
-
-          if (typeof doc === 'string' && metadata && (distance === null || distance < 0.8)) { // Filter out very dissimilar results
-            contexts.push({
-              content: doc,
-              source: String(metadata.source || 'Unknown source'),
-              dataSourceId: String(metadata.dataSourceId || vectorStoreId)
-            })
-          }
-        }
-      }
+      // Misheard or misspelled names are corrected before either search runs
+      query = await this.resolveNames(query, vectorStoreId, store)
+
+      // Reranking over-fetches so it has more to choose from
+      const rerank = options.rerank !== undefined ? options.rerank : vectorStore.rerank
+      const candidateCount = rerank ? Math.max(rerank.candidates ?? DEFAULT_RERANK_CANDIDATES, topK) : topK
+      const searchLimit = Math.max(HYBRID_CANDIDATES, candidateCount)
+
+      // Semantic and keyword search run side by side over a wider candidate pool.
+      // Queries must be embedded with the same model as the stored vectors.
+      const [semanticResults, keywordResults] = await Promise.all([
+        searchMode !== 'keyword'
+          ? this.getEmbeddings(vectorStore.embeddingModel).embedQuery(options.embedText || query).then(embedding => store.query(embedding, searchLimit, options.filter))
+          : Promise.resolve([]),
+        searchMode !== 'semantic' && store.keywordQuery ? store.keywordQuery(query, searchLimit, options.filter) : Promise.resolve([]),
+      ])
+
+      console.log(`🔍 ${searchMode} search for "${query}"${options.filter ? ` filtered by ${JSON.stringify(options.filter)}` : ''}`)
+      console.log(`📊 Semantic search got ${semanticResults.length} results, keyword search got ${keywordResults.length}`)
+
+      // Keyword hits are kept whatever their semantic distance, so exact terms, IDs and names still surface
+      const fused = reciprocalRankFusion<StoredRecord>([
+        semanticResults.filter(match => match.distance < scoreThreshold), // Filter out very dissimilar results
+        keywordResults,
+      ]).slice(0, candidateCount)
+
+      let contexts: RetrievedContext[] = fused.map(record => ({
+        id: record.id,
+        content: record.content,
+        source: String(record.metadata.source || 'Unknown source'),
+        dataSourceId: String(record.metadata.dataSourceId || vectorStoreId)
+      }))
+      contexts = rerank ? await this.rerankContexts(query, contexts, rerank, topK) : contexts.slice(0, topK)
 
-      // If semantic search didn't return good results, try fuzzy matching
-      if (contexts.length === 0) {
-        console.log(`🔍 Semantic search returned no results, trying fuzzy matching...`)
+      // If neither search returned good results, try fuzzy matching
+      if (contexts.length === 0 && fallback.mode === 'fuzzy') {
+        console.log(`🔍 Search returned no results, trying fuzzy matching...`)
 
-        // Get all documents from the collection for fuzzy matching
-        const allDocs = await collection.get({
-          limit: 100, // Limit to prevent excessive processing
-          include: ['documents', 'metadatas']
-        })
+        // Get documents from the collection for fuzzy matching, capped to prevent excessive processing
+        const allDocs = await store.get({ limit: fallback.scanLimit, where: options.filter })
 
-        if (allDocs.documents) {
-          const docStrings = allDocs.documents.filter((d): d is string => typeof d === 'string')
-          const fuzzyMatches = this.findPotentialNameMatches(query, docStrings)
+        const fuzzyMatches = this.findPotentialNameMatches(query, allDocs.map(doc => doc.content))
 
-          console.log(`🎯 Found ${fuzzyMatches.length} fuzzy matches for "${query}"`)
+        console.log(`🎯 Found ${fuzzyMatches.length} fuzzy matches for "${query}"`)
 
-          for (const match of fuzzyMatches.slice(0, 3)) { // Take top 3 fuzzy matches
-            const metadata = allDocs.metadatas?.[match.index]
-            if (metadata) {
-              contexts.push({
-                content: match.doc,
-                source: String(metadata.source || 'Unknown source'),
-                dataSourceId: String(metadata.dataSourceId || vectorStoreId)
-              })
-              console.log(`🎯 Fuzzy match: "${match.doc.substring(0, 100)}..." (score: ${match.score.toFixed(2)})`)
-            }
-          }
+        for (const match of fuzzyMatches.slice(0, Math.min(fallback.maxResults, topK))) {
+          const { id, metadata } = allDocs[match.index]
+          contexts.push({
+            id,
+            content: match.doc,
+            source: String(metadata.source || 'Unknown source'),
+            dataSourceId: String(metadata.dataSourceId || vectorStoreId)
+          })
+          console.log(`🎯 Fuzzy match: "${match.doc.substring(0, 100)}..." (score: ${match.score.toFixed(2)})`)
         }
       }
 
-      if (semanticResults.distances && semanticResults.distances[0]) {
-        console.log(`📏 Semantic distances: ${semanticResults.distances[0].filter((d): d is number => d !== null).map((d: number) => d.toFixed(4)).join(', ')}`)
+      if (semanticResults.length > 0) {
+        console.log(`📏 Semantic distances: ${semanticResults.slice(0, topK).map(match => match.distance.toFixed(4)).join(', ')}`)
       }
 
       console.log(`📄 Retrieved ${contexts.length} context chunks from vector store ${vectorStoreId} (${vectorStore.name})`)
@@ -0,0 +1,126 @@
+import OpenAI from 'openai'
+import type { PreTrainedTokenizer, PreTrainedModel, Tensor } from '@huggingface/transformers'
+
+export type RerankProvider = 'cross-encoder' | 'llm'
+
+export interface RerankConfig {
+  provider: RerankProvider
+  model?: string // Hugging Face cross-encoder for 'cross-encoder', OpenAI chat model for 'llm'
+  candidates?: number // Results fetched before reranking
+  topN?: number // Results kept after reranking
+  minScore?: number // Results scoring below this (0-1) are dropped
+}
+
+// Scores each passage's relevance to the query between 0 and 1
+export interface Reranker {
+  score(query: string, passages: string[]): Promise<number[]>
+}
+
+export const RERANK_PROVIDERS: RerankProvider[] = ['cross-encoder', 'llm']
+
+const DEFAULT_CROSS_ENCODER = 'Xenova/ms-marco-MiniLM-L-6-v2'
+const DEFAULT_RERANK_LLM = 'gpt-4o-mini'
+const MAX_LLM_PASSAGE_LENGTH = 1500
+
+// Models are expensive to load, so rerankers are shared by provider and model
+const rerankers = new Map<string, Reranker>()
+
+export function getReranker(config: RerankConfig): Reranker {
+  const key = `${config.provider}:${config.model || ''}`
+  let reranker = rerankers.get(key)
+  if (reranker) return reranker
+
+  switch (config.provider) {
+    case 'cross-encoder':
+      reranker = new CrossEncoderReranker(config.model || DEFAULT_CROSS_ENCODER)
+      break
+    case 'llm':
+      reranker = new LlmReranker(config.model || DEFAULT_RERANK_LLM)
+      break
+    default:
+      throw new Error(`Unsupported rerank provider: ${config.provider}`)
+  }
+  rerankers.set(key, reranker)
+  return reranker
+}
+
+// Runs a cross-encoder (query and passage encoded together) in-process through transformers.js.
+// The model is downloaded from the Hugging Face hub on first use and cached.
+class CrossEncoderReranker implements Reranker {
+  private modelName: string
+  private loaded: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null
+
+  constructor(modelName: string) {
+    this.modelName = modelName
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return []
+    const { tokenizer, model } = await this.load()
+
+    const inputs = tokenizer(passages.map(() => query), { text_pair: passages, padding: true, truncation: true })
+    const { logits }: { logits: Tensor } = await model(inputs)
+    const scores = logits.sigmoid().tolist() as number[][]
+    return scores.map(row => row[0])
+  }
+
+  private load() {
+    if (!this.loaded) {
+      console.log(`   🧮 Loading cross-encoder ${this.modelName}`)
+      this.loaded = import('@huggingface/transformers').then(async ({ AutoTokenizer, AutoModelForSequenceClassification }) => ({
+        tokenizer: await AutoTokenizer.from_pretrained(this.modelName),
+        model: await AutoModelForSequenceClassification.from_pretrained(this.modelName),
+      }))
+      // Let the next call retry if the download failed
+      this.loaded.catch(() => { this.loaded = null })
+    }
+    return this.loaded
+  }
+}
+
+// Asks a chat model to grade every passage in one call
+class LlmReranker implements Reranker {
+  private modelName: string
+  private client: OpenAI | null = null
+
+  constructor(modelName: string) {
+    this.modelName = modelName
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    if (passages.length === 0) return []
+
+    const numbered = passages
+      .map((passage, i) => `[${i}] ${passage.slice(0, MAX_LLM_PASSAGE_LENGTH)}`)
+      .join('\n\n')
+    const completion = await this.getClient().chat.completions.create({
+      model: this.modelName,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade how well passages answer a search query. Reply with JSON {"scores": [...]} holding one integer from 0 (irrelevant) to 10 (answers the query directly) per passage, in passage order.'
+        },
+        { role: 'user', content: `Query: ${query}\n\nPassages:\n${numbered}` }
+      ],
+    })
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}') as { scores?: unknown[] }
+    return passages.map((_, i) => {
+      const score = Number(parsed.scores?.[i])
+      return Number.isFinite(score) ? Math.min(Math.max(score / 10, 0), 1) : 0
+    })
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const apiKey = process.env.OPENAI_API_KEY
+      if (!apiKey) {
+        throw new Error('OpenAI API key not found. Please set OPENAI_API_KEY environment variable.')
+      }
+      this.client = new OpenAI({ apiKey })
+    }
+    return this.client
+  }
+}
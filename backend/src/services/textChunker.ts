@@ -0,0 +1,297 @@
+import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter'
+
+export type ChunkingStrategy = 'auto' | 'fixed' | 'sentence' | 'markdown' | 'semantic'
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy // 'auto' picks by file type, as before chunking was configurable
+  chunkSize?: number // Maximum characters per chunk
+  chunkOverlap?: number // Characters repeated from the end of the previous chunk
+  breakpointPercentile?: number // Semantic: split where sentence distance is above this percentile
+}
+
+export interface TextChunk {
+  content: string
+  metadata: Record<string, string | number | boolean>
+}
+
+export type EmbedTexts = (texts: string[]) => Promise<number[][]>
+
+const DEFAULT_CHUNK_SIZE = 1000
+const DEFAULT_CHUNK_OVERLAP = 200
+const DEFAULT_JSON_CHUNK_SIZE = 800 // Smaller chunks for structured data
+const DEFAULT_JSON_CHUNK_OVERLAP = 100
+const DEFAULT_BREAKPOINT_PERCENTILE = 95
+
+const SENTENCE_BOUNDARY = /(?<=[.!?。！？])\s+|\n{2,}/
+const CSV_ROW = /^Row (\d+)$/m
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*\s*$/
+const CODE_FENCE = /^\s*(```|~~~)/
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['auto', 'fixed', 'sentence', 'markdown', 'semantic']
+
+// Throws a message naming the bad setting, for chunking options that arrive through the API.
+// `owner` leads the message, e.g. "Pipeline".
+export function validateChunkingOptions(options: unknown, owner: string): asserts options is ChunkingOptions {
+  if (typeof options !== 'object' || options === null || Array.isArray(options)) {
+    throw new Error(`${owner} chunking settings must be an object`)
+  }
+  const { strategy, chunkSize, chunkOverlap, breakpointPercentile } = options as Record<string, unknown>
+  if (strategy !== undefined && !CHUNKING_STRATEGIES.includes(strategy as ChunkingStrategy)) {
+    throw new Error(`${owner} chunking strategy must be one of ${CHUNKING_STRATEGIES.join(', ')}`)
+  }
+  if (chunkSize !== undefined && !(Number.isInteger(chunkSize) && (chunkSize as number) > 0)) {
+    throw new Error(`${owner} chunkSize must be a positive whole number`)
+  }
+  if (chunkOverlap !== undefined && !(Number.isInteger(chunkOverlap) && (chunkOverlap as number) >= 0 && (chunkOverlap as number) < ((chunkSize as number | undefined) ?? Infinity))) {
+    throw new Error(`${owner} chunkOverlap must be zero or more and smaller than chunkSize`)
+  }
+  if (breakpointPercentile !== undefined && !(typeof breakpointPercentile === 'number' && breakpointPercentile > 0 && breakpointPercentile <= 100)) {
+    throw new Error(`${owner} breakpointPercentile must be a number from 0 to 100`)
+  }
+}
+
+export class TextChunker {
+  private options: ChunkingOptions
+  private embed?: EmbedTexts
+
+  constructor(options: ChunkingOptions = {}, embed?: EmbedTexts) {
+    this.options = options
+    this.embed = embed
+  }
+
+  // `format` is the source file extension, or '' for non-file content
+  async split(content: string, format = ''): Promise<TextChunk[]> {
+    switch (this.options.strategy || 'auto') {
+      case 'fixed':
+        return this.tag(await this.splitFixed(content), 'fixed')
+      case 'sentence':
+        return this.tag(await this.splitSentences(content), 'sentences')
+      case 'markdown':
+        return this.splitMarkdown(content)
+      case 'semantic':
+        return this.splitSemantic(content)
+      default:
+        return this.splitAuto(content, format)
+    }
+  }
+
+  private get chunkSize(): number {
+    return this.options.chunkSize || DEFAULT_CHUNK_SIZE
+  }
+
+  private get chunkOverlap(): number {
+    return this.overlapFor(this.chunkSize, DEFAULT_CHUNK_OVERLAP)
+  }
+
+  private overlapFor(chunkSize: number, defaultOverlap: number): number {
+    // An overlap as large as the chunk would never advance
+    const overlap = this.options.chunkOverlap ?? defaultOverlap
+    return Math.min(overlap, Math.floor(chunkSize / 2))
+  }
+
+  private tag(contents: string[], chunkType: string): TextChunk[] {
+    return contents.map(content => ({ content, metadata: { chunkType } }))
+  }
+
+  private async splitAuto(content: string, format: string): Promise<TextChunk[]> {
+    // Different chunking strategies based on file type
+    if (format === '.csv') {
+      return this.splitCsvRows(content)
+    }
+
+    if (format === '.json') {
+      // For JSON, try to preserve object structure
+      const chunkSize = this.options.chunkSize || DEFAULT_JSON_CHUNK_SIZE
+      const splitter = new RecursiveCharacterTextSplitter({
+        chunkSize,
+        chunkOverlap: this.overlapFor(chunkSize, DEFAULT_JSON_CHUNK_OVERLAP),
+        separators: ['\n', '.', ' ', '']
+      })
+      return this.tag(await splitter.splitText(content), 'json_properties')
+    }
+
+    // Default chunking for text documents
+    return this.tag(await this.splitFixed(content), 'text_paragraphs')
+  }
+
+  // CSV sections arrive as blank-line separated row blocks ("Row N" plus one "header: value"
+  // line per column), optionally led by a group line. Splits only between rows, repeating the group line.
+  private splitCsvRows(content: string): TextChunk[] {
+    const blocks = content.split('\n\n')
+    const lead = blocks.length > 1 && !CSV_ROW.test(blocks[0]) ? blocks.shift()! : ''
+
+    const pieces: string[][] = []
+    let current: string[] = []
+    let length = lead.length
+    for (const block of blocks) {
+      if (current.length > 0 && length + block.length + 2 > this.chunkSize) {
+        pieces.push(current)
+        current = []
+        length = lead.length
+      }
+      current.push(block)
+      length += block.length + 2
+    }
+    if (current.length > 0) pieces.push(current)
+
+    return pieces.map(piece => {
+      const rowNumbers = piece.map(block => Number(block.match(CSV_ROW)?.[1])).filter(Number.isFinite)
+      const metadata: TextChunk['metadata'] = { chunkType: 'csv_rows' }
+      if (rowNumbers.length > 0) {
+        metadata.startRow = Math.min(...rowNumbers)
+        metadata.endRow = Math.max(...rowNumbers)
+      }
+      return { content: [lead, ...piece].filter(Boolean).join('\n\n'), metadata }
+    })
+  }
+
+  private async splitFixed(content: string): Promise<string[]> {
+    const splitter = new RecursiveCharacterTextSplitter({
+      chunkSize: this.chunkSize,
+      chunkOverlap: this.chunkOverlap,
+      separators: ['\n\n', '\n', '.', ' ', '']
+    })
+    return splitter.splitText(content)
+  }
+
+  private sentences(content: string): string[] {
+    return content
+      .split(SENTENCE_BOUNDARY)
+      .map(sentence => sentence.replace(/\s+/g, ' ').trim())
+      .filter(sentence => sentence.length > 0)
+  }
+
+  private async splitSentences(content: string): Promise<string[]> {
+    return this.packSentences(this.sentences(content))
+  }
+
+  // Fills chunks with whole sentences; overlap carries trailing sentences into the next chunk
+  private async packSentences(sentences: string[]): Promise<string[]> {
+    const chunks: string[] = []
+    let current: string[] = []
+    let length = 0
+
+    for (const sentence of sentences) {
+      if (sentence.length > this.chunkSize) {
+        if (current.length > 0) chunks.push(current.join(' '))
+        chunks.push(...await this.splitFixed(sentence))
+        current = []
+        length = 0
+        continue
+      }
+
+      if (length + sentence.length + 1 > this.chunkSize && current.length > 0) {
+        chunks.push(current.join(' '))
+
+        const carried: string[] = []
+        let carriedLength = 0
+        for (let i = current.length - 1; i >= 0; i--) {
+          if (carriedLength + current[i].length + 1 > this.chunkOverlap) break
+          carried.unshift(current[i])
+          carriedLength += current[i].length + 1
+        }
+        // Drop the overlap if it would leave no room for the sentence itself
+        const fits = carriedLength + sentence.length + 1 <= this.chunkSize
+        current = fits ? carried : []
+        length = fits ? carriedLength : 0
+      }
+
+      current.push(sentence)
+      length += sentence.length + 1
+    }
+
+    if (current.length > 0) chunks.push(current.join(' '))
+    return chunks
+  }
+
+  private async splitMarkdown(content: string): Promise<TextChunk[]> {
+    const sections: Array<{ headingPath: string[]; lines: string[] }> = []
+    const headingStack: Array<{ level: number; text: string }> = []
+    let current: { headingPath: string[]; lines: string[] } = { headingPath: [], lines: [] }
+    let inCodeBlock = false
+
+    for (const line of content.split('\n')) {
+      if (CODE_FENCE.test(line)) inCodeBlock = !inCodeBlock
+
+      const heading = inCodeBlock ? null : line.match(MARKDOWN_HEADING)
+      if (heading) {
+        if (current.lines.some(l => l.trim())) sections.push(current)
+
+        const level = heading[1].length
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+          headingStack.pop()
+        }
+        headingStack.push({ level, text: heading[2] })
+        current = { headingPath: headingStack.map(h => h.text), lines: [line] }
+        continue
+      }
+      current.lines.push(line)
+    }
+    if (current.lines.some(l => l.trim())) sections.push(current)
+
+    const chunks: TextChunk[] = []
+    for (const section of sections) {
+      const metadata: TextChunk['metadata'] = { chunkType: 'markdown_section' }
+      if (section.headingPath.length > 0) {
+        metadata.heading = section.headingPath[section.headingPath.length - 1]
+        metadata.headingPath = section.headingPath.join(' > ')
+      }
+
+      const text = section.lines.join('\n').trim()
+      const pieces = text.length > this.chunkSize ? await this.splitFixed(text) : [text]
+      for (const piece of pieces) {
+        chunks.push({ content: piece, metadata: { ...metadata } })
+      }
+    }
+    return chunks
+  }
+
+  // Groups consecutive sentences and starts a new chunk where the topic shifts,
+  // i.e. where the embedding distance between neighbouring sentences spikes
+  private async splitSemantic(content: string): Promise<TextChunk[]> {
+    const sentences = this.sentences(content)
+    if (!this.embed || sentences.length < 3) {
+      return this.tag(await this.packSentences(sentences), 'sentences')
+    }
+
+    const vectors = await this.embed(sentences)
+    const distances: number[] = []
+    for (let i = 0; i < vectors.length - 1; i++) {
+      distances.push(1 - cosineSimilarity(vectors[i], vectors[i + 1]))
+    }
+    const threshold = percentile(distances, this.options.breakpointPercentile ?? DEFAULT_BREAKPOINT_PERCENTILE)
+
+    const groups: string[][] = [[sentences[0]]]
+    for (let i = 1; i < sentences.length; i++) {
+      if (distances[i - 1] > threshold) groups.push([])
+      groups[groups.length - 1].push(sentences[i])
+    }
+
+    // Keep the size limit even when a topic runs long
+    const chunks: TextChunk[] = []
+    for (const group of groups) {
+      const text = group.join(' ')
+      const pieces = text.length > this.chunkSize ? await this.packSentences(group) : [text]
+      chunks.push(...this.tag(pieces, 'semantic'))
+    }
+    return chunks
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))
+  return sorted[index]
+}
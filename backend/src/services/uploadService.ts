@@ -0,0 +1,215 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { v4 as uuidv4 } from 'uuid'
+import { FileLoader } from './loaders/fileLoader'
+import { extractArchive, isArchive, safeRelativePath } from './archives'
+
+// A resumable upload: the client sends the file in chunks at increasing offsets and, after an
+// interruption, asks for `received` and carries on from there
+export interface UploadSession {
+  id: string
+  fileName: string
+  relativePath: string // Where the file goes in a directory upload, e.g. "docs/guide.md"
+  size: number
+  received: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A file on disk, ready to be placed in a data source
+export interface ReceivedFile {
+  path: string
+  relativePath: string
+  size: number
+}
+
+// `status` is the HTTP status the route answers with; offset conflicts report the bytes received
+export class UploadError extends Error {
+  constructor(message: string, public status = 400, public received?: number) {
+    super(message)
+    this.name = 'UploadError'
+  }
+}
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024
+const SESSION_EXPIRY_MS = 24 * 60 * 60 * 1000
+const SESSION_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+function limitFromEnv(name: string, fallbackMb: number): number {
+  const mb = Number(process.env[name])
+  return (Number.isFinite(mb) && mb > 0 ? mb : fallbackMb) * 1024 * 1024
+}
+
+// Keeps resumable upload sessions under `<uploads>/.sessions` (so they survive restarts) and
+// turns received files into what a data source indexes: the file itself, or a directory
+// holding every file at its relative path with archives expanded in place.
+export class UploadService {
+  private uploadDir: string
+  private sessionDir: string
+  private writing: Set<string> = new Set()
+  readonly maxFileSize = limitFromEnv('RAG_UPLOAD_MAX_FILE_MB', 2048)
+  readonly maxExtractedSize = limitFromEnv('RAG_UPLOAD_MAX_EXTRACTED_MB', 2048)
+  readonly maxArchiveEntries = 10000
+
+  constructor(uploadDir: string) {
+    this.uploadDir = uploadDir
+    this.sessionDir = path.join(uploadDir, '.sessions')
+    fs.mkdirSync(this.sessionDir, { recursive: true })
+  }
+
+  createSession(data: { fileName: string; size: number; relativePath?: string }): UploadSession {
+    if (typeof data.fileName !== 'string' || !data.fileName.trim()) {
+      throw new UploadError('fileName is required')
+    }
+    if (!Number.isInteger(data.size) || data.size < 0) {
+      throw new UploadError('size must be a whole number of bytes')
+    }
+    if (data.size > this.maxFileSize) {
+      throw new UploadError(`Files can be at most ${Math.round(this.maxFileSize / (1024 * 1024))}MB`, 413)
+    }
+    const relativePath = safeRelativePath(data.relativePath || path.basename(data.fileName))
+    this.checkFileType(relativePath)
+    this.expireSessions()
+
+    const now = new Date()
+    const session: UploadSession = {
+      id: uuidv4(),
+      fileName: path.basename(data.fileName),
+      relativePath,
+      size: data.size,
+      received: 0,
+      createdAt: now,
+      updatedAt: now,
+    }
+    fs.writeFileSync(this.partPath(session.id), '')
+    this.saveSession(session)
+    return session
+  }
+
+  getSession(id: string): UploadSession | null {
+    if (!SESSION_ID_PATTERN.test(id) || !fs.existsSync(this.metadataPath(id))) return null
+    const session = JSON.parse(fs.readFileSync(this.metadataPath(id), 'utf8'))
+    return { ...session, createdAt: new Date(session.createdAt), updatedAt: new Date(session.updatedAt) }
+  }
+
+  // Chunks must arrive in order; one sent for any other offset is refused with the offset expected
+  async appendChunk(id: string, offset: number, chunk: Buffer): Promise<UploadSession> {
+    const session = this.getSession(id)
+    if (!session) throw new UploadError('Upload not found', 404)
+    if (this.writing.has(id)) throw new UploadError('A chunk for this upload is still being written', 409, session.received)
+    if (offset !== session.received) {
+      throw new UploadError(`Expected a chunk at offset ${session.received}`, 409, session.received)
+    }
+    if (session.received + chunk.length > session.size) {
+      throw new UploadError('Chunk goes past the end of the file')
+    }
+
+    this.writing.add(id)
+    try {
+      await fs.promises.appendFile(this.partPath(id), chunk)
+      session.received += chunk.length
+      session.updatedAt = new Date()
+      this.saveSession(session)
+      return session
+    } finally {
+      this.writing.delete(id)
+    }
+  }
+
+  cancelSession(id: string): boolean {
+    if (!this.getSession(id)) return false
+    this.removeSession(id)
+    return true
+  }
+
+  // Hands over the files of finished sessions; the sessions end here
+  takeSessions(ids: string[]): ReceivedFile[] {
+    const sessions = ids.map(id => {
+      const session = typeof id === 'string' ? this.getSession(id) : null
+      if (!session) throw new UploadError(`Upload ${id} not found`)
+      if (session.received !== session.size) {
+        throw new UploadError(`Upload of ${session.relativePath} is incomplete (${session.received} of ${session.size} bytes)`)
+      }
+      return session
+    })
+
+    return sessions.map(session => {
+      const file = path.join(this.uploadDir, `${Date.now()}-${session.id}${path.extname(session.fileName)}`)
+      fs.renameSync(this.partPath(session.id), file)
+      fs.rmSync(this.metadataPath(session.id), { force: true })
+      return { path: file, relativePath: session.relativePath, size: session.size }
+    })
+  }
+
+  checkFileType(fileName: string): void {
+    if (!FileLoader.isSupported(fileName) && !isArchive(fileName)) {
+      throw new UploadError(`File type ${path.extname(fileName).toLowerCase() || 'without extension'} not supported`)
+    }
+  }
+
+  // Moves the files into a new directory under the uploads folder, keeping their relative paths,
+  // and expands archives into the folder they were uploaded to. Files of unsupported types
+  // inside archives are skipped.
+  async createDirectory(name: string, files: ReceivedFile[]): Promise<string> {
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'upload'
+    const directory = path.join(this.uploadDir, `${Date.now()}-${slug}`)
+    fs.mkdirSync(directory, { recursive: true })
+
+    try {
+      const taken = new Set<string>()
+      for (const file of files) {
+        const relativePath = safeRelativePath(file.relativePath)
+        if (isArchive(relativePath)) {
+          const parent = path.dirname(relativePath)
+          const written = await extractArchive(file.path, relativePath, path.join(directory, parent), {
+            include: entry => FileLoader.isSupported(entry) && !taken.has(path.posix.join(parent, entry)),
+            maxBytes: this.maxExtractedSize,
+            maxEntries: this.maxArchiveEntries,
+          })
+          written.forEach(entry => taken.add(path.posix.join(parent, entry)))
+          fs.rmSync(file.path, { force: true })
+          console.log(`📦 Extracted ${written.length} files from ${relativePath}`)
+        } else {
+          if (taken.has(relativePath)) throw new UploadError(`${relativePath} was uploaded twice`)
+          const target = path.join(directory, relativePath)
+          fs.mkdirSync(path.dirname(target), { recursive: true })
+          fs.renameSync(file.path, target)
+          taken.add(relativePath)
+        }
+      }
+      if (taken.size === 0) {
+        throw new UploadError('The upload contains no supported files')
+      }
+    } catch (error) {
+      fs.rmSync(directory, { recursive: true, force: true })
+      throw error instanceof UploadError ? error : new UploadError(error instanceof Error ? error.message : String(error))
+    }
+    return directory
+  }
+
+  private expireSessions(): void {
+    const cutoff = Date.now() - SESSION_EXPIRY_MS
+    for (const entry of fs.readdirSync(this.sessionDir).filter(entry => entry.endsWith('.json'))) {
+      const id = path.basename(entry, '.json')
+      const session = this.getSession(id)
+      if (session && session.updatedAt.getTime() < cutoff) this.removeSession(id)
+    }
+  }
+
+  private saveSession(session: UploadSession): void {
+    fs.writeFileSync(this.metadataPath(session.id), JSON.stringify(session))
+  }
+
+  private removeSession(id: string): void {
+    fs.rmSync(this.partPath(id), { force: true })
+    fs.rmSync(this.metadataPath(id), { force: true })
+  }
+
+  private metadataPath(id: string): string {
+    return path.join(this.sessionDir, `${id}.json`)
+  }
+
+  private partPath(id: string): string {
+    return path.join(this.sessionDir, `${id}.part`)
+  }
+}
@@ -0,0 +1,130 @@
+import { MetadataValue } from './vectorStoreAdapter'
+
+export interface SerializedBm25 {
+  version: 1
+  // [id, token count, [term, frequency][], metadata]
+  documents: Array<[string, number, Array<[string, number]>, Record<string, MetadataValue>]>
+}
+
+interface IndexedDocument {
+  length: number
+  terms: Map<string, number>
+  metadata: Record<string, MetadataValue>
+}
+
+// Standard Okapi BM25 parameters
+const K1 = 1.2
+const B = 0.75
+
+// Lowercased letter/digit runs with diacritics removed, so "Müller" matches "muller"
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || []
+}
+
+// In-memory inverted index scored with BM25
+export class Bm25Index {
+  private documents: Map<string, IndexedDocument> = new Map()
+  private postings: Map<string, Map<string, number>> = new Map()
+  private totalLength = 0
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  add(id: string, text: string, metadata: Record<string, MetadataValue> = {}): void {
+    this.remove(id)
+
+    const tokens = tokenize(text)
+    const terms = new Map<string, number>()
+    for (const token of tokens) {
+      terms.set(token, (terms.get(token) || 0) + 1)
+    }
+    this.insert(id, { length: tokens.length, terms, metadata })
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id)
+    if (!document) return
+
+    for (const term of document.terms.keys()) {
+      const posting = this.postings.get(term)
+      posting?.delete(id)
+      if (posting?.size === 0) this.postings.delete(term)
+    }
+    this.totalLength -= document.length
+    this.documents.delete(id)
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.postings.clear()
+    this.totalLength = 0
+  }
+
+  // Whether any indexed record contains the term
+  has(term: string): boolean {
+    return this.postings.has(term)
+  }
+
+  // IDs whose stored metadata passes `accept`
+  ids(accept?: (metadata: Record<string, MetadataValue>) => boolean): string[] {
+    return [...this.documents.entries()].filter(([, document]) => !accept || accept(document.metadata)).map(([id]) => id)
+  }
+
+  search(query: string, limit: number, accept?: (metadata: Record<string, MetadataValue>) => boolean): Array<{ id: string; score: number }> {
+    const count = this.documents.size
+    if (count === 0 || limit <= 0) return []
+    const averageLength = this.totalLength / count || 1
+
+    const scores = new Map<string, number>()
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term)
+      if (!posting) continue
+
+      const idf = Math.log(1 + (count - posting.size + 0.5) / (posting.size + 0.5))
+      for (const [id, frequency] of posting) {
+        const length = this.documents.get(id)!.length
+        const score = idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength))
+        scores.set(id, (scores.get(id) || 0) + score)
+      }
+    }
+
+    return [...scores.entries()]
+      .filter(([id]) => !accept || accept(this.documents.get(id)!.metadata))
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  serialize(): SerializedBm25 {
+    return {
+      version: 1,
+      documents: [...this.documents.entries()].map(([id, document]) => [id, document.length, [...document.terms.entries()], document.metadata]),
+    }
+  }
+
+  static deserialize(data: SerializedBm25): Bm25Index {
+    const index = new Bm25Index()
+    for (const [id, length, terms, metadata] of data.documents) {
+      index.insert(id, { length, terms: new Map(terms), metadata })
+    }
+    return index
+  }
+
+  private insert(id: string, document: IndexedDocument): void {
+    this.documents.set(id, document)
+    this.totalLength += document.length
+    for (const [term, frequency] of document.terms) {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(id, frequency)
+    }
+  }
+}
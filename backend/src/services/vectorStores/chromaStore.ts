@@ -0,0 +1,128 @@
+import { ChromaClient, Collection, Where } from 'chromadb'
+import {
+  VectorStoreAdapter,
+  VectorStoreConnection,
+  VectorRecord,
+  StoredRecord,
+  VectorMatch,
+  MetadataFilter,
+  MetadataValue,
+  resolveBaseUrl,
+} from './vectorStoreAdapter'
+
+const DEFAULT_CHROMA_PORT = 8000
+
+export class ChromaStore implements VectorStoreAdapter {
+  private client: ChromaClient
+  private name: string
+  private collection: Promise<Collection> | null = null
+
+  constructor(connection: VectorStoreConnection, name: string) {
+    const url = resolveBaseUrl(connection.host, connection.port, DEFAULT_CHROMA_PORT)
+    this.client = new ChromaClient({
+      host: url.hostname,
+      port: url.port ? Number(url.port) : undefined,
+      ssl: url.protocol === 'https:',
+      // Chroma's token auth reads this header
+      headers: connection.apiKey ? { 'x-chroma-token': connection.apiKey } : undefined,
+    })
+    this.name = name
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return
+    const collection = await this.getCollection()
+    await collection.upsert({
+      ids: records.map(record => record.id),
+      embeddings: records.map(record => record.embedding),
+      documents: records.map(record => record.content),
+      metadatas: records.map(record => record.metadata),
+    })
+  }
+
+  async query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]> {
+    const collection = await this.getCollection()
+    const result = await collection.query({
+      queryEmbeddings: [embedding],
+      nResults: limit,
+      where: toWhere(where),
+      include: ['documents', 'metadatas', 'distances'],
+    })
+
+    const matches: VectorMatch[] = []
+    const ids = result.ids[0] || []
+    for (let i = 0; i < ids.length; i++) {
+      const content = result.documents?.[0]?.[i]
+      if (typeof content !== 'string') continue
+      matches.push({
+        id: ids[i],
+        content,
+        metadata: toMetadata(result.metadatas?.[0]?.[i]),
+        distance: result.distances?.[0]?.[i] ?? 0,
+      })
+    }
+    return matches
+  }
+
+  async get(options: { ids?: string[]; where?: MetadataFilter; limit?: number } = {}): Promise<StoredRecord[]> {
+    const collection = await this.getCollection()
+    const result = await collection.get({
+      ids: options.ids,
+      where: toWhere(options.where),
+      limit: options.limit,
+      include: ['documents', 'metadatas'],
+    })
+    return result.ids.map((id, i) => ({
+      id,
+      content: result.documents[i] ?? '',
+      metadata: toMetadata(result.metadatas[i]),
+    }))
+  }
+
+  async delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void> {
+    if (options.ids?.length === 0) return
+    const collection = await this.getCollection()
+    await collection.delete({ ids: options.ids, where: toWhere(options.where) })
+  }
+
+  async count(): Promise<number> {
+    const collection = await this.getCollection()
+    return collection.count()
+  }
+
+  async drop(): Promise<void> {
+    this.collection = null
+    await this.client.deleteCollection({ name: this.name })
+  }
+
+  private getCollection(): Promise<Collection> {
+    if (!this.collection) {
+      this.collection = this.client.getOrCreateCollection({ name: this.name })
+      // Let the next call retry if Chroma was unreachable
+      this.collection.catch(() => { this.collection = null })
+    }
+    return this.collection
+  }
+}
+
+// Chroma only accepts a single condition per where clause, so several keys or operators become an $and
+function toWhere(filter?: MetadataFilter): Where | undefined {
+  if (!filter) return undefined
+  const clauses = Object.entries(filter).flatMap(([key, condition]) =>
+    typeof condition === 'object'
+      ? Object.entries(condition).map(([operator, operand]) => ({ [key]: { [operator]: operand } }) as Where)
+      : [{ [key]: condition } as Where]
+  )
+  if (clauses.length === 0) return undefined
+  return clauses.length === 1 ? clauses[0] : { $and: clauses }
+}
+
+function toMetadata(metadata: Record<string, unknown> | null | undefined): Record<string, MetadataValue> {
+  const result: Record<string, MetadataValue> = {}
+  for (const [key, value] of Object.entries(metadata || {})) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      result[key] = value
+    }
+  }
+  return result
+}
@@ -0,0 +1,410 @@
+// Double Metaphone (Lawrence Philips, 2000): a primary and an alternate phonetic code per word,
+// so names that sound alike, such as "Chen"/"Chin" or "Schmidt"/"Smith", share a code.
+
+const CODE_LENGTH = 4
+
+const isVowel = (character: string) => 'AEIOUY'.includes(character)
+
+export function doubleMetaphone(word: string): [string, string] {
+  const original = word.normalize('NFKD').replace(/\p{M}/gu, '').toUpperCase()
+  const length = original.length
+  const last = length - 1
+  // Padding lets lookahead past the end read spaces, as in the reference implementation
+  const value = `${original}     `
+  const at = (index: number) => (index >= 0 ? value[index] : '')
+  const slice = (start: number, count: number) => (start >= 0 ? value.slice(start, start + count) : '')
+  const isOneOf = (start: number, count: number, ...options: string[]) => options.includes(slice(start, count))
+
+  const slavoGermanic = /W|K|CZ|WITZ/.test(original)
+  const germanic = isOneOf(0, 4, 'VAN ', 'VON ') || slice(0, 3) === 'SCH'
+
+  let primary = ''
+  let secondary = ''
+  const add = (main: string, alternate = main) => {
+    primary += main
+    secondary += alternate
+  }
+
+  let index = 0
+  // Silent first letter, as in "Gnome", "Knight", "Psalm", "Wright"
+  if (isOneOf(0, 2, 'GN', 'KN', 'PN', 'WR', 'PS')) index++
+  // Initial X sounds like Z, as in "Xavier"
+  if (at(0) === 'X') {
+    add('S')
+    index++
+  }
+
+  while (index < length && (primary.length < CODE_LENGTH || secondary.length < CODE_LENGTH)) {
+    const character = at(index)
+    const previous = at(index - 1)
+    const next = at(index + 1)
+
+    switch (character) {
+      case 'A':
+      case 'E':
+      case 'I':
+      case 'O':
+      case 'U':
+      case 'Y':
+        if (index === 0) add('A')
+        index++
+        break
+
+      case 'B':
+        add('P')
+        index += next === 'B' ? 2 : 1
+        break
+
+      case 'C':
+        // Germanic "-ach-", as in "Bacher", but not "Macher"
+        if (index > 1 && !isVowel(at(index - 2)) && slice(index - 1, 3) === 'ACH' && at(index + 2) !== 'I' &&
+            (at(index + 2) !== 'E' || isOneOf(index - 2, 6, 'BACHER', 'MACHER'))) {
+          add('K')
+          index += 2
+          break
+        }
+        if (index === 0 && slice(index, 6) === 'CAESAR') {
+          add('S')
+          index += 2
+          break
+        }
+        if (slice(index, 4) === 'CHIA') {
+          add('K')
+          index += 2
+          break
+        }
+        if (slice(index, 2) === 'CH') {
+          if (index > 0 && slice(index, 4) === 'CHAE') {
+            add('K', 'X') // "Michael"
+          } else if (index === 0 && (isOneOf(index + 1, 5, 'HARAC', 'HARIS') || isOneOf(index + 1, 3, 'HOR', 'HYM', 'HIA', 'HEM')) && slice(0, 5) !== 'CHORE') {
+            add('K') // Greek roots, as in "chemistry", "chorus"
+          } else if (germanic || isOneOf(index - 2, 6, 'ORCHES', 'ARCHIT', 'ORCHID') || 'TS'.includes(at(index + 2)) ||
+              ((index === 0 || 'AOUE'.includes(previous)) && 'LRNMBHFVW '.includes(at(index + 2)))) {
+            add('K')
+          } else if (index > 0) {
+            add(slice(0, 2) === 'MC' ? 'K' : 'X', 'K') // "McHugh"
+          } else {
+            add('X')
+          }
+          index += 2
+          break
+        }
+        if (slice(index, 2) === 'CZ' && slice(index - 2, 4) !== 'WICZ') {
+          add('S', 'X') // "Czerny"
+          index += 2
+          break
+        }
+        if (slice(index + 1, 3) === 'CIA') {
+          add('X') // "Focaccia"
+          index += 3
+          break
+        }
+        if (slice(index, 2) === 'CC' && !(index === 1 && at(0) === 'M')) {
+          if ('IEH'.includes(at(index + 2)) && slice(index + 2, 2) !== 'HU') {
+            // "Accident", "Succeed" versus Italian "Bacci"
+            add((index === 1 && previous === 'A') || isOneOf(index - 1, 5, 'UCCEE', 'UCCES') ? 'KS' : 'X')
+            index += 3
+          } else {
+            add('K')
+            index += 2
+          }
+          break
+        }
+        if (isOneOf(index, 2, 'CK', 'CG', 'CQ')) {
+          add('K')
+          index += 2
+          break
+        }
+        if (isOneOf(index, 2, 'CI', 'CE', 'CY')) {
+          if (isOneOf(index, 3, 'CIO', 'CIE', 'CIA')) add('S', 'X')
+          else add('S')
+          index += 2
+          break
+        }
+        add('K')
+        if (isOneOf(index + 1, 2, ' C', ' Q', ' G')) index += 3
+        else if ('CKQ'.includes(next) && !isOneOf(index + 1, 2, 'CE', 'CI')) index += 2
+        else index++
+        break
+
+      case 'D':
+        if (slice(index, 2) === 'DG') {
+          if ('IEY'.includes(at(index + 2))) {
+            add('J') // "Edge"
+            index += 3
+          } else {
+            add('TK') // "Edgar"
+            index += 2
+          }
+          break
+        }
+        add('T')
+        index += isOneOf(index, 2, 'DT', 'DD') ? 2 : 1
+        break
+
+      case 'F':
+        add('F')
+        index += next === 'F' ? 2 : 1
+        break
+
+      case 'G':
+        if (next === 'H') {
+          if (index > 0 && !isVowel(previous)) {
+            add('K')
+          } else if (index === 0) {
+            add(at(index + 2) === 'I' ? 'J' : 'K') // "Ghislane" versus "Ghent"
+          } else if ((index > 1 && 'BHD'.includes(at(index - 2))) || (index > 2 && 'BHD'.includes(at(index - 3))) ||
+              (index > 3 && 'BH'.includes(at(index - 4)))) {
+            // Silent, as in "Hugh", "bough", "Broughton"
+          } else if (index > 2 && previous === 'U' && 'CGLRT'.includes(at(index - 3))) {
+            add('F') // "Laugh", "tough"
+          } else if (previous !== 'I') {
+            add('K')
+          }
+          index += 2
+          break
+        }
+        if (next === 'N') {
+          if (index === 1 && isVowel(at(0)) && !slavoGermanic) add('KN', 'N')
+          else if (slice(index + 2, 2) !== 'EY' && !slavoGermanic) add('N', 'KN')
+          else add('KN')
+          index += 2
+          break
+        }
+        if (slice(index + 1, 2) === 'LI' && !slavoGermanic) {
+          add('KL', 'L') // "Tagliaro"
+          index += 2
+          break
+        }
+        if (index === 0 && (next === 'Y' || isOneOf(1, 2, 'ES', 'EP', 'EB', 'EL', 'EY', 'IB', 'IL', 'IN', 'IE', 'EI', 'ER'))) {
+          add('K', 'J')
+          index += 2
+          break
+        }
+        if ((slice(index + 1, 2) === 'ER' || next === 'Y') && !isOneOf(0, 6, 'DANGER', 'RANGER', 'MANGER') &&
+            !'EI'.includes(previous) && !isOneOf(index - 1, 3, 'RGY', 'OGY')) {
+          add('K', 'J')
+          index += 2
+          break
+        }
+        if ('EIY'.includes(next) || isOneOf(index - 1, 4, 'AGGI', 'OGGI')) {
+          if (germanic || slice(index + 1, 2) === 'ET') add('K')
+          else add('J', slice(index + 1, 4) === 'IER ' ? 'J' : 'K')
+          index += 2
+          break
+        }
+        add('K')
+        index += next === 'G' ? 2 : 1
+        break
+
+      case 'H':
+        // Kept only at the start or between vowels
+        if ((index === 0 || isVowel(previous)) && isVowel(next)) {
+          add('H')
+          index += 2
+        } else {
+          index++
+        }
+        break
+
+      case 'J':
+        if (slice(index, 4) === 'JOSE' || slice(0, 4) === 'SAN ') {
+          if ((index === 0 && at(index + 4) === ' ') || slice(0, 4) === 'SAN ') add('H')
+          else add('J', 'H')
+          index++
+          break
+        }
+        if (index === 0) {
+          add('J', 'A') // "Jankelowicz" and "Yankelovich"
+        } else if (isVowel(previous) && !slavoGermanic && (next === 'A' || next === 'O')) {
+          add('J', 'H') // Spanish "bajador"
+        } else if (index === last) {
+          add('J', '')
+        } else if (!'LTKSNMBZ'.includes(next) && !'SKL'.includes(previous)) {
+          add('J')
+        }
+        index += next === 'J' ? 2 : 1
+        break
+
+      case 'K':
+        add('K')
+        index += next === 'K' ? 2 : 1
+        break
+
+      case 'L':
+        if (next === 'L') {
+          // Spanish, as in "Cabrillo", "Gallegos"
+          if ((index === length - 3 && isOneOf(index - 1, 4, 'ILLO', 'ILLA', 'ALLE')) ||
+              ((isOneOf(last - 1, 2, 'AS', 'OS') || 'AO'.includes(at(last))) && slice(index - 1, 4) === 'ALLE')) {
+            add('L', '')
+          } else {
+            add('L')
+          }
+          index += 2
+          break
+        }
+        add('L')
+        index++
+        break
+
+      case 'M':
+        add('M')
+        // Silent B, as in "dumb", "thumber"
+        index += (slice(index - 1, 3) === 'UMB' && (index + 1 === last || slice(index + 2, 2) === 'ER')) || next === 'M' ? 2 : 1
+        break
+
+      case 'N':
+        add('N')
+        index += next === 'N' ? 2 : 1
+        break
+
+      case 'P':
+        if (next === 'H') {
+          add('F')
+          index += 2
+          break
+        }
+        add('P')
+        // "Campbell", "raspberry"
+        index += 'PB'.includes(next) ? 2 : 1
+        break
+
+      case 'Q':
+        add('K')
+        index += next === 'Q' ? 2 : 1
+        break
+
+      case 'R':
+        // French, as in "Rogier", but not "Hochmeier"
+        if (index === last && !slavoGermanic && slice(index - 2, 2) === 'IE' && !isOneOf(index - 4, 2, 'ME', 'MA')) add('', 'R')
+        else add('R')
+        index += next === 'R' ? 2 : 1
+        break
+
+      case 'S':
+        if (isOneOf(index - 1, 3, 'ISL', 'YSL')) {
+          index++ // "Island", "Carlisle"
+          break
+        }
+        if (index === 0 && slice(index, 5) === 'SUGAR') {
+          add('X', 'S')
+          index++
+          break
+        }
+        if (slice(index, 2) === 'SH') {
+          add(isOneOf(index + 1, 4, 'HEIM', 'HOEK', 'HOLM', 'HOLZ') ? 'S' : 'X')
+          index += 2
+          break
+        }
+        if (isOneOf(index, 3, 'SIO', 'SIA')) {
+          add('S', slavoGermanic ? 'S' : 'X')
+          index += 3
+          break
+        }
+        // "Smith" matching "Schmidt", "Snider" matching "Schneider"
+        if ((index === 0 && 'MNLW'.includes(next)) || next === 'Z') {
+          add('S', 'X')
+          index += next === 'Z' ? 2 : 1
+          break
+        }
+        if (slice(index, 2) === 'SC') {
+          if (at(index + 2) === 'H') {
+            if (isOneOf(index + 3, 2, 'OO', 'ER', 'EN', 'UY', 'ED', 'EM')) {
+              // Dutch, as in "school", or "Schermerhorn"
+              add(isOneOf(index + 3, 2, 'ER', 'EN') ? 'X' : 'SK', 'SK')
+            } else if (index === 0 && !isVowel(at(3)) && at(3) !== 'W') {
+              add('X', 'S')
+            } else {
+              add('X')
+            }
+          } else if ('IEY'.includes(at(index + 2))) {
+            add('S')
+          } else {
+            add('SK')
+          }
+          index += 3
+          break
+        }
+        // French, as in "Resnais", "Artois"
+        if (index === last && isOneOf(index - 2, 2, 'AI', 'OI')) add('', 'S')
+        else add('S')
+        index += 'SZ'.includes(next) ? 2 : 1
+        break
+
+      case 'T':
+        if (slice(index, 4) === 'TION' || isOneOf(index, 3, 'TIA', 'TCH')) {
+          add('X')
+          index += 3
+          break
+        }
+        if (slice(index, 2) === 'TH' || slice(index, 3) === 'TTH') {
+          // "Thomas", "Thames"
+          if (isOneOf(index + 2, 2, 'OM', 'AM') || germanic) add('T')
+          else add('0', 'T')
+          index += 2
+          break
+        }
+        add('T')
+        index += 'TD'.includes(next) ? 2 : 1
+        break
+
+      case 'V':
+        add('F')
+        index += next === 'V' ? 2 : 1
+        break
+
+      case 'W':
+        if (next === 'R') {
+          add('R')
+          index += 2
+          break
+        }
+        if (index === 0 && (isVowel(next) || next === 'H')) {
+          // "Wasserman" matching "Vasserman"
+          add('A', isVowel(next) ? 'F' : 'A')
+        }
+        // "Arnow" matching "Arnoff"
+        if ((index === last && isVowel(previous)) || isOneOf(index - 1, 5, 'EWSKI', 'EWSKY', 'OWSKI', 'OWSKY') || slice(0, 3) === 'SCH') {
+          add('', 'F')
+          index++
+          break
+        }
+        if (isOneOf(index, 4, 'WICZ', 'WITZ')) {
+          add('TS', 'FX') // Polish, as in "Filipowicz"
+          index += 4
+          break
+        }
+        index++
+        break
+
+      case 'X':
+        // French, as in "Breaux"
+        if (!(index === last && (isOneOf(index - 3, 3, 'IAU', 'EAU') || isOneOf(index - 2, 2, 'AU', 'OU')))) add('KS')
+        index += 'CX'.includes(next) ? 2 : 1
+        break
+
+      case 'Z':
+        if (next === 'H') {
+          add('J') // Pinyin, as in "Zhao"
+          index += 2
+          break
+        }
+        if (isOneOf(index + 1, 2, 'ZO', 'ZI', 'ZA') || (slavoGermanic && index > 0 && previous !== 'T')) add('S', 'TS')
+        else add('S')
+        index += next === 'Z' ? 2 : 1
+        break
+
+      default:
+        index++
+    }
+  }
+
+  return [primary.slice(0, CODE_LENGTH), secondary.slice(0, CODE_LENGTH)]
+}
+
+// Whether two words share either of their phonetic codes
+export function soundsAlike(a: string, b: string): boolean {
+  const [a1, a2] = doubleMetaphone(a)
+  const [b1, b2] = doubleMetaphone(b)
+  return [a1, a2].some(code => code !== '' && (code === b1 || code === b2))
+}
@@ -0,0 +1,329 @@
+export type DistanceSpace = 'cosine' | 'l2'
+
+export interface HnswOptions {
+  space: DistanceSpace
+  m?: number // Links per node on the upper layers; layer 0 keeps twice as many
+  efConstruction?: number // Candidate list size while inserting
+}
+
+export interface SerializedHnsw {
+  space: DistanceSpace
+  dimensions: number
+  m: number
+  efConstruction: number
+  entryPoint: number
+  maxLevel: number
+  nodes: Array<{ level: number; neighbors: number[][]; deleted?: boolean }>
+}
+
+const DEFAULT_M = 16
+const DEFAULT_EF_CONSTRUCTION = 100
+
+// Hierarchical Navigable Small World graph (Malkov & Yashunin) over Float32 vectors.
+// Nodes are addressed by their insertion index; removed nodes stay in the graph as
+// tombstones so routing keeps working, and are skipped in results.
+export class HnswIndex {
+  readonly space: DistanceSpace
+  readonly dimensions: number
+  private m: number
+  private efConstruction: number
+  private levelFactor: number
+  private vectors: Float32Array[] = []
+  private levels: number[] = []
+  private links: number[][][] = []
+  private deleted: boolean[] = []
+  private deletedCount = 0
+  private entryPoint = -1
+  private maxLevel = -1
+
+  constructor(dimensions: number, options: HnswOptions) {
+    this.dimensions = dimensions
+    this.space = options.space
+    this.m = options.m || DEFAULT_M
+    this.efConstruction = options.efConstruction || DEFAULT_EF_CONSTRUCTION
+    this.levelFactor = 1 / Math.log(this.m)
+  }
+
+  get size(): number {
+    return this.vectors.length
+  }
+
+  get tombstones(): number {
+    return this.deletedCount
+  }
+
+  getVector(node: number): Float32Array {
+    return this.vectors[node]
+  }
+
+  add(vector: number[] | Float32Array): number {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected a ${this.dimensions}-dimensional vector, got ${vector.length}`)
+    }
+
+    const node = this.vectors.length
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelFactor)
+    this.vectors.push(this.prepare(vector))
+    this.levels.push(level)
+    this.links.push(Array.from({ length: level + 1 }, () => []))
+    this.deleted.push(false)
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node
+      this.maxLevel = level
+      return node
+    }
+
+    const query = this.vectors[node]
+    let entry = this.entryPoint
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].node
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(query, [entry], this.efConstruction, layer)
+      const neighbors = this.selectNeighbors(candidates, this.m)
+      this.links[node][layer] = neighbors.map(candidate => candidate.node)
+
+      for (const neighbor of neighbors) {
+        const neighborLinks = this.links[neighbor.node][layer]
+        neighborLinks.push(node)
+        if (neighborLinks.length > this.capacity(layer)) {
+          // Overflowing lists keep their closest links; the diversity heuristic is too costly to rerun here
+          const base = this.vectors[neighbor.node]
+          this.links[neighbor.node][layer] = neighborLinks
+            .map(other => ({ node: other, distance: this.distance(base, this.vectors[other]) }))
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, this.capacity(layer))
+            .map(candidate => candidate.node)
+        }
+      }
+      entry = candidates[0].node
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = node
+      this.maxLevel = level
+    }
+    return node
+  }
+
+  remove(node: number): void {
+    if (node < 0 || node >= this.vectors.length || this.deleted[node]) return
+    this.deleted[node] = true
+    this.deletedCount++
+  }
+
+  // `accept` restricts the results (e.g. to a metadata filter) without changing how the graph is walked
+  search(vector: number[] | Float32Array, k: number, ef = Math.max(k, 64), accept?: (node: number) => boolean): Array<{ node: number; distance: number }> {
+    if (this.entryPoint === -1 || k <= 0) return []
+    const query = this.prepare(vector)
+
+    let entry = this.entryPoint
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].node
+    }
+
+    let width = Math.max(ef, k)
+    for (;;) {
+      const results = this.searchLayer(query, [entry], width, 0)
+        .filter(candidate => !this.deleted[candidate.node] && (!accept || accept(candidate.node)))
+      // Widen the search when tombstones or the filter ate too many candidates
+      if (results.length >= k || width >= this.vectors.length) {
+        return results.slice(0, k)
+      }
+      width *= 2
+    }
+  }
+
+  // Exact search over the given nodes, used when a filter leaves few enough candidates
+  searchExact(vector: number[] | Float32Array, k: number, nodes: Iterable<number>): Array<{ node: number; distance: number }> {
+    const query = this.prepare(vector)
+    const results: Array<{ node: number; distance: number }> = []
+    for (const node of nodes) {
+      if (!this.deleted[node]) results.push({ node, distance: this.distance(query, this.vectors[node]) })
+    }
+    return results.sort((a, b) => a.distance - b.distance).slice(0, k)
+  }
+
+  serialize(): { graph: SerializedHnsw; vectors: Float32Array } {
+    const vectors = new Float32Array(this.vectors.length * this.dimensions)
+    this.vectors.forEach((vector, node) => vectors.set(vector, node * this.dimensions))
+    return {
+      graph: {
+        space: this.space,
+        dimensions: this.dimensions,
+        m: this.m,
+        efConstruction: this.efConstruction,
+        entryPoint: this.entryPoint,
+        maxLevel: this.maxLevel,
+        nodes: this.levels.map((level, node) => ({
+          level,
+          neighbors: this.links[node],
+          ...(this.deleted[node] ? { deleted: true } : {}),
+        })),
+      },
+      vectors,
+    }
+  }
+
+  static deserialize(graph: SerializedHnsw, vectors: Float32Array): HnswIndex {
+    if (vectors.length !== graph.nodes.length * graph.dimensions) {
+      throw new Error(`Vector data holds ${vectors.length} values, expected ${graph.nodes.length * graph.dimensions}`)
+    }
+
+    const index = new HnswIndex(graph.dimensions, { space: graph.space, m: graph.m, efConstruction: graph.efConstruction })
+    index.entryPoint = graph.entryPoint
+    index.maxLevel = graph.maxLevel
+    graph.nodes.forEach((node, i) => {
+      // Vectors were stored already normalized, so they are copied as-is
+      index.vectors.push(vectors.slice(i * graph.dimensions, (i + 1) * graph.dimensions))
+      index.levels.push(node.level)
+      index.links.push(node.neighbors)
+      index.deleted.push(Boolean(node.deleted))
+      if (node.deleted) index.deletedCount++
+    })
+    return index
+  }
+
+  private capacity(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m
+  }
+
+  // Cosine vectors are normalized once so the distance is a plain dot product
+  private prepare(vector: number[] | Float32Array): Float32Array {
+    const prepared = Float32Array.from(vector)
+    if (this.space === 'cosine') {
+      let norm = 0
+      for (let i = 0; i < prepared.length; i++) norm += prepared[i] * prepared[i]
+      norm = Math.sqrt(norm)
+      if (norm > 0) {
+        for (let i = 0; i < prepared.length; i++) prepared[i] /= norm
+      }
+    }
+    return prepared
+  }
+
+  // Cosine distance (1 - similarity), or squared L2 as Chroma reports it
+  private distance(a: Float32Array, b: Float32Array): number {
+    let sum = 0
+    if (this.space === 'cosine') {
+      for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+      return 1 - sum
+    }
+    for (let i = 0; i < a.length; i++) {
+      const diff = a[i] - b[i]
+      sum += diff * diff
+    }
+    return sum
+  }
+
+  // Greedy beam search on one layer; returns up to `ef` nodes, closest first
+  private searchLayer(query: Float32Array, entries: number[], ef: number, layer: number): Array<{ node: number; distance: number }> {
+    const visited = new Set<number>(entries)
+    const candidates = new MinHeap()
+    const results = new MaxHeap()
+    for (const entry of entries) {
+      const distance = this.distance(query, this.vectors[entry])
+      candidates.push(entry, distance)
+      results.push(entry, distance)
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!
+      if (results.size >= ef && closest.distance > results.peek()!.distance) break
+
+      for (const neighbor of this.links[closest.node][layer] || []) {
+        if (visited.has(neighbor)) continue
+        visited.add(neighbor)
+
+        const distance = this.distance(query, this.vectors[neighbor])
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push(neighbor, distance)
+          results.push(neighbor, distance)
+          if (results.size > ef) results.pop()
+        }
+      }
+    }
+
+    return results.toSortedArray()
+  }
+
+  // Keeps candidates that are closer to the new node than to any neighbor already kept,
+  // which preserves links into other clusters; topped up with the closest rejects
+  private selectNeighbors(candidates: Array<{ node: number; distance: number }>, limit: number): Array<{ node: number; distance: number }> {
+    const selected: Array<{ node: number; distance: number }> = []
+    const rejected: Array<{ node: number; distance: number }> = []
+
+    for (const candidate of candidates) {
+      if (selected.length >= limit) break
+      const vector = this.vectors[candidate.node]
+      const diverse = selected.every(kept => this.distance(vector, this.vectors[kept.node]) > candidate.distance)
+      if (diverse) selected.push(candidate)
+      else rejected.push(candidate)
+    }
+    for (const candidate of rejected) {
+      if (selected.length >= limit) break
+      selected.push(candidate)
+    }
+    return selected
+  }
+}
+
+// Binary heap of nodes ordered by distance
+class MinHeap {
+  protected items: Array<{ node: number; distance: number }> = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  peek(): { node: number; distance: number } | undefined {
+    return this.items[0]
+  }
+
+  push(node: number, distance: number): void {
+    this.items.push({ node, distance })
+    let i = this.items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (!this.before(this.items[i], this.items[parent])) break
+      ;[this.items[i], this.items[parent]] = [this.items[parent], this.items[i]]
+      i = parent
+    }
+  }
+
+  pop(): { node: number; distance: number } | undefined {
+    const top = this.items[0]
+    const last = this.items.pop()
+    if (this.items.length > 0 && last) {
+      this.items[0] = last
+      let i = 0
+      for (;;) {
+        const left = i * 2 + 1
+        const right = left + 1
+        let next = i
+        if (left < this.items.length && this.before(this.items[left], this.items[next])) next = left
+        if (right < this.items.length && this.before(this.items[right], this.items[next])) next = right
+        if (next === i) break
+        ;[this.items[i], this.items[next]] = [this.items[next], this.items[i]]
+        i = next
+      }
+    }
+    return top
+  }
+
+  toSortedArray(): Array<{ node: number; distance: number }> {
+    return [...this.items].sort((a, b) => a.distance - b.distance)
+  }
+
+  protected before(a: { distance: number }, b: { distance: number }): boolean {
+    return a.distance < b.distance
+  }
+}
+
+class MaxHeap extends MinHeap {
+  protected before(a: { distance: number }, b: { distance: number }): boolean {
+    return a.distance > b.distance
+  }
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { Bm25Index, SerializedBm25, tokenize } from './bm25Index'
+import { PhoneticIndex, SerializedPhoneticIndex } from './phoneticIndex'
+import {
+  VectorStoreAdapter,
+  VectorRecord,
+  StoredRecord,
+  VectorMatch,
+  MetadataFilter,
+  matchesFilter,
+  dataDirectory,
+} from './vectorStoreAdapter'
+
+interface Indexes {
+  keyword: Bm25Index
+  names: PhoneticIndex
+}
+
+interface IndexState {
+  index: Promise<Indexes> | null
+  writes: Promise<void>
+  saveTimer: ReturnType<typeof setTimeout> | null
+  dirty: boolean
+}
+
+// Indexes are shared by file, like local stores, since adapters are rebuilt on settings changes
+const openIndexes = new Map<string, IndexState>()
+
+// Changes are written at most this often, or sooner by flush(), instead of after every call
+const SAVE_DELAY_MS = 5000
+
+// Sound-alike names spelled too differently from the query word are more likely a different name
+const MIN_NAME_SIMILARITY = 0.5
+
+// Wraps any vector store with a BM25 keyword index over the same records, kept in
+// <RAG_DATA_DIR>/keyword/<collection>.json, and a phonetic index of the names in them, kept in
+// <RAG_DATA_DIR>/phonetic/<collection>.json. A missing index is rebuilt from the store's contents.
+// Both files are written a few seconds after a change rather than on every add or delete.
+export class KeywordIndexedStore implements VectorStoreAdapter {
+  private inner: VectorStoreAdapter
+  private file: string
+  private namesFile: string
+
+  constructor(inner: VectorStoreAdapter, name: string) {
+    this.inner = inner
+    this.file = `${dataDirectory('keyword', name)}.json`
+    this.namesFile = `${dataDirectory('phonetic', name)}.json`
+    if (!openIndexes.has(this.file)) {
+      openIndexes.set(this.file, { index: null, writes: Promise.resolve(), saveTimer: null, dirty: false })
+    }
+  }
+
+  async load(): Promise<void> {
+    await this.inner.load?.()
+    await this.getIndex()
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return
+    // Loaded first, so a missing index is rebuilt from the store as it was before this change
+    const index = await this.getIndex()
+    await this.inner.add(records)
+
+    for (const record of records) {
+      index.keyword.add(record.id, record.content, record.metadata)
+      index.names.add(record.id, record.content)
+    }
+    this.scheduleSave()
+  }
+
+  query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]> {
+    return this.inner.query(embedding, limit, where)
+  }
+
+  // BM25 matches, best first; text and metadata come from the wrapped store
+  async keywordQuery(text: string, limit: number, where?: MetadataFilter): Promise<Array<StoredRecord & { score: number }>> {
+    const index = await this.getIndex()
+    const hits = index.keyword.search(text, limit, where ? metadata => matchesFilter(metadata, where) : undefined)
+    if (hits.length === 0) return []
+
+    const records = new Map((await this.inner.get({ ids: hits.map(hit => hit.id) })).map(record => [record.id, record]))
+    return hits.flatMap(hit => {
+      const record = records.get(hit.id)
+      return record ? [{ ...record, score: hit.score }] : []
+    })
+  }
+
+  // Query words no stored record contains, each with the stored names that sound like it,
+  // such as "Chin" for a store that only mentions "Chen"
+  async soundAlikes(text: string): Promise<Array<{ word: string; names: string[] }>> {
+    const index = await this.getIndex()
+    return [...new Set(tokenize(text))]
+      .filter(word => word.length >= 2 && !/\d/.test(word) && !index.keyword.has(word))
+      .map(word => ({ word, names: index.names.soundAlikes(word, MIN_NAME_SIMILARITY) }))
+      .filter(match => match.names.length > 0)
+  }
+
+  get(options?: { ids?: string[]; where?: MetadataFilter; limit?: number }): Promise<StoredRecord[]> {
+    return this.inner.get(options)
+  }
+
+  async delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void> {
+    const index = await this.getIndex()
+    await this.inner.delete(options)
+
+    const ids = options.ids || (options.where ? index.keyword.ids(metadata => matchesFilter(metadata, options.where!)) : [])
+    if (ids.length === 0) return
+    for (const id of ids) {
+      index.keyword.remove(id)
+      index.names.remove(id)
+    }
+    this.scheduleSave()
+  }
+
+  count(): Promise<number> {
+    return this.inner.count()
+  }
+
+  // Writes pending index changes, and the wrapped store's, now
+  async flush(): Promise<void> {
+    await this.flushIndex()
+    await this.inner.flush?.()
+  }
+
+  private async flushIndex(): Promise<void> {
+    const state = openIndexes.get(this.file)!
+    if (state.saveTimer) {
+      clearTimeout(state.saveTimer)
+      state.saveTimer = null
+    }
+    if (state.dirty && state.index) {
+      state.dirty = false
+      try {
+        await this.save(await state.index)
+      } catch (error) {
+        state.dirty = true
+        throw error
+      }
+    } else {
+      await state.writes
+    }
+  }
+
+  async drop(): Promise<void> {
+    await this.inner.drop()
+
+    const state = openIndexes.get(this.file)!
+    if (state.saveTimer) clearTimeout(state.saveTimer)
+    state.saveTimer = null
+    state.dirty = false
+    await state.writes
+    state.index = Promise.resolve({ keyword: new Bm25Index(), names: new PhoneticIndex() })
+    await fs.promises.rm(this.file, { force: true })
+    await fs.promises.rm(this.namesFile, { force: true })
+  }
+
+  private getIndex(): Promise<Indexes> {
+    const state = openIndexes.get(this.file)!
+    if (!state.index) {
+      state.index = this.readIndex()
+      state.index.catch(() => { state.index = null })
+    }
+    return state.index
+  }
+
+  private async readIndex(): Promise<Indexes> {
+    const keyword = fs.existsSync(this.file)
+      ? Bm25Index.deserialize(JSON.parse(await fs.promises.readFile(this.file, 'utf8')) as SerializedBm25)
+      : null
+    const names = fs.existsSync(this.namesFile)
+      ? PhoneticIndex.deserialize(JSON.parse(await fs.promises.readFile(this.namesFile, 'utf8')) as SerializedPhoneticIndex)
+      : null
+    if (keyword && names) return { keyword, names }
+
+    // Stores filled before keyword or name matching existed get the missing index built once from the stored chunks
+    const index = { keyword: keyword || new Bm25Index(), names: names || new PhoneticIndex() }
+    const records = await this.inner.get()
+    if (records.length > 0) {
+      for (const record of records) {
+        if (!keyword) index.keyword.add(record.id, record.content, record.metadata)
+        if (!names) index.names.add(record.id, record.content)
+      }
+      this.scheduleSave()
+      console.log(`🔤 Built ${[!keyword && 'keyword', !names && 'name'].filter(Boolean).join(' and ')} index for ${path.basename(this.file, '.json')} from ${records.length} stored chunks`)
+    }
+    return index
+  }
+
+  private scheduleSave(): void {
+    const state = openIndexes.get(this.file)!
+    state.dirty = true
+    if (state.saveTimer) return
+    state.saveTimer = setTimeout(() => {
+      state.saveTimer = null
+      this.flushIndex().catch(error => console.error(`Failed to save keyword index ${this.file}:`, error))
+    }, SAVE_DELAY_MS)
+  }
+
+  // Writes are chained so concurrent saves land in order
+  private save(index: Indexes): Promise<void> {
+    const state = openIndexes.get(this.file)!
+    const write = state.writes.then(async () => {
+      await writeJson(this.file, index.keyword.serialize())
+      await writeJson(this.namesFile, index.names.serialize())
+    })
+    state.writes = write.catch(() => undefined)
+    return write
+  }
+}
+
+async function writeJson(file: string, data: unknown): Promise<void> {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true })
+  await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(data))
+  await fs.promises.rename(`${file}.tmp`, file)
+}
@@ -0,0 +1,262 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { HnswIndex, DistanceSpace, SerializedHnsw } from './hnswIndex'
+import {
+  VectorStoreAdapter,
+  VectorStoreConnection,
+  VectorRecord,
+  StoredRecord,
+  VectorMatch,
+  MetadataFilter,
+  MetadataValue,
+  matchesFilter,
+  dataDirectory,
+} from './vectorStoreAdapter'
+
+interface LocalRecord {
+  node: number
+  content: string
+  metadata: Record<string, MetadataValue>
+}
+
+interface PersistedCollection {
+  version: 1
+  graph: SerializedHnsw | null
+  records: Array<{ id: string } & LocalRecord>
+}
+
+const INDEX_FILE = 'index.json'
+const VECTORS_FILE = 'vectors.bin'
+// Filters matching fewer records than this are answered by an exact scan instead of the graph
+const EXACT_SEARCH_LIMIT = 2000
+// The graph is rebuilt once this share of its nodes are tombstones
+const REBUILD_RATIO = 0.25
+const MIN_REBUILD_TOMBSTONES = 100
+// Changes are written at most this often, or sooner by flush(), instead of after every call
+const SAVE_DELAY_MS = 5000
+
+// One store per directory, so adapters rebuilt after a settings change share the loaded index
+const openStores = new Map<string, LocalStore>()
+
+// In-process vector store: an HNSW graph kept in memory and written to
+// <RAG_DATA_DIR>/vectors/<collection>/ a few seconds after it changes. Needs no external service.
+export class LocalStore implements VectorStoreAdapter {
+  private directory: string
+  private space: DistanceSpace
+  private index: HnswIndex | null = null
+  private records: Map<string, LocalRecord> = new Map()
+  private nodeIds: Array<string | undefined> = []
+  private loaded: Promise<void> | null = null
+  private writes: Promise<void> = Promise.resolve()
+  private saveTimer: ReturnType<typeof setTimeout> | null = null
+  private dirty = false
+
+  static open(connection: VectorStoreConnection, name: string): LocalStore {
+    const directory = dataDirectory('vectors', name)
+
+    let store = openStores.get(directory)
+    if (!store) {
+      store = new LocalStore(directory, connection.distance || 'cosine')
+      openStores.set(directory, store)
+    }
+    return store
+  }
+
+  private constructor(directory: string, space: DistanceSpace) {
+    this.directory = directory
+    this.space = space
+  }
+
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFromDisk()
+      this.loaded.catch(() => { this.loaded = null })
+    }
+    return this.loaded
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return
+    await this.load()
+
+    if (!this.index) {
+      this.index = new HnswIndex(records[0].embedding.length, { space: this.space })
+    }
+    for (const record of records) {
+      this.removeRecord(record.id)
+      const node = this.index.add(record.embedding)
+      this.nodeIds[node] = record.id
+      this.records.set(record.id, { node, content: record.content, metadata: record.metadata })
+    }
+    this.scheduleSave()
+  }
+
+  async query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]> {
+    await this.load()
+    if (!this.index || this.records.size === 0) return []
+
+    let results: Array<{ node: number; distance: number }>
+    if (where) {
+      const matching = [...this.records.values()].filter(record => matchesFilter(record.metadata, where)).map(record => record.node)
+      results = matching.length <= EXACT_SEARCH_LIMIT
+        ? this.index.searchExact(embedding, limit, matching)
+        : this.index.search(embedding, limit, undefined, node => matchesFilter(this.recordAt(node)?.metadata, where))
+    } else {
+      results = this.index.search(embedding, limit)
+    }
+
+    return results.flatMap(({ node, distance }) => {
+      const id = this.nodeIds[node]
+      const record = id ? this.records.get(id) : undefined
+      return id && record ? [{ id, content: record.content, metadata: record.metadata, distance }] : []
+    })
+  }
+
+  async get(options: { ids?: string[]; where?: MetadataFilter; limit?: number } = {}): Promise<StoredRecord[]> {
+    await this.load()
+    const ids = options.ids || [...this.records.keys()]
+
+    const results: StoredRecord[] = []
+    for (const id of ids) {
+      if (options.limit !== undefined && results.length >= options.limit) break
+      const record = this.records.get(id)
+      if (record && (!options.where || matchesFilter(record.metadata, options.where))) {
+        results.push({ id, content: record.content, metadata: record.metadata })
+      }
+    }
+    return results
+  }
+
+  async delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void> {
+    await this.load()
+    const ids = options.ids || (options.where
+      ? [...this.records.entries()].filter(([, record]) => matchesFilter(record.metadata, options.where!)).map(([id]) => id)
+      : [])
+    if (ids.length === 0) return
+
+    for (const id of ids) this.removeRecord(id)
+    if (this.index && this.index.tombstones >= Math.max(MIN_REBUILD_TOMBSTONES, this.index.size * REBUILD_RATIO)) {
+      this.rebuild()
+    }
+    this.scheduleSave()
+  }
+
+  async count(): Promise<number> {
+    await this.load()
+    return this.records.size
+  }
+
+  // Writes pending changes now, e.g. once an ingestion job has finished
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer)
+      this.saveTimer = null
+    }
+    if (!this.dirty) return this.writes
+
+    this.dirty = false
+    try {
+      await this.save()
+    } catch (error) {
+      this.dirty = true
+      throw error
+    }
+  }
+
+  async drop(): Promise<void> {
+    if (this.saveTimer) clearTimeout(this.saveTimer)
+    this.saveTimer = null
+    this.dirty = false
+    await this.writes
+    this.index = null
+    this.records.clear()
+    this.nodeIds = []
+    this.loaded = Promise.resolve()
+    await fs.promises.rm(this.directory, { recursive: true, force: true })
+  }
+
+  private recordAt(node: number): LocalRecord | undefined {
+    const id = this.nodeIds[node]
+    return id ? this.records.get(id) : undefined
+  }
+
+  private removeRecord(id: string): void {
+    const existing = this.records.get(id)
+    if (!existing) return
+    this.index?.remove(existing.node)
+    this.nodeIds[existing.node] = undefined
+    this.records.delete(id)
+  }
+
+  // Re-inserts the live vectors into a fresh graph, dropping tombstones
+  private rebuild(): void {
+    if (!this.index) return
+    const previous = this.index
+    this.index = new HnswIndex(previous.dimensions, { space: previous.space })
+    this.nodeIds = []
+    for (const [id, record] of this.records) {
+      record.node = this.index.add(previous.getVector(record.node))
+      this.nodeIds[record.node] = id
+    }
+  }
+
+  private async readFromDisk(): Promise<void> {
+    const indexPath = path.join(this.directory, INDEX_FILE)
+    if (!fs.existsSync(indexPath)) return
+
+    const persisted = JSON.parse(await fs.promises.readFile(indexPath, 'utf8')) as PersistedCollection
+    if (persisted.graph) {
+      const buffer = await fs.promises.readFile(path.join(this.directory, VECTORS_FILE))
+      // Copy into an aligned buffer, since Node may hand back a slice of a shared pool
+      const vectors = new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength))
+      this.index = HnswIndex.deserialize(persisted.graph, vectors)
+      if (this.index.space !== this.space) {
+        console.warn(`Local vector store ${this.directory} was built with ${this.index.space} distance; keeping it`)
+        this.space = this.index.space
+      }
+    }
+
+    for (const { id, ...record } of persisted.records) {
+      this.records.set(id, record)
+      this.nodeIds[record.node] = id
+    }
+    console.log(`📂 Loaded local vector store ${path.basename(this.directory)} (${this.records.size} vectors)`)
+  }
+
+  private scheduleSave(): void {
+    this.dirty = true
+    if (this.saveTimer) return
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null
+      this.flush().catch(error => console.error(`Failed to save local vector store ${this.directory}:`, error))
+    }, SAVE_DELAY_MS)
+  }
+
+  // Writes are chained so a slow save never interleaves with the next one
+  private save(): Promise<void> {
+    const write = this.writes.then(() => this.writeToDisk())
+    this.writes = write.catch(() => undefined)
+    return write
+  }
+
+  private async writeToDisk(): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true })
+
+    const serialized = this.index?.serialize()
+    const persisted: PersistedCollection = {
+      version: 1,
+      graph: serialized?.graph || null,
+      records: [...this.records.entries()].map(([id, record]) => ({ id, ...record })),
+    }
+
+    // Vectors first, then the index that refers to them; each file is replaced atomically
+    if (serialized) {
+      const vectorsPath = path.join(this.directory, VECTORS_FILE)
+      await fs.promises.writeFile(`${vectorsPath}.tmp`, Buffer.from(serialized.vectors.buffer))
+      await fs.promises.rename(`${vectorsPath}.tmp`, vectorsPath)
+    }
+    const indexPath = path.join(this.directory, INDEX_FILE)
+    await fs.promises.writeFile(`${indexPath}.tmp`, JSON.stringify(persisted))
+    await fs.promises.rename(`${indexPath}.tmp`, indexPath)
+  }
+}
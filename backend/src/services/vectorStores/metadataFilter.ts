@@ -0,0 +1,118 @@
+export type MetadataValue = string | number | boolean
+
+export interface MetadataOperators {
+  $eq?: MetadataValue
+  $ne?: MetadataValue
+  $in?: MetadataValue[]
+  $nin?: MetadataValue[]
+  $gt?: number | string
+  $gte?: number | string
+  $lt?: number | string
+  $lte?: number | string
+}
+
+// Every key must match. A bare value is equality; an operator object must satisfy all of its
+// operators. Range bounds are numbers, or ISO dates such as "2024-01-31" that compare as dates.
+export type MetadataFilter = Record<string, MetadataValue | MetadataOperators>
+
+const RANGE_OPERATORS = ['$gt', '$gte', '$lt', '$lte'] as const
+const OPERATORS = ['$eq', '$ne', '$in', '$nin', ...RANGE_OPERATORS]
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/
+
+export function matchesFilter(metadata: Record<string, MetadataValue> | undefined, filter: MetadataFilter): boolean {
+  if (!metadata) return false
+  return Object.entries(filter).every(([key, condition]) => {
+    const actual = metadata[key]
+    if (typeof condition !== 'object') return actual === condition
+
+    if (condition.$eq !== undefined && actual !== condition.$eq) return false
+    if (condition.$ne !== undefined && actual === condition.$ne) return false
+    if (condition.$in && !condition.$in.includes(actual)) return false
+    if (condition.$nin && condition.$nin.includes(actual)) return false
+    return RANGE_OPERATORS.every(operator => {
+      const bound = condition[operator]
+      if (bound === undefined) return true
+      const asDate = typeof bound === 'string'
+      const left = toComparable(actual, asDate)
+      const right = toComparable(bound, asDate)
+      if (left === undefined || right === undefined) return false
+      switch (operator) {
+        case '$gt': return left > right
+        case '$gte': return left >= right
+        case '$lt': return left < right
+        case '$lte': return left <= right
+      }
+    })
+  })
+}
+
+// Loaders keep CSV and database values as strings, so numeric strings compare as numbers
+function toComparable(value: MetadataValue | undefined, asDate: boolean): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value !== 'string' || value.trim() === '') return undefined
+  if (asDate) return ISO_DATE.test(value) ? Date.parse(value) : undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? number : undefined
+}
+
+// Throws a message naming the offending key, for filters that arrive through the API or agent settings
+export function validateMetadataFilter(filter: unknown): asserts filter is MetadataFilter {
+  if (!isPlainObject(filter)) {
+    throw new Error('Metadata filter must be an object of field conditions')
+  }
+
+  for (const [key, condition] of Object.entries(filter)) {
+    if (isMetadataValue(condition)) continue
+    if (!isPlainObject(condition) || Object.keys(condition).length === 0) {
+      throw new Error(`Filter on "${key}" must be a value or an operator object`)
+    }
+
+    for (const [operator, operand] of Object.entries(condition)) {
+      if (!OPERATORS.includes(operator)) {
+        throw new Error(`Unsupported filter operator ${operator} on "${key}"`)
+      }
+      if (operator === '$in' || operator === '$nin') {
+        if (!Array.isArray(operand) || !operand.every(isMetadataValue)) {
+          throw new Error(`${operator} on "${key}" needs a list of values`)
+        }
+      } else if (operator === '$eq' || operator === '$ne') {
+        if (!isMetadataValue(operand)) {
+          throw new Error(`${operator} on "${key}" needs a string, number or boolean`)
+        }
+      } else if (!(typeof operand === 'number' && Number.isFinite(operand)) && !(typeof operand === 'string' && ISO_DATE.test(operand))) {
+        throw new Error(`${operator} on "${key}" needs a number or an ISO date`)
+      }
+    }
+  }
+}
+
+// Splits a filter into the equality and membership conditions every store can evaluate,
+// and the range conditions that have to be checked after fetching
+export function splitFilter(filter?: MetadataFilter): { exact?: MetadataFilter; ranges?: MetadataFilter } {
+  if (!filter) return {}
+
+  const exact: MetadataFilter = {}
+  const ranges: MetadataFilter = {}
+  for (const [key, condition] of Object.entries(filter)) {
+    if (typeof condition !== 'object') {
+      exact[key] = condition
+      continue
+    }
+    const { $gt, $gte, $lt, $lte, ...rest } = condition
+    if (Object.keys(rest).length > 0) exact[key] = rest
+    const range = Object.fromEntries(Object.entries({ $gt, $gte, $lt, $lte }).filter(([, bound]) => bound !== undefined))
+    if (Object.keys(range).length > 0) ranges[key] = range
+  }
+  return {
+    exact: Object.keys(exact).length > 0 ? exact : undefined,
+    ranges: Object.keys(ranges).length > 0 ? ranges : undefined,
+  }
+}
+
+function isMetadataValue(value: unknown): value is MetadataValue {
+  return typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,131 @@
+import { tokenize } from './bm25Index'
+import { doubleMetaphone } from './doubleMetaphone'
+
+export interface SerializedPhoneticIndex {
+  version: 1
+  // [id, names found in the record]
+  documents: Array<[string, string[]]>
+}
+
+// Spelling similarity from 0 to 1, one minus the edit distance over the longer length
+export function spellingSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length)
+  return longest === 0 ? 1 : 1 - levenshteinDistance(a, b) / longest
+}
+
+export function levenshteinDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1]
+        ? previous[j - 1]
+        : Math.min(previous[j - 1], current[j - 1], previous[j]) + 1
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// Capitalized words, which in prose are mostly names. A word that also appears in lower case
+// in the same text is taken to be an ordinary word at the start of a sentence.
+export function extractNames(text: string): string[] {
+  const words = text.match(/[\p{L}][\p{L}\p{M}'’-]*/gu) || []
+  const lowercase = new Set(words.filter(word => !/^\p{Lu}/u.test(word)).map(word => word.toLowerCase()))
+  const names = new Set<string>()
+  for (const word of words) {
+    if (!/^\p{Lu}/u.test(word) || lowercase.has(word.toLowerCase())) continue
+    for (const token of tokenize(word)) {
+      if (token.length >= 2 && !/\d/.test(token)) names.add(token)
+    }
+  }
+  return [...names]
+}
+
+// Names in a store's records, keyed by their Double Metaphone codes, so a misheard or
+// misspelled name in a query can be mapped to the spelling the records use
+export class PhoneticIndex {
+  private documents: Map<string, string[]> = new Map()
+  private names: Map<string, number> = new Map() // Name to the number of records containing it
+  private codes: Map<string, Set<string>> = new Map()
+
+  add(id: string, text: string): void {
+    this.remove(id)
+
+    const names = extractNames(text)
+    if (names.length > 0) this.insert(id, names)
+  }
+
+  remove(id: string): void {
+    const names = this.documents.get(id)
+    if (!names) return
+
+    this.documents.delete(id)
+    for (const name of names) {
+      const count = this.names.get(name)! - 1
+      if (count > 0) {
+        this.names.set(name, count)
+        continue
+      }
+      this.names.delete(name)
+      for (const code of doubleMetaphone(name)) {
+        const sameCode = this.codes.get(code)
+        sameCode?.delete(name)
+        if (sameCode?.size === 0) this.codes.delete(code)
+      }
+    }
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.names.clear()
+    this.codes.clear()
+  }
+
+  // Stored names that sound like `word`, closest spelling first, then the most widespread
+  soundAlikes(word: string, minSimilarity = 0): string[] {
+    const token = tokenize(word)[0]
+    if (!token) return []
+
+    const candidates = new Set<string>()
+    for (const code of doubleMetaphone(token)) {
+      for (const name of this.codes.get(code) || []) candidates.add(name)
+    }
+    return [...candidates]
+      .filter(name => name !== token)
+      .map(name => ({ name, similarity: spellingSimilarity(token, name), count: this.names.get(name)! }))
+      .filter(candidate => candidate.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity || b.count - a.count)
+      .map(candidate => candidate.name)
+  }
+
+  serialize(): SerializedPhoneticIndex {
+    return { version: 1, documents: [...this.documents.entries()] }
+  }
+
+  static deserialize(data: SerializedPhoneticIndex): PhoneticIndex {
+    const index = new PhoneticIndex()
+    for (const [id, names] of data.documents) {
+      index.insert(id, names)
+    }
+    return index
+  }
+
+  private insert(id: string, names: string[]): void {
+    this.documents.set(id, names)
+    for (const name of names) {
+      const count = this.names.get(name) || 0
+      this.names.set(name, count + 1)
+      if (count > 0) continue
+      for (const code of doubleMetaphone(name)) {
+        if (!code) continue
+        let sameCode = this.codes.get(code)
+        if (!sameCode) {
+          sameCode = new Set()
+          this.codes.set(code, sameCode)
+        }
+        sameCode.add(name)
+      }
+    }
+  }
+}
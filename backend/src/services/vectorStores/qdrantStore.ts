@@ -0,0 +1,173 @@
+import { createHash } from 'crypto'
+import {
+  VectorStoreAdapter,
+  VectorStoreConnection,
+  VectorRecord,
+  StoredRecord,
+  VectorMatch,
+  MetadataFilter,
+  MetadataValue,
+  resolveBaseUrl,
+} from './vectorStoreAdapter'
+
+const DEFAULT_QDRANT_PORT = 6333
+const UPSERT_BATCH_SIZE = 256
+const SCROLL_PAGE_SIZE = 256
+
+interface QdrantPoint {
+  id: string | number
+  score?: number
+  payload?: { id?: string; content?: string; metadata?: Record<string, MetadataValue> }
+}
+
+// Talks to Qdrant's REST API. Points are keyed by a UUID derived from the record ID, since Qdrant
+// only accepts UUIDs and integers; the original ID, text and metadata are kept in the payload.
+export class QdrantStore implements VectorStoreAdapter {
+  private baseUrl: string
+  private apiKey?: string
+  private name: string
+  private collectionReady = false
+
+  constructor(connection: VectorStoreConnection, name: string) {
+    this.baseUrl = resolveBaseUrl(connection.host, connection.port, DEFAULT_QDRANT_PORT).toString().replace(/\/+$/, '')
+    this.apiKey = connection.apiKey
+    this.name = name
+  }
+
+  async add(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return
+    await this.ensureCollection(records[0].embedding.length)
+
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      const points = records.slice(i, i + UPSERT_BATCH_SIZE).map(record => ({
+        id: toPointId(record.id),
+        vector: record.embedding,
+        payload: { id: record.id, content: record.content, metadata: record.metadata },
+      }))
+      await this.request('PUT', '/points?wait=true', { points })
+    }
+  }
+
+  async query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]> {
+    const points = await this.request<QdrantPoint[]>('POST', '/points/search', {
+      vector: embedding,
+      limit,
+      filter: toFilter(where),
+      with_payload: true,
+    }, true)
+    // Cosine similarity, turned into a distance so lower is closer as with Chroma
+    return (points || []).map(point => ({ ...toRecord(point), distance: 1 - (point.score ?? 0) }))
+  }
+
+  async get(options: { ids?: string[]; where?: MetadataFilter; limit?: number } = {}): Promise<StoredRecord[]> {
+    if (options.ids) {
+      if (options.ids.length === 0) return []
+      const points = await this.request<QdrantPoint[]>('POST', '/points', {
+        ids: options.ids.map(toPointId),
+        with_payload: true,
+      }, true)
+      return (points || []).map(toRecord)
+    }
+
+    const records: StoredRecord[] = []
+    let offset: string | number | null | undefined
+    do {
+      const pageSize = options.limit ? Math.min(SCROLL_PAGE_SIZE, options.limit - records.length) : SCROLL_PAGE_SIZE
+      const page = await this.request<{ points: QdrantPoint[]; next_page_offset?: string | number | null }>('POST', '/points/scroll', {
+        filter: toFilter(options.where),
+        limit: pageSize,
+        offset: offset ?? undefined,
+        with_payload: true,
+        with_vector: false,
+      }, true)
+      if (!page) break
+      records.push(...page.points.map(toRecord))
+      offset = page.next_page_offset
+    } while (offset !== null && offset !== undefined && (!options.limit || records.length < options.limit))
+
+    return records
+  }
+
+  async delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void> {
+    if (options.ids) {
+      if (options.ids.length === 0) return
+      await this.request('POST', '/points/delete?wait=true', { points: options.ids.map(toPointId) }, true)
+    } else if (options.where) {
+      await this.request('POST', '/points/delete?wait=true', { filter: toFilter(options.where) }, true)
+    }
+  }
+
+  async count(): Promise<number> {
+    const result = await this.request<{ count: number }>('POST', '/points/count', { exact: true }, true)
+    return result?.count ?? 0
+  }
+
+  async drop(): Promise<void> {
+    this.collectionReady = false
+    await this.request('DELETE', '', undefined, true)
+  }
+
+  private async ensureCollection(dimensions: number): Promise<void> {
+    if (this.collectionReady) return
+    const existing = await this.request('GET', '', undefined, true)
+    if (!existing) {
+      await this.request('PUT', '', { vectors: { size: dimensions, distance: 'Cosine' } })
+      console.log(`   🗄️ Created Qdrant collection ${this.name} (${dimensions} dimensions)`)
+    }
+    this.collectionReady = true
+  }
+
+  // Returns null for 404 when `allowMissing` is set, i.e. the collection does not exist yet
+  private async request<T>(method: string, path: string, body?: unknown, allowMissing = false): Promise<T | null> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) headers['api-key'] = this.apiKey
+
+    const response = await fetch(`${this.baseUrl}/collections/${encodeURIComponent(this.name)}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+    if (response.status === 404 && allowMissing) {
+      return null
+    }
+    if (!response.ok) {
+      throw new Error(`Qdrant ${method} ${path || '/'} failed with ${response.status}: ${await response.text()}`)
+    }
+    const data = await response.json() as { result: T }
+    return data.result
+  }
+}
+
+// Deterministic UUID from the record ID, so re-adding a record overwrites its point
+function toPointId(id: string): string {
+  const hex = createHash('sha256').update(id).digest('hex')
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`
+}
+
+function toRecord(point: QdrantPoint): StoredRecord {
+  return {
+    id: point.payload?.id ?? String(point.id),
+    content: point.payload?.content ?? '',
+    metadata: point.payload?.metadata ?? {},
+  }
+}
+
+// Range conditions never reach here; RangeFilteredStore applies them after the search
+function toFilter(filter?: MetadataFilter) {
+  if (!filter) return undefined
+  const must: object[] = []
+  const mustNot: object[] = []
+  for (const [key, condition] of Object.entries(filter)) {
+    const field = `metadata.${key}`
+    if (typeof condition !== 'object') {
+      must.push({ key: field, match: { value: condition } })
+      continue
+    }
+    if (condition.$eq !== undefined) must.push({ key: field, match: { value: condition.$eq } })
+    if (condition.$in) must.push({ key: field, match: { any: condition.$in } })
+    if (condition.$ne !== undefined) mustNot.push({ key: field, match: { value: condition.$ne } })
+    if (condition.$nin) mustNot.push({ key: field, match: { any: condition.$nin } })
+  }
+  if (must.length === 0 && mustNot.length === 0) return undefined
+  return { must: must.length > 0 ? must : undefined, must_not: mustNot.length > 0 ? mustNot : undefined }
+}
@@ -0,0 +1,61 @@
+import {
+  VectorStoreAdapter,
+  VectorRecord,
+  StoredRecord,
+  VectorMatch,
+} from './vectorStoreAdapter'
+import { MetadataFilter, matchesFilter, splitFilter } from './metadataFilter'
+
+// Range results are filtered after the search, so it asks for this many times the limit to still fill it
+const RANGE_OVERFETCH = 5
+
+// Wraps a remote store whose own range filters only work on numeric metadata. Equality and
+// membership conditions go to the store; ranges (numbers kept as strings, dates) are checked here.
+export class RangeFilteredStore implements VectorStoreAdapter {
+  private inner: VectorStoreAdapter
+
+  constructor(inner: VectorStoreAdapter) {
+    this.inner = inner
+  }
+
+  load(): Promise<void> {
+    return this.inner.load?.() ?? Promise.resolve()
+  }
+
+  add(records: VectorRecord[]): Promise<void> {
+    return this.inner.add(records)
+  }
+
+  async query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]> {
+    const { exact, ranges } = splitFilter(where)
+    if (!ranges) return this.inner.query(embedding, limit, exact)
+
+    const matches = await this.inner.query(embedding, limit * RANGE_OVERFETCH, exact)
+    return matches.filter(match => matchesFilter(match.metadata, ranges)).slice(0, limit)
+  }
+
+  async get(options: { ids?: string[]; where?: MetadataFilter; limit?: number } = {}): Promise<StoredRecord[]> {
+    const { exact, ranges } = splitFilter(options.where)
+    if (!ranges) return this.inner.get({ ...options, where: exact })
+
+    const records = await this.inner.get({ ids: options.ids, where: exact })
+    const matching = records.filter(record => matchesFilter(record.metadata, ranges))
+    return options.limit !== undefined ? matching.slice(0, options.limit) : matching
+  }
+
+  async delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void> {
+    const { exact, ranges } = splitFilter(options.where)
+    if (!ranges) return this.inner.delete({ ...options, where: exact })
+
+    const ids = (await this.get(options)).map(record => record.id)
+    if (ids.length > 0) await this.inner.delete({ ids })
+  }
+
+  count(): Promise<number> {
+    return this.inner.count()
+  }
+
+  drop(): Promise<void> {
+    return this.inner.drop()
+  }
+}
@@ -0,0 +1,86 @@
+import * as path from 'path'
+import { ChromaStore } from './chromaStore'
+import { QdrantStore } from './qdrantStore'
+import { LocalStore } from './localStore'
+import { KeywordIndexedStore } from './keywordIndexedStore'
+import { RangeFilteredStore } from './rangeFilteredStore'
+import type { MetadataValue, MetadataFilter } from './metadataFilter'
+
+export type { MetadataValue, MetadataOperators, MetadataFilter } from './metadataFilter'
+export { matchesFilter, splitFilter, validateMetadataFilter } from './metadataFilter'
+
+export interface VectorRecord {
+  id: string
+  embedding: number[]
+  content: string
+  metadata: Record<string, MetadataValue>
+}
+
+export interface StoredRecord {
+  id: string
+  content: string
+  metadata: Record<string, MetadataValue>
+}
+
+export interface VectorMatch extends StoredRecord {
+  distance: number // Lower is closer
+}
+
+// The operations RagService needs from a vector database, one adapter per collection
+export interface VectorStoreAdapter {
+  add(records: VectorRecord[]): Promise<void> // Replaces records whose ID already exists
+  query(embedding: number[], limit: number, where?: MetadataFilter): Promise<VectorMatch[]>
+  get(options?: { ids?: string[]; where?: MetadataFilter; limit?: number }): Promise<StoredRecord[]>
+  delete(options: { ids?: string[]; where?: MetadataFilter }): Promise<void>
+  count(): Promise<number>
+  drop(): Promise<void> // Removes the whole collection
+  load?(): Promise<void> // Reads persisted state ahead of first use, for in-process stores
+  flush?(): Promise<void> // Writes changes an in-process store has not saved yet
+  keywordQuery?(text: string, limit: number, where?: MetadataFilter): Promise<Array<StoredRecord & { score: number }>>
+  soundAlikes?(text: string): Promise<Array<{ word: string; names: string[] }>> // Stored names that sound like unknown query words
+}
+
+export interface VectorStoreConnection {
+  provider: string
+  host?: string
+  port?: number
+  apiKey?: string
+  indexName?: string
+  distance?: 'cosine' | 'l2' // Local store only; fixed once the collection holds vectors
+}
+
+// `collection` is used when the store has no indexName of its own. Every store gets a BM25
+// keyword index alongside it for hybrid retrieval.
+export function createVectorStoreAdapter(store: VectorStoreConnection, collection: string): VectorStoreAdapter {
+  const name = store.indexName || collection
+  return new KeywordIndexedStore(openVectorStore(store, name), `${store.provider}_${name}`)
+}
+
+function openVectorStore(store: VectorStoreConnection, name: string): VectorStoreAdapter {
+  switch (store.provider) {
+    case 'chromadb':
+      return new RangeFilteredStore(new ChromaStore(store, name))
+    case 'qdrant':
+      return new RangeFilteredStore(new QdrantStore(store, name))
+    case 'local':
+      return LocalStore.open(store, name)
+    default:
+      throw new Error(`Vector store provider "${store.provider}" is not supported`)
+  }
+}
+
+// Accepts "host", "host:port" or a full URL; returns the base URL without a trailing slash
+export function resolveBaseUrl(host: string | undefined, port: number | undefined, defaultPort: number): URL {
+  const raw = host || 'localhost'
+  const url = new URL(/^[a-z]+:\/\//i.test(raw) ? raw : `http://${raw}`)
+  if (port) url.port = String(port)
+  else if (!url.port && url.protocol === 'http:') url.port = String(defaultPort)
+  url.pathname = url.pathname.replace(/\/+$/, '')
+  return url
+}
+
+// Path under RAG_DATA_DIR (default backend/data) for files kept by in-process stores and indexes
+export function dataDirectory(kind: string, name: string): string {
+  const root = process.env.RAG_DATA_DIR || path.join(process.cwd(), 'data')
+  return path.join(root, kind, name.replace(/[^\w.-]/g, '_'))
+}
@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/Dialog'
 import { Badge } from '@/components/ui/Badge'
 import { Slider } from '@/components/ui/Slider'
+import { useLiveEvents } from '@/lib/liveEvents'
 import { Plus, Bot, Mic, MessageSquare, Play, Square, Trash2, Edit } from 'lucide-react'
 
 interface McpServer {
@@ -42,6 +43,33 @@ interface ChatSettings {
   functions?: string[]
 }
 
+interface RetrievalFallback {
+  mode: 'fuzzy' | 'none'
+  scanLimit?: number
+  maxResults?: number
+}
+
+type MetadataValue = string | number | boolean
+
+// Field -> value, or operators $eq, $ne, $in, $nin, $gt, $gte, $lt, $lte (numbers or ISO dates)
+type MetadataFilter = Record<string, MetadataValue | Record<string, MetadataValue | MetadataValue[]>>
+
+interface RetrievalSettings {
+  topK?: number
+  scoreThreshold?: number
+  maxContextTokens?: number
+  searchMode?: 'hybrid' | 'semantic' | 'keyword'
+  storeWeights?: Record<string, number>
+  fallback?: RetrievalFallback
+  filter?: MetadataFilter
+  queryTransform?: {
+    condense?: boolean
+    multiQuery?: number
+    hyde?: boolean
+    model?: string
+  }
+}
+
 interface AiAgent {
   id: string
   name: string
@@ -51,6 +79,7 @@ interface AiAgent {
   vectorStores: string[]
   voiceSettings?: VoiceSettings
   chatSettings?: ChatSettings
+  retrievalSettings?: RetrievalSettings
   status: 'configured' | 'ready' | 'running' | 'error'
   createdAt: string
   updatedAt: string
@@ -64,6 +93,16 @@ interface NewAgentState {
   vectorStores: string[]
   voiceSettings: VoiceSettings
   chatSettings: ChatSettings
+  retrievalSettings: RetrievalSettings
+}
+
+// Matches the backend's defaults, which reproduce retrieval from before it was configurable
+const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  topK: 5,
+  scoreThreshold: 0.8,
+  searchMode: 'hybrid',
+  storeWeights: {},
+  fallback: { mode: 'fuzzy', scanLimit: 100, maxResults: 3 },
 }
 
 export function AgentConfigurator() {
@@ -81,6 +120,8 @@ export function AgentConfigurator() {
   }>({ isOpen: false, agent: null })
 
   // Form states
+  const [filterText, setFilterText] = useState('')
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [newAgent, setNewAgent] = useState<NewAgentState>({
     name: '',
     description: '',
@@ -101,6 +142,7 @@ export function AgentConfigurator() {
       systemPrompt: '',
       functions: [],
     },
+    retrievalSettings: DEFAULT_RETRIEVAL_SETTINGS,
   })
 
   // Load data on component mount
@@ -110,6 +152,13 @@ export function AgentConfigurator() {
     loadVectorStores()
   }, [])
 
+  // Start and stop results arrive over the WebSocket
+  useLiveEvents(['agent'], (event) => {
+    if (event.type !== 'agent.status') return
+    const update = event.payload
+    setAgents(prev => prev.map(agent => agent.id === update.id ? { ...agent, status: update.status } : agent))
+  })
+
   // Add new vector stores directly when they're created
   useEffect(() => {
     const handleVectorStoreCreated = (event: CustomEvent) => {
@@ -135,6 +184,8 @@ export function AgentConfigurator() {
   useEffect(() => {
     if (!isAgentDialogOpen) {
       setEditingAgent(null)
+      setFilterText('')
+      setSaveError(null)
     }
   }, [isAgentDialogOpen])
 
@@ -175,6 +226,14 @@ export function AgentConfigurator() {
   }
 
   const handleCreateOrUpdateAgent = async () => {
+    let filter: MetadataFilter | undefined
+    try {
+      filter = filterText.trim() ? JSON.parse(filterText) : undefined
+    } catch {
+      setSaveError('Metadata filter is not valid JSON')
+      return
+    }
+
     try {
       // For voice agents, copy the voice system prompt to chat settings
       let chatSettings = newAgent.chatSettings
@@ -191,6 +250,13 @@ export function AgentConfigurator() {
         // All agents get chat settings for basic chat functionality
         chatSettings: chatSettings,
         vectorStores: newAgent.vectorStores,
+        retrievalSettings: {
+          ...newAgent.retrievalSettings,
+          // Weights of stores that were unticked are dropped
+          storeWeights: Object.fromEntries(Object.entries(newAgent.retrievalSettings.storeWeights || {})
+            .filter(([storeId]) => newAgent.vectorStores.includes(storeId))),
+          filter,
+        },
       }
 
       const method = editingAgent ? 'PUT' : 'POST'
@@ -225,8 +291,12 @@ export function AgentConfigurator() {
             systemPrompt: '',
             functions: [],
           },
+          retrievalSettings: DEFAULT_RETRIEVAL_SETTINGS,
         })
         loadAgents()
+      } else {
+        const data = await response.json().catch(() => ({}))
+        setSaveError(data.error || `Failed to ${editingAgent ? 'update' : 'create'} agent`)
       }
     } catch (error) {
       console.error(`Failed to ${editingAgent ? 'update' : 'create'} agent:`, error)
@@ -255,7 +325,13 @@ export function AgentConfigurator() {
         systemPrompt: agent.chatSettings?.systemPrompt || '',
         functions: agent.chatSettings?.functions || [],
       },
+      retrievalSettings: {
+        ...DEFAULT_RETRIEVAL_SETTINGS,
+        ...agent.retrievalSettings,
+        fallback: { ...DEFAULT_RETRIEVAL_SETTINGS.fallback!, ...agent.retrievalSettings?.fallback },
+      },
     })
+    setFilterText(agent.retrievalSettings?.filter ? JSON.stringify(agent.retrievalSettings.filter, null, 2) : '')
     setIsAgentDialogOpen(true)
   }
 
@@ -283,7 +359,6 @@ export function AgentConfigurator() {
   const handleStartAgent = async (agentId: string) => {
     try {
       await fetch(`/api/agents/${agentId}/start`, { method: 'POST' })
-      loadAgents()
     } catch (error) {
       console.error('Failed to start agent:', error)
     }
@@ -292,7 +367,6 @@ export function AgentConfigurator() {
   const handleStopAgent = async (agentId: string) => {
     try {
       await fetch(`/api/agents/${agentId}/stop`, { method: 'POST' })
-      loadAgents()
     } catch (error) {
       console.error('Failed to stop agent:', error)
     }
@@ -313,6 +387,10 @@ export function AgentConfigurator() {
     }
   }
 
+  const updateRetrievalSettings = (updates: Partial<RetrievalSettings>) => {
+    setNewAgent(prev => ({ ...prev, retrievalSettings: { ...prev.retrievalSettings, ...updates } }))
+  }
+
   const voiceAgents = agents.filter(agent => agent.type === 'voice')
   const chatAgents = agents.filter(agent => agent.type === 'chat')
 
@@ -424,6 +502,192 @@ export function AgentConfigurator() {
                 </div>
               </div>
 
+              {newAgent.vectorStores.length > 0 && (
+                <div className="border rounded-lg p-4 space-y-4">
+                  <h4 className="font-semibold">Retrieval Settings</h4>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="retrieval-mode" className="text-right">Search Mode</Label>
+                    <Select value={newAgent.retrievalSettings.searchMode} onValueChange={(value: any) => updateRetrievalSettings({ searchMode: value })}>
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="hybrid">Hybrid (semantic + keyword)</SelectItem>
+                        <SelectItem value="semantic">Semantic only</SelectItem>
+                        <SelectItem value="keyword">Keyword only</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="retrieval-topk" className="text-right">Top K per Store</Label>
+                    <Input
+                      id="retrieval-topk"
+                      type="number"
+                      min={1}
+                      value={newAgent.retrievalSettings.topK}
+                      onChange={(e) => updateRetrievalSettings({ topK: parseInt(e.target.value) || undefined })}
+                      className="col-span-3"
+                    />
+                  </div>
+                  {newAgent.retrievalSettings.searchMode !== 'keyword' && (
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label htmlFor="retrieval-threshold" className="text-right">Max Distance</Label>
+                      <div className="col-span-3">
+                        <Slider
+                          value={[newAgent.retrievalSettings.scoreThreshold ?? 0.8]}
+                          onValueChange={(value) => updateRetrievalSettings({ scoreThreshold: value[0] })}
+                          max={2.0}
+                          min={0.0}
+                          step={0.05}
+                          className="w-full"
+                        />
+                        <span className="text-sm text-muted-foreground">
+                          {newAgent.retrievalSettings.scoreThreshold} (lower is stricter)
+                        </span>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="retrieval-tokens" className="text-right">Max Context Tokens</Label>
+                    <Input
+                      id="retrieval-tokens"
+                      type="number"
+                      min={1}
+                      value={newAgent.retrievalSettings.maxContextTokens ?? ''}
+                      onChange={(e) => updateRetrievalSettings({ maxContextTokens: parseInt(e.target.value) || undefined })}
+                      placeholder="No limit"
+                      className="col-span-3"
+                    />
+                  </div>
+                  <div className="grid grid-cols-4 items-center gap-4">
+                    <Label htmlFor="retrieval-fallback" className="text-right">When Nothing Matches</Label>
+                    <Select
+                      value={newAgent.retrievalSettings.fallback?.mode}
+                      onValueChange={(value: any) => updateRetrievalSettings({ fallback: { ...newAgent.retrievalSettings.fallback, mode: value } })}
+                    >
+                      <SelectTrigger className="col-span-3">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fuzzy">Try fuzzy name matching</SelectItem>
+                        <SelectItem value="none">Return no context</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {newAgent.retrievalSettings.fallback?.mode === 'fuzzy' && (
+                    <div className="grid grid-cols-4 items-center gap-4">
+                      <Label className="text-right">Fuzzy Scan</Label>
+                      <div className="col-span-3 grid grid-cols-2 gap-2">
+                        <Input
+                          type="number"
+                          min={1}
+                          value={newAgent.retrievalSettings.fallback.scanLimit}
+                          onChange={(e) => updateRetrievalSettings({
+                            fallback: { ...newAgent.retrievalSettings.fallback!, scanLimit: parseInt(e.target.value) || undefined }
+                          })}
+                          title="Chunks scanned"
+                        />
+                        <Input
+                          type="number"
+                          min={1}
+                          value={newAgent.retrievalSettings.fallback.maxResults}
+                          onChange={(e) => updateRetrievalSettings({
+                            fallback: { ...newAgent.retrievalSettings.fallback!, maxResults: parseInt(e.target.value) || undefined }
+                          })}
+                          title="Matches kept"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {newAgent.vectorStores.length > 1 && (
+                    <div className="grid grid-cols-4 items-start gap-4">
+                      <Label className="text-right pt-2">Store Weights</Label>
+                      <div className="col-span-3 space-y-2">
+                        {newAgent.vectorStores.map((storeId) => (
+                          <div key={storeId} className="flex items-center gap-2">
+                            <span className="text-sm flex-1 truncate">
+                              {vectorStores.find(store => store.id === storeId)?.name || storeId}
+                            </span>
+                            <Input
+                              type="number"
+                              min={0}
+                              step={0.1}
+                              value={newAgent.retrievalSettings.storeWeights?.[storeId] ?? 1}
+                              onChange={(e) => updateRetrievalSettings({
+                                storeWeights: { ...newAgent.retrievalSettings.storeWeights, [storeId]: Math.max(parseFloat(e.target.value) || 0, 0) }
+                              })}
+                              className="w-24"
+                            />
+                          </div>
+                        ))}
+                        <div className="text-xs text-muted-foreground">
+                          Higher weights rank a store&apos;s results first; 0 skips the store.
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                  <div className="grid grid-cols-4 items-start gap-4">
+                    <Label className="text-right pt-2">Query Rewriting</Label>
+                    <div className="col-span-3 space-y-2">
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!newAgent.retrievalSettings.queryTransform?.condense}
+                          onChange={(e) => updateRetrievalSettings({
+                            queryTransform: { ...newAgent.retrievalSettings.queryTransform, condense: e.target.checked }
+                          })}
+                          className="w-4 h-4 rounded border-border"
+                        />
+                        Rewrite follow-ups into standalone questions using the conversation
+                      </label>
+                      <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={!!newAgent.retrievalSettings.queryTransform?.hyde}
+                          onChange={(e) => updateRetrievalSettings({
+                            queryTransform: { ...newAgent.retrievalSettings.queryTransform, hyde: e.target.checked }
+                          })}
+                          className="w-4 h-4 rounded border-border"
+                        />
+                        HyDE: search with a hypothetical answer
+                      </label>
+                      <div className="flex items-center gap-2 text-sm">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={5}
+                          value={newAgent.retrievalSettings.queryTransform?.multiQuery ?? 0}
+                          onChange={(e) => updateRetrievalSettings({
+                            queryTransform: { ...newAgent.retrievalSettings.queryTransform, multiQuery: Math.min(Math.max(parseInt(e.target.value) || 0, 0), 5) }
+                          })}
+                          className="w-20"
+                        />
+                        extra query phrasings (multi-query)
+                      </div>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-4 items-start gap-4">
+                    <Label htmlFor="retrieval-filter" className="text-right pt-2">Metadata Filter</Label>
+                    <div className="col-span-3 space-y-1">
+                      <Textarea
+                        id="retrieval-filter"
+                        value={filterText}
+                        onChange={(e) => {
+                          setFilterText(e.target.value)
+                          setSaveError(null)
+                        }}
+                        className="font-mono text-xs"
+                        placeholder={'{ "dataSourceId": "...", "date": { "$gte": "2024-01-01" } }'}
+                        rows={3}
+                      />
+                      <div className="text-xs text-muted-foreground">
+                        Only chunks whose metadata matches are retrieved. Use a value for equality, or $in, $nin, $ne, $gt, $gte, $lt, $lte.
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {newAgent.type === 'voice' && (
                 <div className="border rounded-lg p-4 space-y-4">
                   <h4 className="font-semibold">Voice Settings</h4>
@@ -567,6 +831,9 @@ export function AgentConfigurator() {
                 </div>
             </div>
             <DialogFooter>
+              {saveError && (
+                <p className="text-sm text-red-500 mr-auto self-center">{saveError}</p>
+              )}
               <Button onClick={handleCreateOrUpdateAgent}>
                 {editingAgent ? 'Update Agent' : 'Create Agent'}
               </Button>
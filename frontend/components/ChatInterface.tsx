@@ -14,6 +14,7 @@ interface Message {
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  searchedAs?: string // Standalone query retrieval used when the agent rewrote a follow-up
 }
 
 interface VoiceSettings {
@@ -116,6 +117,7 @@ export function ChatInterface() {
           role: 'assistant',
           content: data.response,
           timestamp: new Date(),
+          searchedAs: data.trace?.rewrittenQuery,
         }
         setMessages(prev => [...prev, aiMessage])
         setTypingMessageId(aiMessage.id)
@@ -390,6 +392,7 @@ export function ChatInterface() {
                       </div>
                       <span className="text-xs opacity-70 mt-2 block font-mono text-muted-foreground">
                         {message.timestamp.toLocaleTimeString()}
+                        {message.searchedAs && <> · searched for &ldquo;{message.searchedAs}&rdquo;</>}
                       </span>
                     </div>
                   </div>
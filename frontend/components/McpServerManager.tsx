@@ -8,6 +8,7 @@ import { Textarea } from '@/components/ui/Textarea'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/Dialog'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
+import { useLiveEvents, LiveEvents } from '@/lib/liveEvents'
 import { Plus, Play, Square, Settings, Trash2 } from 'lucide-react'
 
 interface McpServer {
@@ -22,6 +23,8 @@ interface McpServer {
 
 export function McpServerManager() {
   const [servers, setServers] = useState<McpServer[]>([])
+  // Why each server last exited or failed, from its status events
+  const [exitReasons, setExitReasons] = useState<Record<string, LiveEvents['mcp.status']>>({})
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false)
   const [newServer, setNewServer] = useState({
     name: '',
@@ -36,6 +39,17 @@ export function McpServerManager() {
     fetchServers()
   }, [])
 
+  // Start, stop and crash notifications arrive over the WebSocket
+  useLiveEvents(['mcp'], (event) => {
+    if (event.type !== 'mcp.status') return
+    const update = event.payload
+    setServers(prev => prev.map(server => server.id === update.id ? { ...server, status: update.status } : server))
+    setExitReasons(prev => {
+      const { [update.id]: _, ...rest } = prev
+      return update.reason === 'crashed' || update.reason === 'failed' ? { ...rest, [update.id]: update } : rest
+    })
+  })
+
   const fetchServers = async () => {
     try {
       const response = await fetch('/api/mcp/servers')
@@ -84,9 +98,6 @@ export function McpServerManager() {
         console.error('Failed to start MCP server:', error)
         alert(`Failed to start server: ${error.error || 'Unknown error'}`)
       }
-      // Wait a moment for the server to start
-      await new Promise(resolve => setTimeout(resolve, 500))
-      fetchServers()
     } catch (error) {
       console.error('Failed to start MCP server:', error)
       alert('Network error while starting server')
@@ -101,9 +112,6 @@ export function McpServerManager() {
         console.error('Failed to stop MCP server:', error)
         alert(`Failed to stop server: ${error.error || 'Unknown error'}`)
       }
-      // Wait a moment for the server to stop
-      await new Promise(resolve => setTimeout(resolve, 500))
-      fetchServers()
     } catch (error) {
       console.error('Failed to stop MCP server:', error)
       alert('Network error while stopping server')
@@ -223,6 +231,13 @@ export function McpServerManager() {
                 <div className="text-sm text-muted-foreground">
                   <p>Command: {server.command}</p>
                   <p>Args: {server.args.join(', ')}</p>
+                  {exitReasons[server.id] && (
+                    <p className="text-red-400">
+                      {exitReasons[server.id].reason === 'crashed'
+                        ? `Crashed with exit code ${exitReasons[server.id].exitCode ?? 'unknown'}`
+                        : `Failed: ${exitReasons[server.id].error || 'Unknown error'}`}
+                    </p>
+                  )}
                 </div>
                 <div className="flex gap-2">
                   {server.status === 'stopped' ? (
@@ -10,7 +10,91 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/Tabs'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/Dialog'
 import { Badge } from '@/components/ui/Badge'
-import { Plus, Database, Cpu, Settings, Play, Trash2, Edit, FileText, Globe, HardDrive, RotateCcw } from 'lucide-react'
+import { useLiveEvents, waitForLiveEvent, LiveEvent } from '@/lib/liveEvents'
+import { Plus, Database, Cpu, Settings, Play, Trash2, Edit, FileText, Globe, HardDrive, RotateCcw, Eye, EyeOff, BookA, Workflow, Square, AlertTriangle } from 'lucide-react'
+
+type PaginationType = 'none' | 'cursor' | 'offset' | 'page' | 'link'
+type ChunkingStrategy = 'auto' | 'fixed' | 'sentence' | 'markdown' | 'semantic'
+
+interface DatabaseQuery {
+  name?: string
+  sql: string
+  textColumns?: string[]
+  metadataColumns?: string[]
+  idColumn?: string
+  groupBy?: string
+  cursorColumn?: string
+}
+
+interface DataSourceConfig {
+  crawl?: {
+    maxDepth?: number
+    maxPages?: number
+  }
+  database?: {
+    queries: DatabaseQuery[]
+  }
+  api?: {
+    recordsPath?: string
+    pagination?: {
+      type: PaginationType
+      cursorPath?: string
+    }
+  }
+  csv?: {
+    textColumns?: string[]
+    metadataColumns?: string[]
+    groupBy?: string
+    rowsPerChunk?: number
+  }
+  json?: {
+    recordsPath?: string
+    textFields?: string[]
+    metadataFields?: string[]
+  }
+  chunking?: {
+    strategy?: ChunkingStrategy
+    chunkSize?: number
+    chunkOverlap?: number
+  }
+  watch?: {
+    enabled: boolean
+    debounceMs?: number
+  }
+  aliases?: AliasEntry[]
+}
+
+// A name as the source spells it and the ways users say or type it
+interface AliasEntry {
+  term: string
+  aliases: string[]
+}
+
+interface WatcherState {
+  status: 'watching' | 'stopped' | 'error'
+  lastSyncAt?: string
+  error?: string
+}
+
+interface IngestionRunStats {
+  embeddingCacheHits: number
+  embeddingCacheMisses: number
+  failedFiles: number
+  failedChunks: number
+  finishedAt?: string
+}
+
+// A file that could not be loaded or a chunk that could not be embedded, left out of the index
+interface IngestionFailure {
+  id: string
+  kind: 'file' | 'chunk'
+  path?: string
+  chunkId?: string
+  preview?: string
+  error: string
+  attempts: number
+  updatedAt: string
+}
 
 interface DataSource {
   id: string
@@ -21,7 +105,11 @@ interface DataSource {
   connectionString?: string
   apiKey?: string
   headers?: Record<string, string>
-  status: 'configured' | 'processing' | 'ready' | 'error'
+  config?: DataSourceConfig
+  embeddingModel?: string
+  watcher?: WatcherState
+  lastRun?: IngestionRunStats
+  status: 'configured' | 'queued' | 'processing' | 'ready' | 'partial' | 'error'
   documentCount?: number
   lastIndexed?: string
   createdAt: string
@@ -29,6 +117,16 @@ interface DataSource {
 }
 
 
+type RerankProvider = 'cross-encoder' | 'llm'
+
+interface RerankConfig {
+  provider: RerankProvider
+  model?: string
+  candidates?: number
+  topN?: number
+  minScore?: number
+}
+
 interface VectorStore {
   id: string
   name: string
@@ -37,27 +135,128 @@ interface VectorStore {
   port?: number
   apiKey?: string
   indexName?: string
+  distance?: 'cosine' | 'l2'
+  rerank?: RerankConfig | null
+  embeddingModel?: string
   status: 'configured' | 'ready' | 'error'
   vectorCount?: number
   createdAt: string
   updatedAt: string
 }
 
+interface EmbeddingModel {
+  id: string
+  name: string
+  provider: 'openai' | 'openai-compatible' | 'ollama' | 'local'
+  modelName: string
+  dimensions: number
+  status: 'configured' | 'ready' | 'error'
+}
+
+interface PipelineRunStats extends IngestionRunStats {
+  sources: Array<{ dataSourceId: string; chunks: number; embedded: number; failedChunks: number; error?: string }>
+  removedChunks: number
+}
+
+// Several data sources indexed together into one vector store
+interface RagPipeline {
+  id: string
+  name: string
+  description: string
+  dataSources: string[]
+  vectorStore: string
+  embeddingModel?: string
+  chunking?: DataSourceConfig['chunking']
+  lastRun?: PipelineRunStats
+  status: 'configured' | 'queued' | 'processing' | 'ready' | 'error'
+  documentCount?: number
+  lastProcessed?: string
+  createdAt: string
+  updatedAt: string
+}
+
+// Background ingestion run of a data source or pipeline
+interface RagJob {
+  id: string
+  type: 'datasource' | 'pipeline' | 'reembed' | 'sync'
+  targetId: string
+  status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  progress: { loaded: number; chunked: number; embedded: number; stored: number }
+  error?: string
+  createdAt: string
+}
+
+// How long the create dialog waits for a new data source to finish processing
+const PROCESSING_TIMEOUT_MS = 10 * 60 * 1000
+
+// Queued and processing items have a job in flight and can't be changed until it ends
+const isBusy = (status: string) => status === 'queued' || status === 'processing'
+
+const formatProgress = (job?: RagJob) => job
+  ? `Loaded ${job.progress.loaded} • Chunked ${job.progress.chunked} • Embedded ${job.progress.embedded} • Stored ${job.progress.stored}`
+  : null
+
+// Select value standing in for "no model set", i.e. the server's default OpenAI model
+const DEFAULT_EMBEDDING_MODEL = 'default'
+
+// Select value for a pipeline that keeps its chunks in a vector store of its own
+const OWN_VECTOR_STORE = 'own'
+
+
+// Mirrors the backend's file loader registry
+const ACCEPTED_FILE_TYPES = [
+  '.txt', '.md', '.pdf', '.docx', '.csv', '.json', '.html', '.htm', '.xlsx', '.pptx', '.epub', '.rtf',
+  '.png', '.jpg', '.jpeg',
+  '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.py', '.java', '.kt', '.scala', '.go', '.rs', '.rb', '.php',
+  '.cs', '.c', '.h', '.cpp', '.cc', '.hpp', '.swift', '.sh', '.sql', '.yaml', '.yml', '.toml', '.css', '.scss',
+  '.zip', '.tar', '.tgz', '.gz', // Archives expand into a directory source
+].join(',')
+
+// Failed chunk requests are retried with backoff before the upload gives up
+const MAX_CHUNK_RETRIES = 5
+
+interface UploadSession {
+  id: string
+  received: number
+  chunkSize: number
+}
+
+interface FileUploadProgress {
+  loaded: number
+  total: number
+  status: 'pending' | 'uploading' | 'done' | 'error'
+  error?: string
+}
+
+// Files picked from a folder keep their path inside it
+const uploadPath = (file: File) => file.webkitRelativePath || file.name
+
+// Identifies an interrupted upload of the same file so picking it again resumes it
+const uploadResumeKey = (file: File) => `rag-upload:${uploadPath(file)}:${file.size}:${file.lastModified}`
+
+const formatBytes = (bytes: number) => bytes < 1024 * 1024
+  ? `${Math.ceil(bytes / 1024)} KB`
+  : `${(bytes / (1024 * 1024)).toFixed(1)} MB`
 
 export function RagConfigurator() {
   const [dataSources, setDataSources] = useState<DataSource[]>([])
   const [vectorStores, setVectorStores] = useState<VectorStore[]>([])
+  const [pipelines, setPipelines] = useState<RagPipeline[]>([])
+  // Queued or running job of each data source and pipeline, by target ID
+  const [activeJobs, setActiveJobs] = useState<Record<string, RagJob>>({})
   const [activeTab, setActiveTab] = useState('datasources')
 
   // Dialog states
   const [isDataSourceDialogOpen, setIsDataSourceDialogOpen] = useState(false)
   const [isVectorStoreDialogOpen, setIsVectorStoreDialogOpen] = useState(false)
+  const [isPipelineDialogOpen, setIsPipelineDialogOpen] = useState(false)
   const [editingDataSource, setEditingDataSource] = useState<DataSource | null>(null)
   const [editingVectorStore, setEditingVectorStore] = useState<VectorStore | null>(null)
+  const [editingPipeline, setEditingPipeline] = useState<RagPipeline | null>(null)
   const [deleteConfirmDialog, setDeleteConfirmDialog] = useState<{
     isOpen: boolean
-    item: DataSource | VectorStore | null
-    type: 'datasource' | 'vectorstore' | null
+    item: DataSource | VectorStore | RagPipeline | null
+    type: 'datasource' | 'vectorstore' | 'pipeline' | null
   }>({ isOpen: false, item: null, type: null })
 
   // Form states
@@ -69,16 +268,40 @@ export function RagConfigurator() {
     connectionString: '',
     apiKey: '',
     headers: '',
+    crawlDepth: 2,
+    crawlMaxPages: 50,
+    sqlQuery: '',
+    textColumns: '',
+    metadataColumns: '',
+    idColumn: '',
+    groupBy: '',
+    cursorColumn: '',
+    recordsPath: '',
+    paginationType: 'none' as PaginationType,
+    cursorPath: '',
+    csvRowsPerChunk: 1,
+    jsonTextFields: '',
+    jsonMetadataFields: '',
+    chunkStrategy: 'auto' as ChunkingStrategy,
+    chunkSize: 1000,
+    chunkOverlap: 200,
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
   })
 
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [uploadProgress, setUploadProgress] = useState<Record<string, FileUploadProgress>>({})
+  const [embeddingModels, setEmbeddingModels] = useState<EmbeddingModel[]>([])
 
   // Loading states
   const [isCreatingDataSource, setIsCreatingDataSource] = useState(false)
   const [isCreatingVectorStore, setIsCreatingVectorStore] = useState(false)
+  const [isSavingPipeline, setIsSavingPipeline] = useState(false)
+  const [pipelineError, setPipelineError] = useState<string | null>(null)
   const [isDeletingItem, setIsDeletingItem] = useState<string | null>(null)
   const [isUpdatingItem, setIsUpdatingItem] = useState<string | null>(null)
   const [processingDataSourceId, setProcessingDataSourceId] = useState<string | null>(null)
+  const [aliasDialog, setAliasDialog] = useState<{ source: DataSource | null; text: string; error: string | null }>({ source: null, text: '', error: null })
+  const [failureReport, setFailureReport] = useState<{ source: DataSource | null; failures: IngestionFailure[]; error: string | null }>({ source: null, failures: [], error: null })
 
   const [newVectorStore, setNewVectorStore] = useState({
     name: '',
@@ -87,14 +310,61 @@ export function RagConfigurator() {
     port: 8000,
     apiKey: '',
     indexName: '',
+    distance: 'cosine' as 'cosine' | 'l2',
+    rerankProvider: 'none' as RerankProvider | 'none',
+    rerankModel: '',
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
   })
 
+  const emptyPipeline = {
+    name: '',
+    description: '',
+    dataSources: [] as string[],
+    vectorStore: OWN_VECTOR_STORE,
+    embeddingModel: DEFAULT_EMBEDDING_MODEL,
+    chunkStrategy: 'auto' as ChunkingStrategy,
+    chunkSize: 1000,
+    chunkOverlap: 200,
+  }
+  const [newPipeline, setNewPipeline] = useState(emptyPipeline)
+
   // Load data on component mount
   useEffect(() => {
     loadDataSources()
     loadVectorStores()
+    loadEmbeddingModels()
+    loadPipelines()
+    loadActiveJobs()
   }, [])
 
+  // Processing status, progress and results arrive over the WebSocket instead of being polled
+  useLiveEvents(['datasource', 'pipeline', 'job'], (event: LiveEvent) => {
+    switch (event.type) {
+      case 'datasource.updated': {
+        const update = event.payload
+        setDataSources(prev => prev.map(source => source.id === update.id ? { ...source, ...update } : source))
+        if (update.status === 'ready' || update.status === 'partial') announceVectorStore(`datastore_${update.id}`)
+        break
+      }
+      case 'pipeline.updated': {
+        const update = event.payload
+        const pipeline = pipelines.find(p => p.id === update.id)
+        setPipelines(prev => prev.map(p => p.id === update.id ? { ...p, ...update } : p))
+        // A pipeline's own store only appears once it has run, so let agent configurators pick it up
+        if (update.status === 'ready' && pipeline) announceVectorStore(pipeline.vectorStore)
+        break
+      }
+      case 'job.updated': {
+        const job = event.payload
+        setActiveJobs(prev => {
+          const { [job.targetId]: _, ...rest } = prev
+          return job.status === 'queued' || job.status === 'running' ? { ...rest, [job.targetId]: job } : rest
+        })
+        break
+      }
+    }
+  })
+
   // Listen for vector store creation events
   useEffect(() => {
     const handleVectorStoreCreated = () => {
@@ -122,6 +392,14 @@ export function RagConfigurator() {
     }
   }, [isVectorStoreDialogOpen])
 
+  useEffect(() => {
+    if (!isPipelineDialogOpen) {
+      setEditingPipeline(null)
+      setNewPipeline(emptyPipeline)
+      setPipelineError(null)
+    }
+  }, [isPipelineDialogOpen])
+
   const loadDataSources = async () => {
     try {
       const response = await fetch('/api/rag/datasources')
@@ -135,6 +413,18 @@ export function RagConfigurator() {
   }
 
 
+  const loadEmbeddingModels = async () => {
+    try {
+      const response = await fetch('/api/rag/embeddingmodels')
+      if (response.ok) {
+        const data = await response.json()
+        setEmbeddingModels(data)
+      }
+    } catch (error) {
+      console.error('Failed to load embedding models:', error)
+    }
+  }
+
   const loadVectorStores = async () => {
     try {
       const response = await fetch('/api/rag/vectorstores')
@@ -147,10 +437,52 @@ export function RagConfigurator() {
     }
   }
 
+  const loadActiveJobs = async () => {
+    try {
+      const response = await fetch('/api/rag/jobs')
+      if (response.ok) {
+        const { jobs }: { jobs: RagJob[] } = await response.json()
+        const active = jobs.filter(job => job.status === 'queued' || job.status === 'running')
+        setActiveJobs(Object.fromEntries(active.map(job => [job.targetId, job])))
+      }
+    } catch (error) {
+      console.error('Failed to load jobs:', error)
+    }
+  }
+
+  // Refreshes the vector store list and tells other components about a store that just became ready
+  const announceVectorStore = async (vectorStoreId: string) => {
+    try {
+      const response = await fetch('/api/rag/vectorstores')
+      if (!response.ok) return
+      const allVectorStores: VectorStore[] = await response.json()
+      setVectorStores(allVectorStores)
+      const vectorStore = allVectorStores.find(vs => vs.id === vectorStoreId)
+      if (vectorStore) {
+        window.dispatchEvent(new CustomEvent('vectorStoreCreated', { detail: { vectorStore } }))
+      }
+    } catch (error) {
+      console.error('Failed to refresh vector stores:', error)
+    }
+  }
+
+  const loadPipelines = async () => {
+    try {
+      const response = await fetch('/api/rag/pipelines')
+      if (response.ok) {
+        const data = await response.json()
+        setPipelines(data)
+      }
+    } catch (error) {
+      console.error('Failed to load pipelines:', error)
+    }
+  }
+
 
   const handleFileSelect = (files: FileList | null) => {
     if (files) {
       setSelectedFiles(Array.from(files))
+      setUploadProgress({})
     }
   }
 
@@ -163,16 +495,51 @@ export function RagConfigurator() {
     try {
       if ((newDataSource.type === 'file' || newDataSource.type === 'directory') && selectedFiles.length > 0) {
         // Upload files - this will auto-create data source and process it
-        const result = await uploadFiles(selectedFiles, newDataSource.name, newDataSource.type)
+        const result = await uploadFiles(selectedFiles, newDataSource.name, newDataSource.type, buildFileConfig(), toEmbeddingModelId(newDataSource.embeddingModel))
         if (result && result.dataSource) {
           createdDataSourceId = result.dataSource.id
           setProcessingDataSourceId(createdDataSourceId)
         }
       } else {
         // Handle other data source types (URL, database, API)
+        const {
+          crawlDepth, crawlMaxPages,
+          sqlQuery, textColumns, metadataColumns, idColumn, groupBy, cursorColumn,
+          recordsPath, paginationType, cursorPath, csvRowsPerChunk, jsonTextFields, jsonMetadataFields,
+          chunkStrategy, chunkSize, chunkOverlap, embeddingModel,
+          ...fields
+        } = newDataSource
+        let config: DataSourceConfig | undefined = buildChunkingConfig()
+        if (newDataSource.type === 'url') {
+          config = { ...config, crawl: { maxDepth: crawlDepth, maxPages: crawlMaxPages } }
+        } else if (newDataSource.type === 'database') {
+          config = {
+            ...config,
+            database: {
+              queries: [{
+                sql: sqlQuery,
+                textColumns: splitColumns(textColumns),
+                metadataColumns: splitColumns(metadataColumns),
+                idColumn: idColumn.trim() || undefined,
+                groupBy: groupBy.trim() || undefined,
+                cursorColumn: cursorColumn.trim() || undefined,
+              }]
+            }
+          }
+        } else if (newDataSource.type === 'api') {
+          config = {
+            ...config,
+            api: {
+              recordsPath: recordsPath.trim() || undefined,
+              pagination: { type: paginationType, cursorPath: cursorPath.trim() || undefined },
+            }
+          }
+        }
         const data = {
-          ...newDataSource,
+          ...fields,
           headers: newDataSource.headers ? JSON.parse(newDataSource.headers) : undefined,
+          config,
+          embeddingModel: toEmbeddingModelId(embeddingModel),
         }
 
         const response = await fetch('/api/rag/datasources', {
@@ -190,9 +557,9 @@ export function RagConfigurator() {
         setProcessingDataSourceId(createdDataSourceId)
       }
 
-      // Poll for processing completion
+      // Wait for processing to complete
       if (createdDataSourceId) {
-        await pollProcessingStatus(createdDataSourceId)
+        await waitForProcessing(createdDataSourceId)
       }
 
       // Refresh the data after successful creation
@@ -210,8 +577,27 @@ export function RagConfigurator() {
         connectionString: '',
         apiKey: '',
         headers: '',
+        crawlDepth: 2,
+        crawlMaxPages: 50,
+        sqlQuery: '',
+        textColumns: '',
+        metadataColumns: '',
+        idColumn: '',
+        groupBy: '',
+        cursorColumn: '',
+        recordsPath: '',
+        paginationType: 'none',
+        cursorPath: '',
+        csvRowsPerChunk: 1,
+        jsonTextFields: '',
+        jsonMetadataFields: '',
+        chunkStrategy: 'auto',
+        chunkSize: 1000,
+        chunkOverlap: 200,
+        embeddingModel: DEFAULT_EMBEDDING_MODEL,
       })
       setSelectedFiles([])
+      setUploadProgress({})
       setProcessingDataSourceId(null)
 
     } catch (error) {
@@ -223,82 +609,169 @@ export function RagConfigurator() {
     }
   }
 
-  const pollProcessingStatus = async (dataSourceId: string): Promise<void> => {
-    const maxPolls = 60 // 60 seconds max
-    let polls = 0
+  const splitColumns = (value: string) => value.split(',').map(column => column.trim()).filter(Boolean)
 
-    while (polls < maxPolls) {
-      await new Promise(resolve => setTimeout(resolve, 1000)) // Poll every second
+  const toEmbeddingModelId = (value: string) => value === DEFAULT_EMBEDDING_MODEL ? undefined : value
 
-      try {
-        const response = await fetch('/api/rag/datasources')
-        if (response.ok) {
-          const dataSources = await response.json()
-          const dataSource = dataSources.find((ds: any) => ds.id === dataSourceId)
-
-          if (dataSource) {
-            if (dataSource.status === 'ready') {
-              // Success! Get the new vector store and notify other components
-              const vectorStoresResponse = await fetch('/api/rag/vectorstores')
-              if (vectorStoresResponse.ok) {
-                const allVectorStores = await vectorStoresResponse.json()
-                const newVectorStore = allVectorStores.find((vs: any) => vs.id === `datastore_${dataSourceId}`)
-
-                if (newVectorStore) {
-                  // Notify other components with the new vector store data
-                  window.dispatchEvent(new CustomEvent('vectorStoreCreated', {
-                    detail: { vectorStore: newVectorStore }
-                  }))
-                }
-              }
+  // Only send chunking settings that differ from the backend defaults
+  const buildChunkingConfig = (): DataSourceConfig | undefined => {
+    const { chunkStrategy, chunkSize, chunkOverlap } = newDataSource
+    if (chunkStrategy === 'auto' && chunkSize === 1000 && chunkOverlap === 200) return undefined
+    return { chunking: { strategy: chunkStrategy, chunkSize, chunkOverlap } }
+  }
 
-              return
-            } else if (dataSource.status === 'error') {
-              throw new Error('Processing failed')
-            }
-            // Still processing, continue polling
-          }
-        }
+  // Uploaded files carry the CSV column mapping and JSON record selection along with the chunking settings
+  const buildFileConfig = (): DataSourceConfig | undefined => {
+    const { textColumns, metadataColumns, groupBy, csvRowsPerChunk, recordsPath, jsonTextFields, jsonMetadataFields } = newDataSource
+    const csv = {
+      textColumns: splitColumns(textColumns),
+      metadataColumns: splitColumns(metadataColumns),
+      groupBy: groupBy.trim() || undefined,
+      rowsPerChunk: csvRowsPerChunk,
+    }
+    const hasCsvConfig = csv.textColumns.length > 0 || csv.metadataColumns.length > 0 || csv.groupBy || csv.rowsPerChunk !== 1
+    const json = recordsPath.trim()
+      ? { recordsPath: recordsPath.trim(), textFields: splitColumns(jsonTextFields), metadataFields: splitColumns(jsonMetadataFields) }
+      : undefined
+    const config = { ...buildChunkingConfig(), ...(hasCsvConfig ? { csv } : {}), ...(json ? { json } : {}) }
+    return Object.keys(config).length > 0 ? config : undefined
+  }
+
+  // Resolves once the data source is ready, from its live update or, when it finished before
+  // the wait began, from its current state
+  const waitForProcessing = async (dataSourceId: string): Promise<void> => {
+    const finished = (status: string) => status === 'ready' || status === 'partial' || status === 'error'
+    const wait = waitForLiveEvent('datasource.updated', source => source.id === dataSourceId && finished(source.status), PROCESSING_TIMEOUT_MS)
+    try {
+      const response = await fetch(`/api/rag/datasources/${dataSourceId}`)
+      const current = response.ok ? await response.json() : null
+      const source = current && finished(current.status) ? current : await wait.promise
+      if (source.status === 'error') {
+        throw new Error('Processing failed')
+      }
+    } finally {
+      wait.cancel()
+    }
+  }
+
+  const updateUploadProgress = (path: string, update: Partial<FileUploadProgress>) => {
+    setUploadProgress(prev => ({ ...prev, [path]: { ...prev[path], ...update } }))
+  }
+
+  // Sends each file as a resumable upload, then creates one data source from all of them: a file
+  // source for a single file, a directory source for several files or an archive
+  const uploadFiles = async (files: File[], dataSourceName: string, type: 'file' | 'directory', config?: DataSourceConfig, embeddingModel?: string) => {
+    setUploadProgress(Object.fromEntries(files.map(file => [uploadPath(file), { loaded: 0, total: file.size, status: 'pending' }])))
+
+    const uploadIds: string[] = []
+    for (const file of files) {
+      const path = uploadPath(file)
+      try {
+        uploadIds.push(await uploadFile(file, loaded => updateUploadProgress(path, { loaded, status: 'uploading' })))
+        updateUploadProgress(path, { loaded: file.size, status: 'done' })
       } catch (error) {
-        console.error('Error polling status:', error)
+        updateUploadProgress(path, { status: 'error', error: error instanceof Error ? error.message : 'Upload failed' })
         throw error
       }
+    }
+
+    const formData = new FormData()
+    formData.append('name', dataSourceName)
+    formData.append('type', type)
+    formData.append('uploads', JSON.stringify(uploadIds))
+    if (config) {
+      formData.append('config', JSON.stringify(config))
+    }
+    if (embeddingModel) {
+      formData.append('embeddingModel', embeddingModel)
+    }
+
+    const response = await fetch('/api/rag/upload', {
+      method: 'POST',
+      body: formData,
+    })
 
-      polls++
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}))
+      throw new Error(`Failed to create data source: ${errorData.error || response.statusText}`)
     }
 
-    throw new Error('Processing timed out')
+    files.forEach(file => localStorage.removeItem(uploadResumeKey(file)))
+    const result = await response.json()
+    console.log(`Uploaded ${files.length} files:`, result)
+    return result
   }
 
-  const uploadFiles = async (files: File[], dataSourceName: string, type: 'file' | 'directory') => {
-    let lastResult: any = null
+  // Uploads one file in chunks and returns its upload ID. A file interrupted before (by a network
+  // error or a reload) continues from the bytes the server already has.
+  const uploadFile = async (file: File, onProgress: (loaded: number) => void): Promise<string> => {
+    const resumeKey = uploadResumeKey(file)
+    let session: UploadSession | null = null
 
-    for (const file of files) {
-      const formData = new FormData()
-      formData.append('file', file)
-      formData.append('name', type === 'file' ? dataSourceName : `${dataSourceName}/${file.name}`)
-      formData.append('type', type)
-
-      const response = await fetch('/api/rag/upload', {
+    const savedId = localStorage.getItem(resumeKey)
+    if (savedId) {
+      const response = await fetch(`/api/rag/uploads/${savedId}`)
+      if (response.ok) session = await response.json()
+    }
+    if (!session) {
+      const response = await fetch('/api/rag/uploads', {
         method: 'POST',
-        body: formData,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileName: file.name, size: file.size, relativePath: uploadPath(file) }),
       })
-
       if (!response.ok) {
-        const errorData = await response.json()
-        throw new Error(`Failed to upload ${file.name}: ${errorData.error || response.statusText}`)
+        const errorData = await response.json().catch(() => ({}))
+        throw new Error(`Failed to upload ${uploadPath(file)}: ${errorData.error || response.statusText}`)
+      }
+      session = await response.json() as UploadSession
+      localStorage.setItem(resumeKey, session.id)
+    }
+
+    let received = session.received
+    let failures = 0
+    onProgress(received)
+
+    while (received < file.size) {
+      let response: Response
+      try {
+        response = await fetch(`/api/rag/uploads/${session.id}?offset=${received}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/octet-stream' },
+          body: file.slice(received, received + session.chunkSize),
+        })
+      } catch (error) {
+        if (++failures >= MAX_CHUNK_RETRIES) throw error
+        await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** failures))
+        continue
       }
 
-      const result = await response.json()
-      console.log(`Uploaded ${file.name}:`, result)
-      lastResult = result
+      const result = await response.json().catch(() => ({}))
+      // On an offset conflict the server says how much it has, and the upload carries on from there
+      if (!response.ok && !(response.status === 409 && typeof result.received === 'number')) {
+        throw new Error(`Failed to upload ${uploadPath(file)}: ${result.error || response.statusText}`)
+      }
+      received = result.received
+      failures = 0
+      onProgress(received)
     }
 
-    return lastResult
+    return session.id
   }
 
 
 
+  // Form-only rerank fields become the store's rerank config, keeping tuning the form doesn't show
+  const toVectorStorePayload = (form: typeof newVectorStore, currentRerank?: RerankConfig | null) => {
+    const { rerankProvider, rerankModel, ...store } = form
+    return {
+      ...store,
+      embeddingModel: toEmbeddingModelId(store.embeddingModel),
+      rerank: rerankProvider === 'none'
+        ? null
+        : { ...currentRerank, provider: rerankProvider, model: rerankModel.trim() || undefined },
+    }
+  }
+
   const handleCreateOrUpdateVectorStore = async () => {
     if (!newVectorStore.name.trim()) return
 
@@ -310,7 +783,7 @@ export function RagConfigurator() {
       const response = await fetch(url, {
         method,
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(newVectorStore),
+        body: JSON.stringify(toVectorStorePayload(newVectorStore, editingVectorStore?.rerank)),
       })
 
       if (response.ok) {
@@ -323,6 +796,10 @@ export function RagConfigurator() {
           port: 8000,
           apiKey: '',
           indexName: '',
+          distance: 'cosine',
+          rerankProvider: 'none',
+          rerankModel: '',
+          embeddingModel: DEFAULT_EMBEDDING_MODEL,
         })
         loadVectorStores()
       }
@@ -343,6 +820,24 @@ export function RagConfigurator() {
       connectionString: source.connectionString || '',
       apiKey: source.apiKey || '',
       headers: source.headers ? JSON.stringify(source.headers, null, 2) : '',
+      crawlDepth: source.config?.crawl?.maxDepth ?? 2,
+      crawlMaxPages: source.config?.crawl?.maxPages ?? 50,
+      sqlQuery: source.config?.database?.queries[0]?.sql || '',
+      textColumns: (source.config?.csv?.textColumns || source.config?.database?.queries[0]?.textColumns)?.join(', ') || '',
+      metadataColumns: (source.config?.csv?.metadataColumns || source.config?.database?.queries[0]?.metadataColumns)?.join(', ') || '',
+      idColumn: source.config?.database?.queries[0]?.idColumn || '',
+      groupBy: source.config?.csv?.groupBy || source.config?.database?.queries[0]?.groupBy || '',
+      csvRowsPerChunk: source.config?.csv?.rowsPerChunk ?? 1,
+      cursorColumn: source.config?.database?.queries[0]?.cursorColumn || '',
+      recordsPath: source.config?.json?.recordsPath || source.config?.api?.recordsPath || '',
+      jsonTextFields: source.config?.json?.textFields?.join(', ') || '',
+      jsonMetadataFields: source.config?.json?.metadataFields?.join(', ') || '',
+      paginationType: source.config?.api?.pagination?.type || 'none',
+      cursorPath: source.config?.api?.pagination?.cursorPath || '',
+      chunkStrategy: source.config?.chunking?.strategy || 'auto',
+      chunkSize: source.config?.chunking?.chunkSize ?? 1000,
+      chunkOverlap: source.config?.chunking?.chunkOverlap ?? 200,
+      embeddingModel: source.embeddingModel || DEFAULT_EMBEDDING_MODEL,
     })
     setIsDataSourceDialogOpen(true)
   }
@@ -356,11 +851,101 @@ export function RagConfigurator() {
       port: store.port || 8000,
       apiKey: store.apiKey || '',
       indexName: store.indexName || '',
+      distance: store.distance || 'cosine',
+      rerankProvider: store.rerank?.provider || 'none',
+      rerankModel: store.rerank?.model || '',
+      embeddingModel: store.embeddingModel || DEFAULT_EMBEDDING_MODEL,
     })
     setIsVectorStoreDialogOpen(true)
   }
 
-  const handleDeleteItem = (item: DataSource | VectorStore, type: 'datasource' | 'vectorstore') => {
+  const handleToggleWatch = async (source: DataSource) => {
+    setIsUpdatingItem(source.id)
+    try {
+      const response = await fetch(`/api/rag/datasources/${source.id}/watch`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !source.config?.watch?.enabled }),
+      })
+      if (response.ok) {
+        loadDataSources()
+      }
+    } catch (error) {
+      console.error('Failed to toggle directory watcher:', error)
+    } finally {
+      setIsUpdatingItem(null)
+    }
+  }
+
+  // One entry per line, "Term: alias, alias"
+  const formatAliases = (entries: AliasEntry[] = []) => entries.map(entry => `${entry.term}: ${entry.aliases.join(', ')}`).join('\n')
+
+  const parseAliases = (text: string): AliasEntry[] => text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const [term, aliases = ''] = line.split(':', 2)
+      return { term: term.trim(), aliases: splitColumns(aliases) }
+    })
+
+  const handleSaveAliases = async () => {
+    if (!aliasDialog.source) return
+
+    setIsUpdatingItem(aliasDialog.source.id)
+    try {
+      const response = await fetch(`/api/rag/datasources/${aliasDialog.source.id}/aliases`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ aliases: parseAliases(aliasDialog.text) }),
+      })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to save aliases')
+      }
+      setAliasDialog({ source: null, text: '', error: null })
+      loadDataSources()
+    } catch (error) {
+      console.error('Failed to save data source aliases:', error)
+      setAliasDialog(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to save aliases' }))
+    } finally {
+      setIsUpdatingItem(null)
+    }
+  }
+
+  const handleShowFailures = async (source: DataSource) => {
+    setFailureReport({ source, failures: [], error: null })
+    try {
+      const response = await fetch(`/api/rag/datasources/${source.id}/failures`)
+      if (!response.ok) throw new Error('Failed to load failures')
+      const { files, chunks }: { files: IngestionFailure[]; chunks: IngestionFailure[] } = await response.json()
+      setFailureReport({ source, failures: [...files, ...chunks], error: null })
+    } catch (error) {
+      console.error('Failed to load ingestion failures:', error)
+      setFailureReport(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to load failures' }))
+    }
+  }
+
+  // Failed files need the source processed again; failed chunks can be re-embedded on their own
+  const handleRetryFailures = async (action: 'retry' | 'reembed') => {
+    if (!failureReport.source) return
+
+    setIsUpdatingItem(failureReport.source.id)
+    try {
+      const response = await fetch(`/api/rag/datasources/${failureReport.source.id}/${action}`, { method: 'POST' })
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to queue retry')
+      }
+      setFailureReport({ source: null, failures: [], error: null })
+    } catch (error) {
+      console.error('Failed to retry ingestion failures:', error)
+      setFailureReport(prev => ({ ...prev, error: error instanceof Error ? error.message : 'Failed to queue retry' }))
+    } finally {
+      setIsUpdatingItem(null)
+    }
+  }
+
+  const handleDeleteItem = (item: DataSource | VectorStore | RagPipeline, type: 'datasource' | 'vectorstore' | 'pipeline') => {
     setDeleteConfirmDialog({ isOpen: true, item, type })
   }
 
@@ -369,7 +954,7 @@ export function RagConfigurator() {
 
     setIsDeletingItem(deleteConfirmDialog.item.id)
     try {
-      const endpoint = deleteConfirmDialog.type === 'datasource' ? 'datasources' : 'vectorstores'
+      const endpoint = { datasource: 'datasources', vectorstore: 'vectorstores', pipeline: 'pipelines' }[deleteConfirmDialog.type]
       const response = await fetch(`/api/rag/${endpoint}/${deleteConfirmDialog.item.id}`, {
         method: 'DELETE',
       })
@@ -377,7 +962,11 @@ export function RagConfigurator() {
       if (response.ok) {
         loadDataSources()
         loadVectorStores()
+        loadPipelines()
         setDeleteConfirmDialog({ isOpen: false, item: null, type: null })
+      } else {
+        const error = await response.json().catch(() => null)
+        alert(error?.error || 'Failed to delete item')
       }
     } catch (error) {
       console.error('Failed to delete item:', error)
@@ -386,14 +975,118 @@ export function RagConfigurator() {
     }
   }
 
+  const handleEditPipeline = (pipeline: RagPipeline) => {
+    setEditingPipeline(pipeline)
+    setNewPipeline({
+      name: pipeline.name,
+      description: pipeline.description,
+      dataSources: pipeline.dataSources,
+      vectorStore: pipeline.vectorStore === `pipeline_${pipeline.id}` ? OWN_VECTOR_STORE : pipeline.vectorStore,
+      embeddingModel: pipeline.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+      chunkStrategy: pipeline.chunking?.strategy || 'auto',
+      chunkSize: pipeline.chunking?.chunkSize || 1000,
+      chunkOverlap: pipeline.chunking?.chunkOverlap ?? 200,
+    })
+    setIsPipelineDialogOpen(true)
+  }
+
+  const togglePipelineSource = (dataSourceId: string, checked: boolean) => {
+    setNewPipeline(prev => ({
+      ...prev,
+      dataSources: checked
+        ? [...prev.dataSources, dataSourceId]
+        : prev.dataSources.filter(id => id !== dataSourceId),
+    }))
+  }
+
+  const handleSavePipeline = async () => {
+    const { name, description, dataSources, vectorStore, embeddingModel, chunkStrategy, chunkSize, chunkOverlap } = newPipeline
+    const chunking = chunkStrategy === 'auto' && chunkSize === 1000 && chunkOverlap === 200
+      ? null // Each source keeps its own chunking settings
+      : { strategy: chunkStrategy, chunkSize, chunkOverlap }
+
+    setIsSavingPipeline(true)
+    setPipelineError(null)
+    try {
+      const response = await fetch(editingPipeline ? `/api/rag/pipelines/${editingPipeline.id}` : '/api/rag/pipelines', {
+        method: editingPipeline ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim(),
+          dataSources,
+          vectorStore: vectorStore === OWN_VECTOR_STORE ? '' : vectorStore,
+          embeddingModel: embeddingModel === DEFAULT_EMBEDDING_MODEL ? null : embeddingModel,
+          chunking,
+        }),
+      })
+
+      if (response.ok) {
+        setIsPipelineDialogOpen(false)
+        loadPipelines()
+        loadVectorStores()
+      } else {
+        const error = await response.json().catch(() => null)
+        setPipelineError(error?.error || 'Failed to save pipeline')
+      }
+    } catch (error) {
+      console.error('Failed to save pipeline:', error)
+      setPipelineError('Failed to save pipeline')
+    } finally {
+      setIsSavingPipeline(false)
+    }
+  }
+
+  const handleRunPipeline = async (pipeline: RagPipeline) => {
+    setIsUpdatingItem(pipeline.id)
+    try {
+      const response = await fetch(`/api/rag/pipelines/${pipeline.id}/run`, { method: 'POST' })
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        alert(error?.error || 'Failed to run pipeline')
+        return
+      }
+      setPipelines(prev => prev.map(p => p.id === pipeline.id ? { ...p, status: 'queued' } : p))
+    } catch (error) {
+      console.error('Failed to run pipeline:', error)
+    } finally {
+      setIsUpdatingItem(null)
+    }
+  }
+
+  // Cancels the job in flight for a data source or pipeline; a running job stops at its next file or batch
+  const handleCancelJob = async (targetId: string) => {
+    const job = activeJobs[targetId]
+    if (!job) return
+
+    setIsUpdatingItem(targetId)
+    try {
+      const response = await fetch(`/api/rag/jobs/${job.id}/cancel`, { method: 'POST' })
+      if (!response.ok) {
+        const error = await response.json().catch(() => null)
+        alert(error?.error || 'Failed to cancel job')
+      }
+    } catch (error) {
+      console.error('Failed to cancel job:', error)
+    } finally {
+      setIsUpdatingItem(null)
+    }
+  }
 
+  const deleteItemLabel = deleteConfirmDialog.type === 'datasource'
+    ? 'Data Source'
+    : deleteConfirmDialog.type === 'pipeline' ? 'Pipeline' : 'Vector Store'
 
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'ready':
         return <Badge variant="default" className="bg-green-500">Ready</Badge>
+      case 'queued':
+        return <Badge variant="secondary">Queued</Badge>
       case 'processing':
         return <Badge variant="default" className="bg-yellow-500">Processing</Badge>
+      case 'partial':
+        return <Badge variant="default" className="bg-orange-500">Partial</Badge>
       case 'configured':
         return <Badge variant="secondary">Configured</Badge>
       case 'error':
@@ -403,6 +1096,39 @@ export function RagConfigurator() {
     }
   }
 
+  // Selected files with their upload progress, once an upload has started
+  const renderUploadList = () => (
+    <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+      <p className="text-sm text-muted-foreground">
+        Selected: {selectedFiles.length} {selectedFiles.length === 1 ? 'file' : 'files'} ({formatBytes(selectedFiles.reduce((total, file) => total + file.size, 0))})
+      </p>
+      {selectedFiles.map(file => {
+        const path = uploadPath(file)
+        const progress = uploadProgress[path]
+        const percent = progress && progress.total > 0 ? Math.round((progress.loaded / progress.total) * 100) : progress?.status === 'done' ? 100 : 0
+        return (
+          <div key={path} className="text-xs">
+            <div className="flex justify-between gap-2">
+              <span className="truncate font-mono">{path}</span>
+              <span className={progress?.status === 'error' ? 'text-red-400' : 'text-muted-foreground'}>
+                {progress?.status === 'error' ? 'Failed' : progress ? `${percent}%` : formatBytes(file.size)}
+              </span>
+            </div>
+            {progress && (
+              <div className="h-1 w-full bg-muted rounded">
+                <div
+                  className={`h-1 rounded ${progress.status === 'error' ? 'bg-red-500' : progress.status === 'done' ? 'bg-green-500' : 'bg-blue-500'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            )}
+            {progress?.error && <p className="text-red-400">{progress.error}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+
   const getDataSourceIcon = (type: string) => {
     switch (type) {
       case 'file':
@@ -421,7 +1147,7 @@ export function RagConfigurator() {
   return (
     <div className="space-y-6">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="datasources" className="flex items-center gap-2">
             <Database className="w-4 h-4" />
             Data Sources
@@ -430,6 +1156,10 @@ export function RagConfigurator() {
             <Settings className="w-4 h-4" />
             Vector Stores
           </TabsTrigger>
+          <TabsTrigger value="pipelines" className="flex items-center gap-2">
+            <Workflow className="w-4 h-4" />
+            Pipelines
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="datasources" className="mt-6">
@@ -498,15 +1228,14 @@ export function RagConfigurator() {
                               id="ds-file"
                               type="file"
                               multiple
-                              accept=".txt,.pdf,.docx,.csv,.json,.md"
+                              accept={ACCEPTED_FILE_TYPES}
                               onChange={(e) => handleFileSelect(e.target.files)}
                               className="cursor-pointer"
                             />
-                            {selectedFiles.length > 0 && (
-                              <div className="mt-2 text-sm text-muted-foreground">
-                                Selected: {selectedFiles.map(f => f.name).join(', ')}
-                              </div>
-                            )}
+                            <p className="mt-1 text-xs text-muted-foreground">
+                              Several files or a ZIP/TAR archive become one directory source
+                            </p>
+                            {selectedFiles.length > 0 && renderUploadList()}
                           </div>
                         </div>
                       )}
@@ -517,51 +1246,339 @@ export function RagConfigurator() {
                             <Input
                               id="ds-directory"
                               type="file"
+                              multiple
+                              {...{ webkitdirectory: '', directory: '' }}
                               onChange={(e) => handleFileSelect(e.target.files)}
                               className="cursor-pointer"
                             />
-                            {selectedFiles.length > 0 && (
-                              <div className="mt-2 text-sm text-muted-foreground">
-                                Selected: {selectedFiles.length} files in directory
-                              </div>
-                            )}
+                            {selectedFiles.length > 0 && renderUploadList()}
                           </div>
                         </div>
                       )}
-                      {newDataSource.type === 'url' && (
-                        <div className="grid grid-cols-4 items-center gap-4">
-                          <Label htmlFor="ds-url" className="text-right">URL</Label>
-                          <Input
-                            id="ds-url"
-                            value={newDataSource.url}
-                            onChange={(e) => setNewDataSource(prev => ({ ...prev, url: e.target.value }))}
-                            className="col-span-3"
-                          />
-                        </div>
-                      )}
-                      {(newDataSource.type === 'database' || newDataSource.type === 'api') && (
+                      {(newDataSource.type === 'file' || newDataSource.type === 'directory') &&
+                        (selectedFiles.some(file => file.name.toLowerCase().endsWith('.csv')) || editingDataSource?.config?.csv) && (
                         <>
                           <div className="grid grid-cols-4 items-center gap-4">
-                            <Label htmlFor="ds-conn" className="text-right">Connection</Label>
+                            <Label htmlFor="ds-csv-text-cols" className="text-right">Text Columns</Label>
                             <Input
-                              id="ds-conn"
-                              value={newDataSource.connectionString}
-                              onChange={(e) => setNewDataSource(prev => ({ ...prev, connectionString: e.target.value }))}
+                              id="ds-csv-text-cols"
+                              value={newDataSource.textColumns}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, textColumns: e.target.value }))}
+                              placeholder="Name, Bio (default: all other columns)"
                               className="col-span-3"
                             />
                           </div>
                           <div className="grid grid-cols-4 items-center gap-4">
-                            <Label htmlFor="ds-key" className="text-right">API Key</Label>
+                            <Label htmlFor="ds-csv-meta-cols" className="text-right">Metadata Columns</Label>
                             <Input
-                              id="ds-key"
-                              value={newDataSource.apiKey}
-                              onChange={(e) => setNewDataSource(prev => ({ ...prev, apiKey: e.target.value }))}
+                              id="ds-csv-meta-cols"
+                              value={newDataSource.metadataColumns}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, metadataColumns: e.target.value }))}
+                              placeholder="Topic"
                               className="col-span-3"
                             />
                           </div>
-                        </>
-                      )}
-                    </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-csv-group-by" className="text-right">Group By</Label>
+                            <Input
+                              id="ds-csv-group-by"
+                              value={newDataSource.groupBy}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, groupBy: e.target.value }))}
+                              placeholder="Optional: one chunk per value"
+                              className="col-span-3"
+                            />
+                          </div>
+                          {!newDataSource.groupBy.trim() && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                              <Label htmlFor="ds-csv-rows" className="text-right">Rows per Chunk</Label>
+                              <Input
+                                id="ds-csv-rows"
+                                type="number"
+                                min={1}
+                                value={newDataSource.csvRowsPerChunk}
+                                onChange={(e) => setNewDataSource(prev => ({ ...prev, csvRowsPerChunk: parseInt(e.target.value) || 1 }))}
+                                className="col-span-3"
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {(newDataSource.type === 'file' || newDataSource.type === 'directory') &&
+                        (selectedFiles.some(file => file.name.toLowerCase().endsWith('.json')) || editingDataSource?.config?.json) && (
+                        <>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-json-records" className="text-right">Records Path</Label>
+                            <Input
+                              id="ds-json-records"
+                              value={newDataSource.recordsPath}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, recordsPath: e.target.value }))}
+                              placeholder="Optional: $.speakers[*]"
+                              className="col-span-3"
+                            />
+                          </div>
+                          {newDataSource.recordsPath.trim() && (
+                            <>
+                              <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="ds-json-text-fields" className="text-right">Text Fields</Label>
+                                <Input
+                                  id="ds-json-text-fields"
+                                  value={newDataSource.jsonTextFields}
+                                  onChange={(e) => setNewDataSource(prev => ({ ...prev, jsonTextFields: e.target.value }))}
+                                  placeholder="name, bio (default: whole record)"
+                                  className="col-span-3"
+                                />
+                              </div>
+                              <div className="grid grid-cols-4 items-center gap-4">
+                                <Label htmlFor="ds-json-meta-fields" className="text-right">Metadata Fields</Label>
+                                <Input
+                                  id="ds-json-meta-fields"
+                                  value={newDataSource.jsonMetadataFields}
+                                  onChange={(e) => setNewDataSource(prev => ({ ...prev, jsonMetadataFields: e.target.value }))}
+                                  placeholder="topic"
+                                  className="col-span-3"
+                                />
+                              </div>
+                            </>
+                          )}
+                        </>
+                      )}
+                      {newDataSource.type === 'url' && (
+                        <div className="grid grid-cols-4 items-center gap-4">
+                          <Label htmlFor="ds-url" className="text-right">URL</Label>
+                          <Input
+                            id="ds-url"
+                            value={newDataSource.url}
+                            onChange={(e) => setNewDataSource(prev => ({ ...prev, url: e.target.value }))}
+                            className="col-span-3"
+                          />
+                        </div>
+                      )}
+                      {newDataSource.type === 'url' && (
+                        <>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-crawl-depth" className="text-right">Crawl Depth</Label>
+                            <Input
+                              id="ds-crawl-depth"
+                              type="number"
+                              min={0}
+                              value={newDataSource.crawlDepth}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, crawlDepth: parseInt(e.target.value) || 0 }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-crawl-pages" className="text-right">Max Pages</Label>
+                            <Input
+                              id="ds-crawl-pages"
+                              type="number"
+                              min={1}
+                              value={newDataSource.crawlMaxPages}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, crawlMaxPages: parseInt(e.target.value) || 1 }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                        </>
+                      )}
+                      {newDataSource.type === 'database' && (
+                        <div className="grid grid-cols-4 items-center gap-4">
+                          <Label htmlFor="ds-conn" className="text-right">Connection</Label>
+                          <Input
+                            id="ds-conn"
+                            value={newDataSource.connectionString}
+                            onChange={(e) => setNewDataSource(prev => ({ ...prev, connectionString: e.target.value }))}
+                            placeholder="postgresql://... or sqlite:///path/to.db"
+                            className="col-span-3"
+                          />
+                        </div>
+                      )}
+                      {newDataSource.type === 'api' && (
+                        <>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-endpoint" className="text-right">Endpoint</Label>
+                            <Input
+                              id="ds-endpoint"
+                              value={newDataSource.url}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, url: e.target.value }))}
+                              placeholder="https://api.example.com/v1/items"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-key" className="text-right">API Key</Label>
+                            <Input
+                              id="ds-key"
+                              value={newDataSource.apiKey}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, apiKey: e.target.value }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-headers" className="text-right">Headers</Label>
+                            <Textarea
+                              id="ds-headers"
+                              value={newDataSource.headers}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, headers: e.target.value }))}
+                              placeholder='{"X-Tenant": "acme"}'
+                              className="col-span-3 font-mono text-xs"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-records-path" className="text-right">Records Path</Label>
+                            <Input
+                              id="ds-records-path"
+                              value={newDataSource.recordsPath}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, recordsPath: e.target.value }))}
+                              placeholder="$.data[*]"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-pagination" className="text-right">Pagination</Label>
+                            <Select value={newDataSource.paginationType} onValueChange={(value: any) => setNewDataSource(prev => ({ ...prev, paginationType: value }))}>
+                              <SelectTrigger className="col-span-3">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">None</SelectItem>
+                                <SelectItem value="cursor">Cursor</SelectItem>
+                                <SelectItem value="offset">Offset / Limit</SelectItem>
+                                <SelectItem value="page">Page Number</SelectItem>
+                                <SelectItem value="link">Link Header</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                          {newDataSource.paginationType === 'cursor' && (
+                            <div className="grid grid-cols-4 items-center gap-4">
+                              <Label htmlFor="ds-cursor-path" className="text-right">Cursor Path</Label>
+                              <Input
+                                id="ds-cursor-path"
+                                value={newDataSource.cursorPath}
+                                onChange={(e) => setNewDataSource(prev => ({ ...prev, cursorPath: e.target.value }))}
+                                placeholder="$.meta.next_cursor"
+                                className="col-span-3"
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                      {newDataSource.type === 'database' && (
+                        <>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-sql" className="text-right">SQL Query</Label>
+                            <Textarea
+                              id="ds-sql"
+                              value={newDataSource.sqlQuery}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, sqlQuery: e.target.value }))}
+                              placeholder="SELECT id, title, body, category, updated_at FROM articles"
+                              className="col-span-3 font-mono text-xs"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-text-cols" className="text-right">Text Columns</Label>
+                            <Input
+                              id="ds-text-cols"
+                              value={newDataSource.textColumns}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, textColumns: e.target.value }))}
+                              placeholder="title, body"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-meta-cols" className="text-right">Metadata Columns</Label>
+                            <Input
+                              id="ds-meta-cols"
+                              value={newDataSource.metadataColumns}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, metadataColumns: e.target.value }))}
+                              placeholder="category"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-id-col" className="text-right">ID Column</Label>
+                            <Input
+                              id="ds-id-col"
+                              value={newDataSource.idColumn}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, idColumn: e.target.value }))}
+                              placeholder="id"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-group-by" className="text-right">Group By</Label>
+                            <Input
+                              id="ds-group-by"
+                              value={newDataSource.groupBy}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, groupBy: e.target.value }))}
+                              placeholder="Optional: one document per value"
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="ds-cursor-col" className="text-right">Cursor Column</Label>
+                            <Input
+                              id="ds-cursor-col"
+                              value={newDataSource.cursorColumn}
+                              onChange={(e) => setNewDataSource(prev => ({ ...prev, cursorColumn: e.target.value }))}
+                              placeholder="updated_at"
+                              className="col-span-3"
+                            />
+                          </div>
+                        </>
+                      )}
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="ds-embedding-model" className="text-right">Embedding Model</Label>
+                        <Select value={newDataSource.embeddingModel} onValueChange={(value: string) => setNewDataSource(prev => ({ ...prev, embeddingModel: value }))}>
+                          <SelectTrigger id="ds-embedding-model" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_EMBEDDING_MODEL}>Default (OpenAI)</SelectItem>
+                            {embeddingModels.map(model => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.name} ({model.provider}: {model.modelName})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="ds-chunking" className="text-right">Chunking</Label>
+                        <Select value={newDataSource.chunkStrategy} onValueChange={(value: any) => setNewDataSource(prev => ({ ...prev, chunkStrategy: value }))}>
+                          <SelectTrigger className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Automatic (by file type)</SelectItem>
+                            <SelectItem value="fixed">Fixed size</SelectItem>
+                            <SelectItem value="sentence">Sentences</SelectItem>
+                            <SelectItem value="markdown">Markdown headings</SelectItem>
+                            <SelectItem value="semantic">Semantic (embedding similarity)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="ds-chunk-size" className="text-right">Chunk Size</Label>
+                        <Input
+                          id="ds-chunk-size"
+                          type="number"
+                          min={100}
+                          value={newDataSource.chunkSize}
+                          onChange={(e) => setNewDataSource(prev => ({ ...prev, chunkSize: parseInt(e.target.value) || 1000 }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="ds-chunk-overlap" className="text-right">Chunk Overlap</Label>
+                        <Input
+                          id="ds-chunk-overlap"
+                          type="number"
+                          min={0}
+                          value={newDataSource.chunkOverlap}
+                          onChange={(e) => setNewDataSource(prev => ({ ...prev, chunkOverlap: parseInt(e.target.value) || 0 }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                    </div>
                     <DialogFooter>
                       <Button
                         onClick={handleCreateOrUpdateDataSource}
@@ -605,19 +1622,36 @@ export function RagConfigurator() {
                                 {source.documentCount} chunks • {source.lastIndexed && `Indexed ${new Date(source.lastIndexed).toLocaleDateString()}`}
                               </p>
                             )}
+                            {source.status === 'queued' && (
+                              <p className="text-xs text-muted-foreground">
+                                Waiting for a free ingestion worker...
+                              </p>
+                            )}
                             {source.status === 'processing' && (
                               <p className="text-xs text-blue-400">
-                                Processing embeddings...
+                                {formatProgress(activeJobs[source.id]) || 'Processing embeddings...'}
                               </p>
                             )}
-                            {source.status === 'ready' && (
+                            {(source.status === 'ready' || source.status === 'partial') && (
                               <div>
                                 <p className="text-xs text-green-400">
                                   ✓ Vector store ready ({source.documentCount || 0} chunks)
                                 </p>
+                                {source.status === 'partial' && (
+                                  <p className="text-xs text-orange-400">
+                                    ⚠️ Some files or chunks could not be indexed
+                                    {source.lastRun && (source.lastRun.failedFiles > 0 || source.lastRun.failedChunks > 0) &&
+                                      ` (last run: ${source.lastRun.failedFiles} files, ${source.lastRun.failedChunks} chunks)`}
+                                  </p>
+                                )}
                                 <p className="text-xs text-muted-foreground">
                                   ID: datastore_{source.id.substring(0, 8)}...
                                 </p>
+                                {source.lastRun && (
+                                  <p className="text-xs text-muted-foreground">
+                                    💾 Embedding cache: {source.lastRun.embeddingCacheHits} hits, {source.lastRun.embeddingCacheMisses} misses
+                                  </p>
+                                )}
                               </div>
                             )}
                             {source.status === 'error' && (
@@ -625,6 +1659,12 @@ export function RagConfigurator() {
                                 ❌ Processing failed - check backend logs
                               </p>
                             )}
+                            {source.watcher && source.watcher.status !== 'stopped' && (
+                              <p className={`text-xs ${source.watcher.status === 'error' ? 'text-red-400' : 'text-muted-foreground'}`}>
+                                {source.watcher.status === 'watching' ? '👀 Watching for changes' : `⚠️ Watcher error: ${source.watcher.error}`}
+                                {source.watcher.lastSyncAt && ` • Last sync ${new Date(source.watcher.lastSyncAt).toLocaleString()}`}
+                              </p>
+                            )}
                           </div>
                         </div>
                         <div className="flex items-center gap-2">
@@ -632,11 +1672,51 @@ export function RagConfigurator() {
                           {source.status === 'processing' && processingDataSourceId === source.id && (
                             <span className="text-xs text-blue-400">Processing...</span>
                           )}
+                          {isBusy(source.status) && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleCancelJob(source.id)}
+                              disabled={isUpdatingItem === source.id}
+                              title="Cancel processing"
+                            >
+                              <Square className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {source.type === 'directory' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleToggleWatch(source)}
+                              disabled={isUpdatingItem === source.id || isBusy(source.status)}
+                              title={source.config?.watch?.enabled ? 'Stop watching for changes' : 'Watch for changes'}
+                            >
+                              {source.config?.watch?.enabled ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                            </Button>
+                          )}
+                          {source.status === 'partial' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleShowFailures(source)}
+                              title="Failed files and chunks"
+                            >
+                              <AlertTriangle className="w-4 h-4 text-orange-400" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setAliasDialog({ source, text: formatAliases(source.config?.aliases), error: null })}
+                            title={source.config?.aliases?.length ? `${source.config.aliases.length} name aliases` : 'Name aliases'}
+                          >
+                            <BookA className="w-4 h-4" />
+                          </Button>
                           <Button
                             size="sm"
                             variant="outline"
                             onClick={() => handleEditDataSource(source)}
-                            disabled={source.status === 'processing' || processingDataSourceId === source.id}
+                            disabled={isBusy(source.status) || processingDataSourceId === source.id}
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
@@ -715,33 +1795,91 @@ export function RagConfigurator() {
                           </SelectContent>
                         </Select>
                       </div>
+                      {newVectorStore.provider === 'local' ? (
+                        <div className="grid grid-cols-4 items-center gap-4">
+                          <Label htmlFor="vs-distance" className="text-right">Distance</Label>
+                          <Select value={newVectorStore.distance} onValueChange={(value: 'cosine' | 'l2') => setNewVectorStore(prev => ({ ...prev, distance: value }))}>
+                            <SelectTrigger id="vs-distance" className="col-span-3">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="cosine">Cosine</SelectItem>
+                              <SelectItem value="l2">Euclidean (L2)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="vs-host" className="text-right">Host</Label>
+                            <Input
+                              id="vs-host"
+                              value={newVectorStore.host}
+                              onChange={(e) => setNewVectorStore(prev => ({ ...prev, host: e.target.value }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="vs-port" className="text-right">Port</Label>
+                            <Input
+                              id="vs-port"
+                              type="number"
+                              value={newVectorStore.port}
+                              onChange={(e) => setNewVectorStore(prev => ({ ...prev, port: parseInt(e.target.value) }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                          <div className="grid grid-cols-4 items-center gap-4">
+                            <Label htmlFor="vs-key" className="text-right">API Key</Label>
+                            <Input
+                              id="vs-key"
+                              value={newVectorStore.apiKey}
+                              onChange={(e) => setNewVectorStore(prev => ({ ...prev, apiKey: e.target.value }))}
+                              className="col-span-3"
+                            />
+                          </div>
+                        </>
+                      )}
                       <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="vs-host" className="text-right">Host</Label>
-                        <Input
-                          id="vs-host"
-                          value={newVectorStore.host}
-                          onChange={(e) => setNewVectorStore(prev => ({ ...prev, host: e.target.value }))}
-                          className="col-span-3"
-                        />
-                      </div>
-                      <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="vs-port" className="text-right">Port</Label>
-                        <Input
-                          id="vs-port"
-                          type="number"
-                          value={newVectorStore.port}
-                          onChange={(e) => setNewVectorStore(prev => ({ ...prev, port: parseInt(e.target.value) }))}
-                          className="col-span-3"
-                        />
+                        <Label htmlFor="vs-rerank" className="text-right">Reranking</Label>
+                        <Select value={newVectorStore.rerankProvider} onValueChange={(value: RerankProvider | 'none') => setNewVectorStore(prev => ({ ...prev, rerankProvider: value }))}>
+                          <SelectTrigger id="vs-rerank" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="none">None</SelectItem>
+                            <SelectItem value="cross-encoder">Local cross-encoder</SelectItem>
+                            <SelectItem value="llm">LLM scoring</SelectItem>
+                          </SelectContent>
+                        </Select>
                       </div>
+                      {newVectorStore.rerankProvider !== 'none' && (
+                        <div className="grid grid-cols-4 items-center gap-4">
+                          <Label htmlFor="vs-rerank-model" className="text-right">Rerank Model</Label>
+                          <Input
+                            id="vs-rerank-model"
+                            value={newVectorStore.rerankModel}
+                            onChange={(e) => setNewVectorStore(prev => ({ ...prev, rerankModel: e.target.value }))}
+                            placeholder={newVectorStore.rerankProvider === 'llm' ? 'gpt-4o-mini' : 'Xenova/ms-marco-MiniLM-L-6-v2'}
+                            className="col-span-3"
+                          />
+                        </div>
+                      )}
                       <div className="grid grid-cols-4 items-center gap-4">
-                        <Label htmlFor="vs-key" className="text-right">API Key</Label>
-                        <Input
-                          id="vs-key"
-                          value={newVectorStore.apiKey}
-                          onChange={(e) => setNewVectorStore(prev => ({ ...prev, apiKey: e.target.value }))}
-                          className="col-span-3"
-                        />
+                        <Label htmlFor="vs-embedding-model" className="text-right">Embedding Model</Label>
+                        <Select value={newVectorStore.embeddingModel} onValueChange={(value: string) => setNewVectorStore(prev => ({ ...prev, embeddingModel: value }))}>
+                          <SelectTrigger id="vs-embedding-model" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_EMBEDDING_MODEL}>Default (OpenAI)</SelectItem>
+                            {embeddingModels.map(model => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.name} ({model.provider}: {model.modelName})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
                     <DialogFooter>
@@ -816,8 +1954,355 @@ export function RagConfigurator() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="pipelines" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                Pipelines
+                <Dialog open={isPipelineDialogOpen} onOpenChange={setIsPipelineDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button size="sm" disabled={dataSources.length === 0}>
+                      <Plus className="w-4 h-4 mr-2" />
+                      Add Pipeline
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+                    <DialogHeader>
+                      <DialogTitle>{editingPipeline ? 'Edit Pipeline' : 'Create Pipeline'}</DialogTitle>
+                      <DialogDescription>
+                        Index several data sources together into one vector store with the same embedding model and chunking.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="grid gap-4 py-4">
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-name" className="text-right">Name</Label>
+                        <Input
+                          id="pl-name"
+                          value={newPipeline.name}
+                          onChange={(e) => setNewPipeline(prev => ({ ...prev, name: e.target.value }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-description" className="text-right">Description</Label>
+                        <Input
+                          id="pl-description"
+                          value={newPipeline.description}
+                          onChange={(e) => setNewPipeline(prev => ({ ...prev, description: e.target.value }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                      <div className="grid grid-cols-4 items-start gap-4">
+                        <Label className="text-right pt-1">Data Sources</Label>
+                        <div className="col-span-3 space-y-2 max-h-40 overflow-y-auto">
+                          {dataSources.map(source => (
+                            <label key={source.id} className="flex items-center gap-2 text-sm">
+                              <input
+                                type="checkbox"
+                                checked={newPipeline.dataSources.includes(source.id)}
+                                onChange={(e) => togglePipelineSource(source.id, e.target.checked)}
+                              />
+                              {getDataSourceIcon(source.type)}
+                              {source.name}
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-vector-store" className="text-right">Vector Store</Label>
+                        <Select value={newPipeline.vectorStore} onValueChange={(value: string) => setNewPipeline(prev => ({ ...prev, vectorStore: value }))}>
+                          <SelectTrigger id="pl-vector-store" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={OWN_VECTOR_STORE}>Own store (created on first run)</SelectItem>
+                            {vectorStores
+                              .filter(store => !store.id.startsWith('datastore_') && !store.id.startsWith('pipeline_'))
+                              .map(store => (
+                                <SelectItem key={store.id} value={store.id}>
+                                  {store.name} ({store.provider})
+                                </SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-embedding-model" className="text-right">Embedding Model</Label>
+                        <Select value={newPipeline.embeddingModel} onValueChange={(value: string) => setNewPipeline(prev => ({ ...prev, embeddingModel: value }))}>
+                          <SelectTrigger id="pl-embedding-model" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_EMBEDDING_MODEL}>Default (OpenAI)</SelectItem>
+                            {embeddingModels.map(model => (
+                              <SelectItem key={model.id} value={model.id}>
+                                {model.name} ({model.provider}: {model.modelName})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-chunking" className="text-right">Chunking</Label>
+                        <Select value={newPipeline.chunkStrategy} onValueChange={(value: ChunkingStrategy) => setNewPipeline(prev => ({ ...prev, chunkStrategy: value }))}>
+                          <SelectTrigger id="pl-chunking" className="col-span-3">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="auto">Automatic (each source&apos;s own settings)</SelectItem>
+                            <SelectItem value="fixed">Fixed size</SelectItem>
+                            <SelectItem value="sentence">Sentences</SelectItem>
+                            <SelectItem value="markdown">Markdown headings</SelectItem>
+                            <SelectItem value="semantic">Semantic (embedding similarity)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-chunk-size" className="text-right">Chunk Size</Label>
+                        <Input
+                          id="pl-chunk-size"
+                          type="number"
+                          min={100}
+                          value={newPipeline.chunkSize}
+                          onChange={(e) => setNewPipeline(prev => ({ ...prev, chunkSize: parseInt(e.target.value) || 1000 }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                      <div className="grid grid-cols-4 items-center gap-4">
+                        <Label htmlFor="pl-chunk-overlap" className="text-right">Chunk Overlap</Label>
+                        <Input
+                          id="pl-chunk-overlap"
+                          type="number"
+                          min={0}
+                          value={newPipeline.chunkOverlap}
+                          onChange={(e) => setNewPipeline(prev => ({ ...prev, chunkOverlap: parseInt(e.target.value) || 0 }))}
+                          className="col-span-3"
+                        />
+                      </div>
+                      {pipelineError && <p className="text-sm text-red-400">{pipelineError}</p>}
+                    </div>
+                    <DialogFooter>
+                      <Button
+                        onClick={handleSavePipeline}
+                        disabled={isSavingPipeline || !newPipeline.name.trim() || newPipeline.dataSources.length === 0}
+                      >
+                        {isSavingPipeline ? (
+                          <>
+                            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin mr-2" />
+                            {editingPipeline ? 'Updating...' : 'Creating...'}
+                          </>
+                        ) : (
+                          editingPipeline ? 'Update Pipeline' : 'Create Pipeline'
+                        )}
+                      </Button>
+                    </DialogFooter>
+                  </DialogContent>
+                </Dialog>
+              </CardTitle>
+              <CardDescription>
+                Combine data sources into a single vector store. Runs only embed chunks that changed since the last run.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid gap-4">
+                {pipelines.map((pipeline) => (
+                  <Card key={pipeline.id}>
+                    <CardContent className="pt-6">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="font-semibold">{pipeline.name}</h4>
+                          {pipeline.description && (
+                            <p className="text-sm text-muted-foreground">{pipeline.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {pipeline.dataSources
+                              .map(id => dataSources.find(source => source.id === id)?.name || id)
+                              .join(', ')}
+                            {' → '}
+                            {vectorStores.find(store => store.id === pipeline.vectorStore)?.name || 'own store'}
+                          </p>
+                          {pipeline.documentCount !== undefined && (
+                            <p className="text-xs text-muted-foreground">
+                              {pipeline.documentCount} chunks
+                              {pipeline.lastProcessed && ` • Last run ${new Date(pipeline.lastProcessed).toLocaleString()}`}
+                            </p>
+                          )}
+                          {pipeline.lastRun && (
+                            <p className="text-xs text-muted-foreground">
+                              Last run embedded {pipeline.lastRun.sources.reduce((total, source) => total + source.embedded, 0)} chunks
+                              {pipeline.lastRun.removedChunks > 0 && `, removed ${pipeline.lastRun.removedChunks}`}
+                              {pipeline.lastRun.failedChunks > 0 && `, ${pipeline.lastRun.failedChunks} failed and will be retried next run`}
+                            </p>
+                          )}
+                          {pipeline.lastRun?.sources.filter(source => source.error).map(source => (
+                            <p key={source.dataSourceId} className="text-xs text-red-400">
+                              {dataSources.find(ds => ds.id === source.dataSourceId)?.name || source.dataSourceId}: {source.error}
+                            </p>
+                          ))}
+                          {pipeline.status === 'processing' && activeJobs[pipeline.id] && (
+                            <p className="text-xs text-blue-400">{formatProgress(activeJobs[pipeline.id])}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getStatusBadge(pipeline.status)}
+                          {isBusy(pipeline.status) ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleCancelJob(pipeline.id)}
+                              disabled={isUpdatingItem === pipeline.id}
+                              title="Cancel run"
+                            >
+                              <Square className="w-4 h-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRunPipeline(pipeline)}
+                              disabled={isUpdatingItem === pipeline.id}
+                              title="Run pipeline"
+                            >
+                              <Play className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleEditPipeline(pipeline)}
+                            disabled={isBusy(pipeline.status) || isDeletingItem === pipeline.id}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="destructive"
+                            onClick={() => handleDeleteItem(pipeline, 'pipeline')}
+                            disabled={isDeletingItem === pipeline.id}
+                          >
+                            {isDeletingItem === pipeline.id ? (
+                              <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                            ) : (
+                              <Trash2 className="w-4 h-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ))}
+                {pipelines.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No pipelines yet. Create one to index several data sources into a single vector store.
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
       </Tabs>
 
+      {/* Name Aliases Dialog */}
+    <Dialog
+      open={aliasDialog.source !== null}
+      onOpenChange={(open) => !open && setAliasDialog({ source: null, text: '', error: null })}
+    >
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Name Aliases{aliasDialog.source && ` • ${aliasDialog.source.name}`}</DialogTitle>
+          <DialogDescription>
+            Names and terms users say or spell differently from this source. Queries mentioning an alias, in any case
+            or accents, search for the term instead. Names that sound like ones in the data are matched without an
+            entry.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2 py-4">
+          <Label htmlFor="ds-aliases">One term per line, followed by its aliases</Label>
+          <Textarea
+            id="ds-aliases"
+            value={aliasDialog.text}
+            onChange={(e) => setAliasDialog(prev => ({ ...prev, text: e.target.value }))}
+            placeholder={'Siobhan: Shivon, Chevonne\nNguyen: Win, Newen'}
+            rows={8}
+            className="font-mono text-sm"
+          />
+          {aliasDialog.error && <p className="text-sm text-red-400">{aliasDialog.error}</p>}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setAliasDialog({ source: null, text: '', error: null })}>
+            Cancel
+          </Button>
+          <Button onClick={handleSaveAliases} disabled={isUpdatingItem === aliasDialog.source?.id}>
+            Save Aliases
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+
+      {/* Ingestion Failures Dialog */}
+    <Dialog
+      open={failureReport.source !== null}
+      onOpenChange={(open) => !open && setFailureReport({ source: null, failures: [], error: null })}
+    >
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle>Ingestion Failures{failureReport.source && ` • ${failureReport.source.name}`}</DialogTitle>
+          <DialogDescription>
+            Files that could not be loaded are retried when the source is processed again. Chunks whose embedding
+            failed can be re-embedded on their own.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4 max-h-[60vh] overflow-y-auto">
+          {failureReport.failures.filter(failure => failure.kind === 'file').length > 0 && (
+            <div className="grid gap-2">
+              <h4 className="text-sm font-semibold">Failed files</h4>
+              {failureReport.failures.filter(failure => failure.kind === 'file').map(failure => (
+                <div key={failure.id} className="text-xs border rounded p-2">
+                  <p className="font-mono break-all">{failure.path}</p>
+                  <p className="text-red-400">{failure.error}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {failureReport.failures.filter(failure => failure.kind === 'chunk').length > 0 && (
+            <div className="grid gap-2">
+              <h4 className="text-sm font-semibold">Failed chunks</h4>
+              {failureReport.failures.filter(failure => failure.kind === 'chunk').map(failure => (
+                <div key={failure.id} className="text-xs border rounded p-2">
+                  {failure.path && <p className="font-mono break-all">{failure.path}</p>}
+                  <p className="text-muted-foreground line-clamp-2">{failure.preview}</p>
+                  <p className="text-red-400">
+                    {failure.error}{failure.attempts > 1 && ` • ${failure.attempts} attempts`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          {failureReport.failures.length === 0 && !failureReport.error && (
+            <p className="text-sm text-muted-foreground">No failures recorded.</p>
+          )}
+          {failureReport.error && <p className="text-sm text-red-400">{failureReport.error}</p>}
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => handleRetryFailures('retry')}
+            disabled={isUpdatingItem === failureReport.source?.id || !failureReport.failures.some(failure => failure.kind === 'file')}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Retry Files
+          </Button>
+          <Button
+            onClick={() => handleRetryFailures('reembed')}
+            disabled={isUpdatingItem === failureReport.source?.id || !failureReport.failures.some(failure => failure.kind === 'chunk')}
+          >
+            Re-embed Failed Chunks
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+
       {/* Delete Confirmation Dialog */}
     <Dialog
       open={deleteConfirmDialog.isOpen}
@@ -827,11 +2312,11 @@ export function RagConfigurator() {
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-red-500">
             <Trash2 className="w-5 h-5" />
-            Delete {deleteConfirmDialog.type === 'datasource' ? 'Data Source' : 'Vector Store'}
+            Delete {deleteItemLabel}
           </DialogTitle>
           <DialogDescription className="text-muted-foreground">
             This action cannot be undone. This will permanently delete the{' '}
-            {deleteConfirmDialog.type === 'datasource' ? 'data source' : 'vector store'}{' '}
+            {deleteItemLabel.toLowerCase()}{' '}
             and remove all associated data.
           </DialogDescription>
         </DialogHeader>
@@ -842,6 +2327,8 @@ export function RagConfigurator() {
               <div className="flex items-center gap-2">
                 {deleteConfirmDialog.type === 'datasource' ? (
                   <FileText className="w-5 h-5 text-blue-500" />
+                ) : deleteConfirmDialog.type === 'pipeline' ? (
+                  <Workflow className="w-5 h-5 text-green-500" />
                 ) : (
                   <Database className="w-5 h-5 text-purple-500" />
                 )}
@@ -850,7 +2337,9 @@ export function RagConfigurator() {
                   <p className="text-sm text-muted-foreground">
                     {deleteConfirmDialog.type === 'datasource'
                       ? `Type: ${(deleteConfirmDialog.item as DataSource).type}`
-                      : `Provider: ${(deleteConfirmDialog.item as VectorStore).provider}`
+                      : deleteConfirmDialog.type === 'pipeline'
+                        ? `${(deleteConfirmDialog.item as RagPipeline).dataSources.length} data sources`
+                        : `Provider: ${(deleteConfirmDialog.item as VectorStore).provider}`
                     }
                   </p>
                 </div>
@@ -861,7 +2350,9 @@ export function RagConfigurator() {
               <p className="text-sm text-red-400 font-medium">
                 ⚠️ Warning: {deleteConfirmDialog.type === 'datasource'
                   ? 'All associated vector stores and embeddings will be deleted.'
-                  : 'All stored vectors and search capabilities will be lost.'
+                  : deleteConfirmDialog.type === 'pipeline'
+                    ? 'The chunks this pipeline indexed will be removed from its vector store.'
+                    : 'All stored vectors and search capabilities will be lost.'
                 }
               </p>
             </div>
@@ -889,7 +2380,7 @@ export function RagConfigurator() {
             ) : (
               <>
                 <Trash2 className="w-4 h-4 mr-2" />
-                Delete {deleteConfirmDialog.type === 'datasource' ? 'Data Source' : 'Vector Store'}
+                Delete {deleteItemLabel}
               </>
             )}
           </Button>
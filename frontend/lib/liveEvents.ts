@@ -0,0 +1,175 @@
+import { useEffect, useRef } from 'react'
+
+// Mirrors the backend's event bus (backend/src/services/eventBus.ts)
+export interface LiveEvents {
+  'datasource.updated': {
+    id: string
+    name: string
+    status: 'configured' | 'queued' | 'processing' | 'ready' | 'partial' | 'error'
+    documentCount?: number
+    lastIndexed?: string
+    lastRun?: { embeddingCacheHits: number; embeddingCacheMisses: number; failedFiles: number; failedChunks: number; finishedAt?: string }
+    watcher?: { status: 'watching' | 'stopped' | 'error'; lastSyncAt?: string; error?: string }
+  }
+  'pipeline.updated': {
+    id: string
+    name: string
+    status: 'configured' | 'queued' | 'processing' | 'ready' | 'error'
+    documentCount?: number
+    lastProcessed?: string
+    lastRun?: {
+      embeddingCacheHits: number
+      embeddingCacheMisses: number
+      failedFiles: number
+      failedChunks: number
+      finishedAt?: string
+      sources: Array<{ dataSourceId: string; chunks: number; embedded: number; failedChunks: number; error?: string }>
+      removedChunks: number
+    }
+  }
+  'job.updated': {
+    id: string
+    type: 'datasource' | 'pipeline' | 'reembed' | 'sync'
+    targetId: string
+    status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+    progress: { loaded: number; chunked: number; embedded: number; stored: number }
+    error?: string
+    createdAt: string
+  }
+  'mcp.status': {
+    id: string
+    name: string
+    status: 'stopped' | 'running' | 'error'
+    reason: 'started' | 'stopped' | 'exited' | 'crashed' | 'failed'
+    exitCode?: number | null
+    error?: string
+  }
+  'agent.status': {
+    id: string
+    name: string
+    status: 'configured' | 'ready' | 'running' | 'error'
+  }
+}
+
+export type LiveEventType = keyof LiveEvents
+export type LiveEvent = { [T in LiveEventType]: { type: T; payload: LiveEvents[T]; timestamp: string } }[LiveEventType]
+export type LiveTopic = 'datasource' | 'pipeline' | 'job' | 'mcp' | 'agent'
+
+type Listener = { topics: LiveTopic[]; handler: (event: LiveEvent) => void }
+
+const MAX_RECONNECT_DELAY_MS = 30000
+
+// Next.js rewrites only proxy HTTP, so the socket goes to the backend directly
+function socketUrl(): string {
+  if (process.env.NEXT_PUBLIC_WS_URL) return process.env.NEXT_PUBLIC_WS_URL
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.hostname}:3001`
+}
+
+// One socket shared by every subscribed component. It opens with the first listener, closes
+// with the last, and reconnects with backoff in between, subscribing again to every topic.
+const listeners = new Set<Listener>()
+let socket: WebSocket | null = null
+let reconnectDelay = 1000
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+
+function subscribedTopics(): LiveTopic[] {
+  return Array.from(new Set(Array.from(listeners).flatMap(listener => listener.topics)))
+}
+
+function send(message: { type: 'subscribe' | 'unsubscribe'; topics: LiveTopic[] }) {
+  if (socket?.readyState === WebSocket.OPEN && message.topics.length > 0) {
+    socket.send(JSON.stringify(message))
+  }
+}
+
+function connect() {
+  if (socket || listeners.size === 0) return
+
+  const ws = new WebSocket(socketUrl())
+  socket = ws
+  ws.onopen = () => {
+    reconnectDelay = 1000
+    send({ type: 'subscribe', topics: subscribedTopics() })
+  }
+  ws.onmessage = (message) => {
+    let event: LiveEvent
+    try {
+      event = JSON.parse(message.data)
+    } catch {
+      return
+    }
+    const topic = event.type.split('.')[0] as LiveTopic
+    listeners.forEach(listener => {
+      if (listener.topics.includes(topic)) listener.handler(event)
+    })
+  }
+  ws.onclose = () => {
+    if (socket !== ws) return
+    socket = null
+    if (listeners.size === 0) return
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null
+      connect()
+    }, reconnectDelay)
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS)
+  }
+}
+
+export function subscribeLiveEvents(topics: LiveTopic[], handler: (event: LiveEvent) => void): () => void {
+  const listener = { topics, handler }
+  const before = subscribedTopics()
+  listeners.add(listener)
+  if (socket) send({ type: 'subscribe', topics: topics.filter(topic => !before.includes(topic)) })
+  else connect()
+
+  return () => {
+    listeners.delete(listener)
+    const remaining = subscribedTopics()
+    send({ type: 'unsubscribe', topics: topics.filter(topic => !remaining.includes(topic)) })
+    if (listeners.size === 0) {
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      reconnectTimer = null
+      const ws = socket
+      socket = null
+      ws?.close()
+    }
+  }
+}
+
+// Calls the latest `handler` for every event of the topics while the component is mounted
+export function useLiveEvents(topics: LiveTopic[], handler: (event: LiveEvent) => void) {
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+  const topicKey = topics.join(',')
+
+  useEffect(() => {
+    return subscribeLiveEvents(topicKey.split(',') as LiveTopic[], event => handlerRef.current(event))
+  }, [topicKey])
+}
+
+// Resolves with the first event of `type` that `matches`, or rejects after `timeoutMs`
+export function waitForLiveEvent<T extends LiveEventType>(
+  type: T,
+  matches: (payload: LiveEvents[T]) => boolean,
+  timeoutMs: number
+): { promise: Promise<LiveEvents[T]>; cancel: () => void } {
+  let cancel = () => {}
+  const promise = new Promise<LiveEvents[T]>((resolve, reject) => {
+    const topic = type.split('.')[0] as LiveTopic
+    const unsubscribe = subscribeLiveEvents([topic], event => {
+      if (event.type !== type || !matches(event.payload as LiveEvents[T])) return
+      cancel()
+      resolve(event.payload as LiveEvents[T])
+    })
+    const timer = setTimeout(() => {
+      cancel()
+      reject(new Error('Timed out waiting for an update'))
+    }, timeoutMs)
+    cancel = () => {
+      clearTimeout(timer)
+      unsubscribe()
+    }
+  })
+  return { promise, cancel }
+}